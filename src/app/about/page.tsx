@@ -49,9 +49,10 @@ export default function AboutPage() {
       description: "Measures how easy the text is to read and understand",
       algorithm: [
         "Uses Flesch Reading Ease formula (industry-standard readability metric)",
-        "Measures sentence length variance and complexity",
+        "Also computes Flesch-Kincaid, Gunning Fog, SMOG, Coleman-Liau and Dale-Chall grade levels",
         "Evaluates vocabulary complexity through syllable counting",
         "Penalizes overly long sentences (> 40 words)",
+        "With a target audience, scores closeness to its grade level instead",
       ],
       range: "0-100",
       interpretation: {
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getExperiment } from "@/services/database";
+import { analyzeDiversity } from "@/services/diversity";
+import { diversityQuerySchema } from "@/lib/schemas";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/diversity?id=xxx&threshold=0.9
+ * Pairwise similarity between the responses of an experiment, diversity per
+ * temperature and near-duplicate clusters
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { id, ...options } = diversityQuerySchema.parse(
+      Object.fromEntries(searchParams.entries())
+    );
+
+    const experiment = await getExperiment(id);
+
+    if (!experiment) {
+      return NextResponse.json(
+        { error: "Experiment not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(analyzeDiversity(experiment.responses, options));
+  } catch (error) {
+    console.error("API Error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error", message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
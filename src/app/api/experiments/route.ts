@@ -1,17 +1,23 @@
 import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
 import {
-  getAllExperiments,
+  listExperiments,
   getExperiment,
   deleteExperiment,
   updateExperiment,
 } from "@/services/database";
+import { calculateParameterSetStatistics } from "@/services/statistics";
+import { experimentListQuerySchema } from "@/lib/schemas";
 
 // Ensure fresh data on every request
 export const dynamic = 'force-dynamic';
 
 /**
  * GET /api/experiments
- * Get all experiments (summary view)
+ * Get a page of experiment summaries, newest first by default. Filters:
+ * name, model, from, to, minScore, maxScore; sort (createdAt, bestScore,
+ * responseCount) and order (asc, desc); limit and the previous page's
+ * nextCursor as cursor.
  * 
  * GET /api/experiments?id=xxx
  * Get a specific experiment by ID
@@ -32,14 +38,26 @@ export async function GET(request: NextRequest) {
         );
       }
 
+      // Experiments saved before statistics were stored get them on the fly
+      if (!experiment.statistics) {
+        experiment.statistics = calculateParameterSetStatistics(experiment.responses);
+      }
+
       return NextResponse.json(experiment);
     }
 
-    // Get all experiments (summary)
-    const experiments = await getAllExperiments();
-    return NextResponse.json({ experiments });
+    const query = experimentListQuerySchema.parse(Object.fromEntries(searchParams.entries()));
+    return NextResponse.json(await listExperiments(query));
   } catch (error: any) {
     console.error("API Error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
       { error: "Internal server error", message: error.message },
       { status: 500 }
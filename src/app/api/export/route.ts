@@ -1,20 +1,24 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getExperiment } from "@/services/database";
+import { DEFAULT_SCORING_PROFILE } from "@/services/scoring-profiles";
+import { redactResponse } from "@/services/safety";
 import Papa from "papaparse";
-import { ExportFormat } from "@/types";
+import { ExportFormat, LLMResponse } from "@/types";
 
 // Ensure fresh data for exports
 export const dynamic = 'force-dynamic';
 
 /**
- * GET /api/export?id=xxx&format=json|csv
- * Export an experiment in the specified format
+ * GET /api/export?id=xxx&format=json|csv[&includeFlagged=true]
+ * Export an experiment in the specified format; text flagged by safety
+ * screening is redacted unless includeFlagged=true
  */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const id = searchParams.get("id");
     const format = searchParams.get("format") || "json";
+    const includeFlagged = searchParams.get("includeFlagged") === "true";
 
     if (!id) {
       return NextResponse.json(
@@ -23,15 +27,19 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const experiment = await getExperiment(id);
+    const stored = await getExperiment(id);
 
-    if (!experiment) {
+    if (!stored) {
       return NextResponse.json(
         { error: "Experiment not found" },
         { status: 404 }
       );
     }
 
+    const experiment = includeFlagged
+      ? stored
+      : { ...stored, responses: stored.responses.map(redactResponse) };
+
     if (format === "json") {
       return exportAsJSON(experiment);
     } else if (format === "csv") {
@@ -76,20 +84,30 @@ function exportAsJSON(experiment: any) {
  * Export experiment as CSV
  */
 function exportAsCSV(experiment: any) {
+  // One score column per metric present in any response
+  const metricIds: string[] = [
+    ...new Set<string>(
+      experiment.responses.flatMap((response: LLMResponse) => Object.keys(response.metrics))
+    ),
+  ].filter((id) => id !== "overall");
+
   // Flatten experiment data for CSV
   const rows = experiment.responses.map((response: any) => ({
     experiment_id: experiment.id,
     prompt: experiment.prompt,
+    reference: experiment.settings?.reference ?? "",
     response_id: response.id,
     response_content: response.content,
     temperature: response.parameters.temperature,
     top_p: response.parameters.topP,
-    coherence_score: response.metrics.coherence,
-    completeness_score: response.metrics.completeness,
-    readability_score: response.metrics.readability,
-    length_appropriateness_score: response.metrics.lengthAppropriatenss,
-    structural_quality_score: response.metrics.structuralQuality,
+    sample_index: response.sampleIndex ?? 0,
+    ...Object.fromEntries(
+      metricIds.map((id) => [`${id}_score`, response.metrics[id] ?? ""])
+    ),
     overall_score: response.metrics.overall,
+    safety_score: response.safety?.score ?? "",
+    safety_flags: response.safety?.flags.join(";") ?? "",
+    scoring_profile: experiment.settings?.scoringProfile ?? DEFAULT_SCORING_PROFILE,
     token_count: response.tokenCount,
     model: response.model,
     generated_at: response.generatedAt,
@@ -1,33 +1,45 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-import { generateResponse, validateParameters } from "@/services/llm";
-import { calculateMetrics } from "@/services/metrics";
+import { validateParameters } from "@/services/llm";
+import { generateScoredResponse, toGenerationFailure } from "@/services/experiment-runner";
+import { expandSamples, GenerationSlot } from "@/services/sweep";
+import { calculateParameterSetStatistics } from "@/services/statistics";
 import { saveExperiment } from "@/services/database";
-import { generateId } from "@/lib/utils";
-import { Experiment, LLMResponse } from "@/types";
+import { generateId, mapWithConcurrency } from "@/lib/utils";
+import { formatSSE } from "@/lib/sse";
+import { streamingGenerateRequestSchema } from "@/lib/schemas";
+import { Experiment, ExperimentSettings, GenerationFailure, LLMResponse } from "@/types";
 
-// Configure route to allow longer execution time for LLM API calls
-export const maxDuration = 30; // 30 seconds
+// Configure route to allow longer execution time for LLM API calls; a run
+// of up to EXPERIMENT_BUDGET generations can take minutes
+export const maxDuration = 300; // 5 minutes
 export const dynamic = 'force-dynamic';
 
-const generateRequestSchema = z.object({
-  prompt: z.string().min(1, "Prompt is required").max(5000, "Prompt too long"),
-  parameters: z.array(
-    z.object({
-      temperature: z.number().min(0).max(2),
-      topP: z.number().min(0).max(1),
-    })
-  ).min(1, "At least one parameter set required").max(20, "Too many parameter sets"),
-  model: z.string().optional().default("gpt-4o-mini"),
-});
+// Generations run in parallel when streaming
+const STREAM_CONCURRENCY = 4;
 
+/**
+ * POST /api/generate
+ * Generate and score `samples` responses per parameter set
+ *
+ * With `stream: true` the response is a Server-Sent Events stream:
+ * - `start`    { total }
+ * - `token`    { index, delta }
+ * - `response` { index, response }
+ * - `failed`   { index, message }
+ * - `done`     { experimentId }
+ * - `error`    { message }
+ *
+ * Failed generations are reported but not saved; when every one fails,
+ * no experiment is created.
+ */
 export async function POST(request: NextRequest) {
   try {
     // Parse and validate request body
     const body = await request.json();
-    const validatedData = generateRequestSchema.parse(body);
+    const validatedData = streamingGenerateRequestSchema.parse(body);
 
-    const { prompt, parameters, model } = validatedData;
+    const { prompt, parameters, samples, model, settings, stream } = validatedData;
 
     // Validate all parameter sets
     for (const params of parameters) {
@@ -40,65 +52,43 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Generate responses for each parameter set
+    const slots = expandSamples(parameters, samples);
+
+    if (stream) {
+      return streamExperiment(prompt, slots, model, settings);
+    }
+
+    // Generate responses for each sample of each parameter set
     const responses: LLMResponse[] = [];
+    const failures: GenerationFailure[] = [];
 
-    for (const params of parameters) {
+    for (const slot of slots) {
+      // Errors are captured per response so other parameters still run
       try {
-        const result = await generateResponse(prompt, params, model);
-        const metrics = calculateMetrics(prompt, result.content);
-
-        const response: LLMResponse = {
-          id: generateId(),
-          content: result.content,
-          parameters: params,
-          metrics,
-          generatedAt: new Date(),
-          tokenCount: result.tokenCount,
-          model: result.model,
-        };
-
-        responses.push(response);
-      } catch (error: any) {
+        responses.push(await generateScoredResponse(prompt, slot, model, settings));
+      } catch (error) {
         console.error("Error generating response:", error);
-        // Continue with other parameters even if one fails
-        responses.push({
-          id: generateId(),
-          content: `Error generating response: ${error.message}`,
-          parameters: params,
-          metrics: {
-            coherence: 0,
-            completeness: 0,
-            readability: 0,
-            lengthAppropriatenss: 0,
-            structuralQuality: 0,
-            overall: 0,
-          },
-          generatedAt: new Date(),
-          tokenCount: 0,
-          model: model,
-        });
+        failures.push(toGenerationFailure(slot, error));
       }
     }
 
-    // Create and save experiment
-    const experiment: Experiment = {
-      id: generateId(),
-      prompt,
-      responses,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+    if (responses.length === 0) {
+      return NextResponse.json({ error: "All generations failed", failures }, { status: 502 });
+    }
 
-    await saveExperiment(experiment);
+    const experiment = await createExperiment(prompt, responses, settings);
 
     return NextResponse.json({
       experimentId: experiment.id,
+      failures,
       responses: responses.map((r) => ({
         id: r.id,
         content: r.content,
         parameters: r.parameters,
+        sampleIndex: r.sampleIndex,
         metrics: r.metrics,
+        metricVersions: r.metricVersions,
+        safety: r.safety,
         tokenCount: r.tokenCount,
         model: r.model,
       })),
@@ -120,3 +110,101 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * Stream tokens and scored responses while the parameter sets run
+ */
+function streamExperiment(
+  prompt: string,
+  slots: GenerationSlot[],
+  model: string,
+  settings: ExperimentSettings
+): Response {
+  const encoder = new TextEncoder();
+  // Set once the client disconnects; the run goes on so the experiment is
+  // still saved, but nothing more is sent
+  let closed = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(formatSSE(event, data)));
+        } catch {
+          closed = true;
+        }
+      };
+
+      try {
+        send("start", { total: slots.length });
+
+        const results = await mapWithConcurrency(slots, STREAM_CONCURRENCY, async (slot, index) => {
+          try {
+            const response = await generateScoredResponse(prompt, slot, model, settings, (delta) =>
+              send("token", { index, delta })
+            );
+            send("response", { index, response });
+            return response;
+          } catch (error) {
+            console.error("Error generating response:", error);
+            send("failed", { index, message: (error as Error).message });
+            return null;
+          }
+        });
+
+        const responses = results.filter((response): response is LLMResponse => response !== null);
+        if (responses.length === 0) {
+          throw new Error("All generations failed");
+        }
+
+        const experiment = await createExperiment(prompt, responses, settings);
+        send("done", { experimentId: experiment.id });
+      } catch (error) {
+        console.error("Streaming error:", error);
+        send("error", { message: (error as Error).message });
+      } finally {
+        if (!closed) {
+          closed = true;
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the disconnect
+          }
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+/**
+ * Create and save an experiment with its per-parameter-set statistics
+ */
+async function createExperiment(
+  prompt: string,
+  responses: LLMResponse[],
+  settings: ExperimentSettings
+): Promise<Experiment> {
+  const experiment: Experiment = {
+    id: generateId(),
+    prompt,
+    responses,
+    settings,
+    statistics: calculateParameterSetStatistics(responses),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  await saveExperiment(experiment);
+  return experiment;
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJob } from "@/services/database";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/jobs/:id
+ * Report a job's status and per-response progress
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const job = await getJob(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    const count = (status: string) => job.tasks.filter((task) => task.status === status).length;
+
+    return NextResponse.json({
+      ...job,
+      progress: {
+        total: job.tasks.length,
+        completed: count("completed"),
+        failed: count("failed"),
+        running: count("running"),
+        pending: count("pending"),
+      },
+    });
+  } catch (error) {
+    console.error("API Error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { z } from "zod";
+import { validateParameters } from "@/services/llm";
+import { submitJob, waitForIdle } from "@/services/jobs";
+import { expandSamples } from "@/services/sweep";
+import { generateRequestSchema } from "@/lib/schemas";
+
+// Background work continues after the response until this limit
+export const maxDuration = 60;
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/jobs
+ * Queue an experiment for background processing
+ *
+ * Returns immediately with the job ID; poll GET /api/jobs/:id for progress.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { prompt, parameters, samples, model, settings } = generateRequestSchema.parse(body);
+
+    for (const params of parameters) {
+      const validation = validateParameters(params);
+      if (!validation.valid) {
+        return NextResponse.json(
+          { error: "Invalid parameters", details: validation.errors },
+          { status: 400 }
+        );
+      }
+    }
+
+    const job = await submitJob(prompt, expandSamples(parameters, samples), model, settings);
+
+    // Keep serverless instances alive until the queue drains
+    after(waitForIdle);
+
+    return NextResponse.json(
+      { jobId: job.id, experimentId: job.experimentId, status: job.status },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error("API Error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error", message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
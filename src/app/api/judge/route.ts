@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getExperiment } from "@/services/database";
+import { judgePair } from "@/services/judge";
+import { pairwiseJudgeRequestSchema } from "@/lib/schemas";
+
+// Two judge calls run per request
+export const maxDuration = 30;
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/judge
+ * Judge two responses of an experiment against each other, in both orders
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { experimentId, responseIds, judge } = pairwiseJudgeRequestSchema.parse(body);
+
+    const experiment = await getExperiment(experimentId);
+
+    if (!experiment) {
+      return NextResponse.json(
+        { error: "Experiment not found" },
+        { status: 404 }
+      );
+    }
+
+    const [a, b] = responseIds.map((id) => experiment.responses.find((r) => r.id === id));
+
+    if (!a || !b) {
+      return NextResponse.json(
+        { error: "Response not found in this experiment" },
+        { status: 404 }
+      );
+    }
+
+    // Fall back to the experiment's own judge settings
+    const judgment = await judgePair(experiment.prompt, a, b, judge ?? experiment.settings?.judge);
+
+    return NextResponse.json(judgment);
+  } catch (error) {
+    console.error("API Error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error", message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { DEFAULT_METRIC_IDS, listMetrics } from "@/services/metrics";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/metrics
+ * List registered quality metrics and the default active set
+ */
+export async function GET() {
+  return NextResponse.json({ metrics: listMetrics(), defaultMetrics: DEFAULT_METRIC_IDS });
+}
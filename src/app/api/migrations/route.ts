@@ -0,0 +1,91 @@
+import { timingSafeEqual } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getStore } from "@/services/store";
+import { migrateRequestSchema } from "@/lib/schemas";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Whether the request carries MIGRATIONS_TOKEN as a bearer token
+ */
+function isAuthorized(request: NextRequest): boolean {
+  const token = process.env.MIGRATIONS_TOKEN;
+  const header = request.headers.get("authorization") || "";
+  if (!token || !header.startsWith("Bearer ")) {
+    return false;
+  }
+
+  const given = Buffer.from(header.slice("Bearer ".length));
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * GET /api/migrations
+ * Schema version of the configured store, with applied and pending migrations
+ */
+export async function GET() {
+  try {
+    const store = getStore();
+    if (!store.getSchemaStatus) {
+      return NextResponse.json(
+        { error: `The ${store.id} store has no schema migrations` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await store.getSchemaStatus());
+  } catch (error) {
+    console.error("API Error:", error);
+
+    return NextResponse.json(
+      { error: "Internal server error", message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/migrations
+ * Migrate the schema to `target` (the latest version when omitted); below
+ * the current version, migrations are reverted. Needs
+ * `Authorization: Bearer $MIGRATIONS_TOKEN`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAuthorized(request)) {
+      return NextResponse.json(
+        { error: "Unauthorized", message: "Set MIGRATIONS_TOKEN and send it as a bearer token" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { target } = migrateRequestSchema.parse(body);
+
+    const store = getStore();
+    if (!store.migrateSchema) {
+      return NextResponse.json(
+        { error: `The ${store.id} store has no schema migrations` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await store.migrateSchema(target));
+  } catch (error) {
+    console.error("API Error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error", message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { DEFAULT_MODEL_ID, listProviders } from "@/services/providers";
+import { ProviderInfo } from "@/types";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/providers
+ * List registered LLM providers, including named endpoint profiles
+ */
+export async function GET() {
+  const providers: ProviderInfo[] = listProviders().map((provider) => ({
+    id: provider.id,
+    name: provider.name,
+    defaultModel: provider.defaultModel,
+    configured: provider.isConfigured(),
+    baseURL: provider.baseURL,
+  }));
+
+  return NextResponse.json({ providers, defaultModel: DEFAULT_MODEL_ID });
+}
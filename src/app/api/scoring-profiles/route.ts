@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { DEFAULT_SCORING_PROFILE, listScoringProfiles } from "@/services/scoring-profiles";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/scoring-profiles
+ * List scoring profiles (metric weights and gates) and the default profile
+ */
+export async function GET() {
+  return NextResponse.json({ profiles: listScoringProfiles(), defaultProfile: DEFAULT_SCORING_PROFILE });
+}
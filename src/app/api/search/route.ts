@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { searchExperiments } from "@/services/database";
+import { searchQuerySchema } from "@/lib/schemas";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/search?q=xxx&limit=20
+ * Full-text search over experiment names, descriptions, prompts and
+ * response content, with highlighted snippets
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = searchQuerySchema.parse(Object.fromEntries(searchParams.entries()));
+
+    return NextResponse.json({ results: await searchExperiments(query) });
+  } catch (error) {
+    console.error("API Error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error", message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
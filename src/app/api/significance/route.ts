@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getExperiment } from "@/services/database";
+import { compareParameterSets } from "@/services/significance";
+import { significanceQuerySchema } from "@/lib/schemas";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/significance?id=xxx&test=mann-whitney&correction=holm&alpha=0.05&metric=overall
+ * Pairwise significance tests between the parameter sets of an experiment
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { id, ...options } = significanceQuerySchema.parse(
+      Object.fromEntries(searchParams.entries())
+    );
+
+    const experiment = await getExperiment(id);
+
+    if (!experiment) {
+      return NextResponse.json(
+        { error: "Experiment not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(compareParameterSets(experiment.responses, options));
+  } catch (error) {
+    console.error("API Error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error", message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
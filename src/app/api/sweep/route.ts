@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { z } from "zod";
+import { expandExperimentConfig, expandSamples } from "@/services/sweep";
+import { submitJob, waitForIdle } from "@/services/jobs";
+import { EXPERIMENT_BUDGET, experimentConfigSchema } from "@/lib/schemas";
+
+// Background work continues after the response until this limit
+export const maxDuration = 60;
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/sweep
+ * Report the generation budget for a single experiment
+ */
+export async function GET() {
+  return NextResponse.json({ budget: EXPERIMENT_BUDGET });
+}
+
+/**
+ * POST /api/sweep
+ * Expand an ExperimentConfig into a temperature × topP grid and queue it
+ * as one experiment job
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    // The schema rejects grids over the budget before they are expanded
+    const config = experimentConfigSchema.parse(body);
+    const parameters = expandExperimentConfig(config);
+    const slots = expandSamples(parameters, config.samples);
+
+    const job = await submitJob(config.prompt, slots, config.model, config.settings);
+    after(waitForIdle);
+
+    return NextResponse.json(
+      {
+        jobId: job.id,
+        experimentId: job.experimentId,
+        status: job.status,
+        parameterSets: parameters.length,
+        generations: slots.length,
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error("API Error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error", message: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
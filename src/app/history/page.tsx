@@ -1,30 +1,132 @@
 "use client";
 
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useRef, useState } from "react";
+import { keepPreviousData, useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { motion } from "framer-motion";
-import { ArrowLeft, Trash2, Eye, Calendar, Target, TrendingUp, Sparkles } from "lucide-react";
+import { ArrowLeft, Trash2, Eye, Calendar, Target, TrendingUp, Sparkles, Search } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { ExperimentSummary } from "@/types";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { SearchResults } from "@/components/search-results";
+import { ExperimentPage } from "@/types";
 import Link from "next/link";
 import { formatDate } from "@/lib/utils";
 
+const PAGE_SIZE = 20;
+
+const SORT_OPTIONS = [
+  { value: "createdAt:desc", label: "Newest first" },
+  { value: "createdAt:asc", label: "Oldest first" },
+  { value: "bestScore:desc", label: "Highest best score" },
+  { value: "bestScore:asc", label: "Lowest best score" },
+  { value: "responseCount:desc", label: "Most responses" },
+  { value: "responseCount:asc", label: "Fewest responses" },
+];
+
+interface HistoryFilters {
+  name: string;
+  model: string;
+  from: string; // yyyy-mm-dd from the date inputs
+  to: string;
+  minScore: string;
+  maxScore: string;
+  sort: string; // "field:order"
+}
+
+const EMPTY_FILTERS: HistoryFilters = {
+  name: "",
+  model: "",
+  from: "",
+  to: "",
+  minScore: "",
+  maxScore: "",
+  sort: "createdAt:desc",
+};
+
+/**
+ * Query string for one page of the experiment list
+ */
+function toSearchParams(filters: HistoryFilters, cursor: string | null): URLSearchParams {
+  const [sort, order] = filters.sort.split(":");
+  const params = new URLSearchParams({ sort, order, limit: String(PAGE_SIZE) });
+
+  if (filters.name.trim()) params.set("name", filters.name.trim());
+  if (filters.model.trim()) params.set("model", filters.model.trim());
+  // Whole days in the browser's time zone
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  if (filters.minScore) params.set("minScore", filters.minScore);
+  if (filters.maxScore) params.set("maxScore", filters.maxScore);
+  if (cursor) params.set("cursor", cursor);
+
+  return params;
+}
+
 export default function HistoryPage() {
   const queryClient = useQueryClient();
+  const [filters, setFilters] = useState<HistoryFilters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<HistoryFilters>(EMPTY_FILTERS);
+  const [search, setSearch] = useState("");
+  const [appliedSearch, setAppliedSearch] = useState("");
+  const loadMoreRef = useRef<HTMLDivElement>(null);
 
-  const { data, isLoading, error } = useQuery<{ experiments: ExperimentSummary[] }>({
-    queryKey: ["experiments"],
-    queryFn: async () => {
-      const response = await fetch("/api/experiments");
+  // Wait for typing to pause before querying
+  useEffect(() => {
+    const timer = setTimeout(() => setAppliedFilters(filters), 300);
+    return () => clearTimeout(timer);
+  }, [filters]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setAppliedSearch(search.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ["experiments", appliedFilters],
+    queryFn: async ({ pageParam }): Promise<ExperimentPage> => {
+      const response = await fetch(`/api/experiments?${toSearchParams(appliedFilters, pageParam)}`);
       if (!response.ok) {
         throw new Error("Failed to fetch experiments");
       }
       return response.json();
     },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    // Keep showing the last results while new filters load
+    placeholderData: keepPreviousData,
+    enabled: !appliedSearch,
   });
 
+  const experiments = data?.pages.flatMap((page) => page.experiments) ?? [];
+  const hasFilters = Object.entries(appliedFilters).some(
+    ([key, value]) => value !== EMPTY_FILTERS[key as keyof HistoryFilters]
+  );
+
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting && !isFetchingNextPage) {
+          fetchNextPage();
+        }
+      },
+      { rootMargin: "400px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [fetchNextPage, hasNextPage, isFetchingNextPage]);
+
+  const updateFilter = (key: keyof HistoryFilters, value: string) => {
+    setFilters((current) => ({ ...current, [key]: value }));
+  };
+
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
       const response = await fetch(`/api/experiments?id=${id}`, {
@@ -87,115 +189,244 @@ export default function HistoryPage() {
           </div>
         </motion.div>
 
-        {isLoading ? (
-          <div className="flex justify-center py-12">
-            <div className="text-center">
-              <div className="mb-4 inline-block h-12 w-12 animate-spin rounded-full border-4 border-gray-300 border-t-blue-600" />
-              <p className="text-gray-600 dark:text-gray-400">
-                Loading experiments...
-              </p>
-            </div>
-          </div>
-        ) : error ? (
-          <Alert variant="destructive">
-            <AlertDescription>
-              Failed to load experiments. Please try again later.
-            </AlertDescription>
-          </Alert>
-        ) : !data || data.experiments.length === 0 ? (
-          <Card>
-            <CardContent className="py-12 text-center">
-              <Target className="mx-auto mb-4 h-12 w-12 text-gray-400" />
-              <p className="mb-2 text-lg font-medium text-gray-900 dark:text-gray-100">
-                No experiments yet
-              </p>
-              <p className="mb-4 text-gray-600 dark:text-gray-400">
-                Create your first experiment to get started
-              </p>
-              <Button asChild>
-                <Link href="/">Create Experiment</Link>
-              </Button>
-            </CardContent>
-          </Card>
+        <div className="relative mb-4">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+          <Input
+            type="search"
+            aria-label="Search experiments"
+            placeholder="Search names, prompts and responses..."
+            className="pl-9"
+            maxLength={200}
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+
+        {appliedSearch ? (
+          <SearchResults query={appliedSearch} />
         ) : (
-          <div className="space-y-4">
-            {data.experiments.map((experiment, index) => (
-              <motion.div
-                key={experiment.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: index * 0.05 }}
-              >
-                <Card>
-                  <CardHeader>
-                    <div className="flex items-start justify-between">
-                      <div className="flex-1">
-                        <CardTitle className="mb-2">
-                          {experiment.name || "Untitled Experiment"}
-                        </CardTitle>
-                        <CardDescription className="line-clamp-2">
-                          {experiment.prompt}
-                        </CardDescription>
-                      </div>
-                      {experiment.bestResponse && (
-                        <Badge
-                          variant={getScoreBadgeVariant(
-                            experiment.bestResponse.overallScore
+          <>
+            <Card className="mb-6">
+              <CardContent className="grid gap-4 pt-6 sm:grid-cols-2 lg:grid-cols-4">
+                <div className="space-y-1">
+                  <Label htmlFor="filter-name">Name</Label>
+                  <Input
+                    id="filter-name"
+                    placeholder="Any name"
+                    value={filters.name}
+                    onChange={(e) => updateFilter("name", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="filter-model">Model</Label>
+                  <Input
+                    id="filter-model"
+                    placeholder="e.g. gpt-4o"
+                    value={filters.model}
+                    onChange={(e) => updateFilter("model", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="filter-from">Created</Label>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      id="filter-from"
+                      type="date"
+                      aria-label="Created from"
+                      value={filters.from}
+                      onChange={(e) => updateFilter("from", e.target.value)}
+                    />
+                    <span className="text-gray-500">–</span>
+                    <Input
+                      type="date"
+                      aria-label="Created until"
+                      value={filters.to}
+                      onChange={(e) => updateFilter("to", e.target.value)}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="filter-min-score">Best score</Label>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      id="filter-min-score"
+                      type="number"
+                      min={0}
+                      max={100}
+                      placeholder="0"
+                      aria-label="Minimum best score"
+                      value={filters.minScore}
+                      onChange={(e) => updateFilter("minScore", e.target.value)}
+                    />
+                    <span className="text-gray-500">–</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      placeholder="100"
+                      aria-label="Maximum best score"
+                      value={filters.maxScore}
+                      onChange={(e) => updateFilter("maxScore", e.target.value)}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="filter-sort">Sort by</Label>
+                  <Select id="filter-sort" value={filters.sort} onChange={(e) => updateFilter("sort", e.target.value)}>
+                    {SORT_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+                {hasFilters && (
+                  <div className="flex items-end">
+                    <Button variant="ghost" size="sm" onClick={() => setFilters(EMPTY_FILTERS)}>
+                      Clear filters
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <div className="text-center">
+                  <div className="mb-4 inline-block h-12 w-12 animate-spin rounded-full border-4 border-gray-300 border-t-blue-600" />
+                  <p className="text-gray-600 dark:text-gray-400">
+                    Loading experiments...
+                  </p>
+                </div>
+              </div>
+            ) : error ? (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  Failed to load experiments. Please try again later.
+                </AlertDescription>
+              </Alert>
+            ) : experiments.length === 0 && hasFilters ? (
+              <Card>
+                <CardContent className="py-12 text-center">
+                  <Target className="mx-auto mb-4 h-12 w-12 text-gray-400" />
+                  <p className="mb-4 text-lg font-medium text-gray-900 dark:text-gray-100">
+                    No experiments match these filters
+                  </p>
+                  <Button variant="outline" onClick={() => setFilters(EMPTY_FILTERS)}>
+                    Clear filters
+                  </Button>
+                </CardContent>
+              </Card>
+            ) : experiments.length === 0 ? (
+              <Card>
+                <CardContent className="py-12 text-center">
+                  <Target className="mx-auto mb-4 h-12 w-12 text-gray-400" />
+                  <p className="mb-2 text-lg font-medium text-gray-900 dark:text-gray-100">
+                    No experiments yet
+                  </p>
+                  <p className="mb-4 text-gray-600 dark:text-gray-400">
+                    Create your first experiment to get started
+                  </p>
+                  <Button asChild>
+                    <Link href="/">Create Experiment</Link>
+                  </Button>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="space-y-4">
+                {experiments.map((experiment, index) => (
+                  <motion.div
+                    key={experiment.id}
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: (index % PAGE_SIZE) * 0.05 }}
+                  >
+                    <Card>
+                      <CardHeader>
+                        <div className="flex items-start justify-between">
+                          <div className="flex-1">
+                            <CardTitle className="mb-2">
+                              {experiment.name || "Untitled Experiment"}
+                            </CardTitle>
+                            <CardDescription className="line-clamp-2">
+                              {experiment.prompt}
+                            </CardDescription>
+                          </div>
+                          {experiment.bestResponse && (
+                            <Badge
+                              variant={getScoreBadgeVariant(
+                                experiment.bestResponse.overallScore
+                              )}
+                              className="ml-4"
+                            >
+                              Best: {experiment.bestResponse.overallScore}/100
+                            </Badge>
                           )}
-                          className="ml-4"
-                        >
-                          Best: {experiment.bestResponse.overallScore}/100
-                        </Badge>
-                      )}
-                    </div>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="flex flex-wrap items-center justify-between gap-4">
-                      <div className="flex flex-wrap items-center gap-6 text-sm">
-                        <div className="flex items-center gap-2 text-gray-600 dark:text-gray-400">
-                          <Calendar className="h-4 w-4" />
-                          {formatDate(experiment.createdAt)}
                         </div>
-                        <div className="flex items-center gap-2 text-gray-600 dark:text-gray-400">
-                          <TrendingUp className="h-4 w-4" />
-                          {experiment.responseCount} response
-                          {experiment.responseCount !== 1 ? "s" : ""}
-                        </div>
-                        {experiment.bestResponse && (
-                          <div className="flex items-center gap-2 text-gray-600 dark:text-gray-400">
-                            <Target className="h-4 w-4" />
-                            T:{" "}
-                            {experiment.bestResponse.parameters.temperature.toFixed(
-                              1
-                            )}{" "}
-                            • P:{" "}
-                            {experiment.bestResponse.parameters.topP.toFixed(1)}
+                      </CardHeader>
+                      <CardContent>
+                        <div className="flex flex-wrap items-center justify-between gap-4">
+                          <div className="flex flex-wrap items-center gap-6 text-sm">
+                            <div className="flex items-center gap-2 text-gray-600 dark:text-gray-400">
+                              <Calendar className="h-4 w-4" />
+                              {formatDate(experiment.createdAt)}
+                            </div>
+                            <div className="flex items-center gap-2 text-gray-600 dark:text-gray-400">
+                              <TrendingUp className="h-4 w-4" />
+                              {experiment.responseCount} response
+                              {experiment.responseCount !== 1 ? "s" : ""}
+                            </div>
+                            {experiment.bestResponse && (
+                              <div className="flex items-center gap-2 text-gray-600 dark:text-gray-400">
+                                <Target className="h-4 w-4" />
+                                T:{" "}
+                                {experiment.bestResponse.parameters.temperature.toFixed(
+                                  1
+                                )}{" "}
+                                • P:{" "}
+                                {experiment.bestResponse.parameters.topP.toFixed(1)}
+                              </div>
+                            )}
                           </div>
-                        )}
-                      </div>
-
-                      <div className="flex items-center gap-2">
-                        <Button variant="outline" size="sm" asChild>
-                          <Link href={`/results/${experiment.id}`}>
-                            <Eye className="h-4 w-4" />
-                            View
-                          </Link>
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleDelete(experiment.id)}
-                          disabled={deleteMutation.isPending}
-                        >
-                          <Trash2 className="h-4 w-4 text-red-600" />
-                        </Button>
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              </motion.div>
-            ))}
-          </div>
+
+                          <div className="flex items-center gap-2">
+                            <Button variant="outline" size="sm" asChild>
+                              <Link href={`/results/${experiment.id}`}>
+                                <Eye className="h-4 w-4" />
+                                View
+                              </Link>
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDelete(experiment.id)}
+                              disabled={deleteMutation.isPending}
+                            >
+                              <Trash2 className="h-4 w-4 text-red-600" />
+                            </Button>
+                          </div>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  </motion.div>
+                ))}
+
+                <div ref={loadMoreRef} className="flex justify-center py-4">
+                  {isFetchingNextPage ? (
+                    <p className="text-sm text-gray-600 dark:text-gray-400">Loading more experiments...</p>
+                  ) : hasNextPage ? (
+                    <Button variant="outline" size="sm" onClick={() => fetchNextPage()}>
+                      Load more
+                    </Button>
+                  ) : (
+                    <p className="text-sm text-gray-500">
+                      {experiments.length} experiment{experiments.length !== 1 ? "s" : ""}
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+          </>
         )}
       </main>
     </div>
@@ -1,8 +1,8 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { motion } from "framer-motion";
 import {
   Beaker,
@@ -12,6 +12,8 @@ import {
   Info,
   Plus,
   Trash2,
+  Grid3x3,
+  SlidersHorizontal,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -19,25 +21,141 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Slider } from "@/components/ui/slider";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { LiveResults, LiveResult } from "@/components/live-results";
+import { GridSweepForm, GridSweep } from "@/components/grid-sweep-form";
+import { expandSamples } from "@/services/sweep";
+import { JobProgress } from "@/components/job-progress";
+import { ScoringSettingsForm } from "@/components/scoring-settings";
+import { readSSE } from "@/lib/sse";
+import {
+  ExperimentJob,
+  ExperimentSettings,
+  LLMResponse,
+  MetricInfo,
+  ProviderInfo,
+  ScoringProfile,
+} from "@/types";
 import Link from "next/link";
 
 interface ParameterSet {
   id: string;
   temperature: number;
   topP: number;
+  samples: number;
 }
 
 export default function Home() {
   const router = useRouter();
   const [prompt, setPrompt] = useState("");
   const [parameters, setParameters] = useState<ParameterSet[]>([
-    { id: "1", temperature: 0.3, topP: 1 },
-    { id: "2", temperature: 0.7, topP: 1 },
-    { id: "3", temperature: 1.5, topP: 1 },
+    { id: "1", temperature: 0.3, topP: 1, samples: 1 },
+    { id: "2", temperature: 0.7, topP: 1, samples: 1 },
+    { id: "3", temperature: 1.5, topP: 1, samples: 1 },
   ]);
+  const [providerId, setProviderId] = useState("");
+  const [modelName, setModelName] = useState("");
+  const [liveResults, setLiveResults] = useState<LiveResult[]>([]);
+  const [mode, setMode] = useState<"manual" | "grid">("manual");
+  const [grid, setGrid] = useState<GridSweep>({
+    temperatureRange: { min: 0, max: 1.5, step: 0.5 },
+    topPRange: { min: 0.5, max: 1, step: 0.25 },
+    samples: 1,
+  });
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [settings, setSettings] = useState<ExperimentSettings>({});
+
+  const { data: providerData } = useQuery<{ providers: ProviderInfo[]; defaultModel: string }>({
+    queryKey: ["providers"],
+    queryFn: async () => {
+      const response = await fetch("/api/providers");
+      if (!response.ok) {
+        throw new Error("Failed to fetch providers");
+      }
+      return response.json();
+    },
+  });
+
+  const selectedProvider = providerData?.providers.find((p) => p.id === providerId);
+
+  const { data: metricCatalog = [] } = useQuery<MetricInfo[]>({
+    queryKey: ["metrics"],
+    queryFn: async () => {
+      const response = await fetch("/api/metrics");
+      if (!response.ok) {
+        throw new Error("Failed to fetch metrics");
+      }
+      const data = await response.json();
+      return data.metrics;
+    },
+  });
+
+  const { data: profileData } = useQuery<{ profiles: ScoringProfile[]; defaultProfile: string }>({
+    queryKey: ["scoring-profiles"],
+    queryFn: async () => {
+      const response = await fetch("/api/scoring-profiles");
+      if (!response.ok) {
+        throw new Error("Failed to fetch scoring profiles");
+      }
+      return response.json();
+    },
+  });
+
+  const { data: sweepInfo } = useQuery<{ budget: number }>({
+    queryKey: ["sweep-budget"],
+    queryFn: async () => {
+      const response = await fetch("/api/sweep");
+      if (!response.ok) {
+        throw new Error("Failed to fetch sweep budget");
+      }
+      return response.json();
+    },
+  });
+
+  // Poll the background job while a grid sweep runs
+  const { data: job } = useQuery<ExperimentJob>({
+    queryKey: ["job", jobId],
+    enabled: jobId !== null,
+    queryFn: async () => {
+      const response = await fetch(`/api/jobs/${jobId}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch job status");
+      }
+      return response.json();
+    },
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === "completed" || status === "failed" ? false : 1500;
+    },
+  });
+
+  useEffect(() => {
+    if (job?.status === "completed" || job?.status === "failed") {
+      router.push(`/results/${job.experimentId}`);
+    }
+  }, [job?.status, job?.experimentId, router]);
+
+  const updateLiveResult = (index: number, update: (result: LiveResult) => LiveResult) => {
+    setLiveResults((results) =>
+      results.map((result, i) => (i === index ? update(result) : result))
+    );
+  };
 
   const generateMutation = useMutation({
-    mutationFn: async (data: { prompt: string; parameters: ParameterSet[] }) => {
+    mutationFn: async (data: {
+      prompt: string;
+      parameters: ParameterSet[];
+      model?: string;
+      settings: ExperimentSettings;
+    }) => {
+      setLiveResults(
+        expandSamples(data.parameters).map((slot) => ({
+          ...slot,
+          content: "",
+        }))
+      );
+
       const response = await fetch("/api/generate", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -46,22 +164,95 @@ export default function Home() {
           parameters: data.parameters.map((p) => ({
             temperature: p.temperature,
             topP: p.topP,
+            samples: p.samples,
           })),
+          model: data.model,
+          settings: data.settings,
+          stream: true,
         }),
       });
 
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
         const error = await response.json();
         throw new Error(error.error || "Failed to generate responses");
       }
 
-      return response.json();
+      // Render partial results as the stream arrives
+      let experimentId: string | null = null;
+      let streamError: string | null = null;
+
+      await readSSE(response.body, ({ event, data: payload }) => {
+        const message = JSON.parse(payload);
+
+        if (event === "token") {
+          updateLiveResult(message.index, (result) => ({
+            ...result,
+            content: result.content + message.delta,
+          }));
+        } else if (event === "response") {
+          const completed: LLMResponse = message.response;
+          updateLiveResult(message.index, (result) => ({
+            ...result,
+            content: completed.content,
+            metrics: completed.metrics,
+          }));
+        } else if (event === "failed") {
+          updateLiveResult(message.index, (result) => ({ ...result, error: message.message }));
+        } else if (event === "done") {
+          experimentId = message.experimentId;
+        } else if (event === "error") {
+          streamError = message.message;
+        }
+      });
+
+      if (!experimentId) {
+        throw new Error(streamError || "Generation stream ended unexpectedly");
+      }
+
+      return { experimentId };
     },
     onSuccess: (data) => {
       router.push(`/results/${data.experimentId}`);
     },
   });
 
+  const sweepMutation = useMutation({
+    mutationFn: async (data: {
+      prompt: string;
+      grid: GridSweep;
+      model?: string;
+      settings: ExperimentSettings;
+    }) => {
+      const response = await fetch("/api/sweep", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          prompt: data.prompt,
+          ...data.grid,
+          model: data.model,
+          settings: data.settings,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        // Validation errors, such as a grid over the budget, explain themselves in details
+        throw new Error(error.details?.[0]?.message || error.error || "Failed to start grid sweep");
+      }
+
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setJobId(data.jobId);
+    },
+  });
+
+  const isRunning =
+    generateMutation.isPending ||
+    sweepMutation.isPending ||
+    (jobId !== null && job?.status !== "completed" && job?.status !== "failed");
+  const mutationError = generateMutation.error || sweepMutation.error;
+
   const addParameterSet = () => {
     setParameters([
       ...parameters,
@@ -69,6 +260,7 @@ export default function Home() {
         id: Date.now().toString(),
         temperature: 0.7,
         topP: 1,
+        samples: 1,
       },
     ]);
   };
@@ -81,7 +273,7 @@ export default function Home() {
 
   const updateParameter = (
     id: string,
-    field: "temperature" | "topP",
+    field: "temperature" | "topP" | "samples",
     value: number
   ) => {
     setParameters(
@@ -92,7 +284,17 @@ export default function Home() {
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (prompt.trim()) {
-      generateMutation.mutate({ prompt, parameters });
+      // Without a provider choice the server default model is used
+      const model = providerId
+        ? modelName.trim()
+          ? `${providerId}:${modelName.trim()}`
+          : providerId
+        : undefined;
+      if (mode === "grid") {
+        sweepMutation.mutate({ prompt, grid, model, settings });
+      } else {
+        generateMutation.mutate({ prompt, parameters, model, settings });
+      }
     }
   };
 
@@ -185,6 +387,70 @@ export default function Home() {
               </CardContent>
             </Card>
 
+            {/* Model */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Model</CardTitle>
+                <CardDescription>
+                  Choose a provider or a local OpenAI-compatible endpoint
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="provider">Provider</Label>
+                  <Select
+                    id="provider"
+                    value={providerId}
+                    onChange={(e) => {
+                      setProviderId(e.target.value);
+                      setModelName("");
+                    }}
+                  >
+                    <option value="">
+                      Default{providerData ? ` (${providerData.defaultModel})` : ""}
+                    </option>
+                    {providerData?.providers.map((provider) => (
+                      <option key={provider.id} value={provider.id}>
+                        {provider.name}
+                        {provider.baseURL ? ` — ${provider.baseURL}` : ""}
+                        {provider.configured ? "" : " (not configured, uses mock)"}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="model">Model</Label>
+                  <Input
+                    id="model"
+                    placeholder={selectedProvider?.defaultModel ?? "Provider default"}
+                    value={modelName}
+                    onChange={(e) => setModelName(e.target.value)}
+                    disabled={!providerId}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Scoring */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Scoring</CardTitle>
+                <CardDescription>
+                  Choose how responses are evaluated
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ScoringSettingsForm
+                  value={settings}
+                  onChange={setSettings}
+                  metrics={metricCatalog}
+                  profiles={profileData?.profiles ?? []}
+                  defaultProfile={profileData?.defaultProfile}
+                  prompt={prompt}
+                />
+              </CardContent>
+            </Card>
+
             {/* Parameter Sets */}
             <Card>
               <CardHeader>
@@ -192,134 +458,197 @@ export default function Home() {
                   <div>
                     <CardTitle>Parameter Configurations</CardTitle>
                     <CardDescription>
-                      Configure different parameter combinations to test
+                      {mode === "grid"
+                        ? "Sweep every temperature × top P combination"
+                        : "Configure different parameter combinations to test"}
                     </CardDescription>
                   </div>
-                  <Button
-                    type="button"
-                    variant="outline"
-                    size="sm"
-                    onClick={addParameterSet}
-                    disabled={parameters.length >= 10}
-                  >
-                    <Plus className="h-4 w-4" />
-                    Add Set
-                  </Button>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      type="button"
+                      variant={mode === "manual" ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => setMode("manual")}
+                    >
+                      <SlidersHorizontal className="h-4 w-4" />
+                      Manual
+                    </Button>
+                    <Button
+                      type="button"
+                      variant={mode === "grid" ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => setMode("grid")}
+                    >
+                      <Grid3x3 className="h-4 w-4" />
+                      Grid Sweep
+                    </Button>
+                    {mode === "manual" && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={addParameterSet}
+                        disabled={parameters.length >= 10}
+                      >
+                        <Plus className="h-4 w-4" />
+                        Add Set
+                      </Button>
+                    )}
+                  </div>
                 </div>
               </CardHeader>
-              <CardContent className="space-y-6">
-                {parameters.map((param, index) => (
-                  <motion.div
-                    key={param.id}
-                    initial={{ opacity: 0, x: -20 }}
-                    animate={{ opacity: 1, x: 0 }}
-                    transition={{ duration: 0.3, delay: index * 0.05 }}
-                    className="rounded-lg border border-gray-200 p-4 dark:border-gray-800"
-                  >
-                    <div className="mb-4 flex items-center justify-between">
-                      <h4 className="font-semibold text-gray-900 dark:text-gray-100">
-                        Configuration {index + 1}
-                      </h4>
-                      {parameters.length > 1 && (
-                        <Button
-                          type="button"
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => removeParameterSet(param.id)}
-                        >
-                          <Trash2 className="h-4 w-4 text-red-600" />
-                        </Button>
-                      )}
-                    </div>
-
-                    <div className="space-y-4">
-                      {/* Temperature */}
-                      <div>
-                        <div className="mb-2 flex items-center justify-between">
-                          <Label>Temperature</Label>
-                          <span className="text-sm font-medium text-blue-600">
-                            {param.temperature.toFixed(2)}
-                          </span>
-                        </div>
-                        <Slider
-                          value={[param.temperature]}
-                          onValueChange={([value]) =>
-                            updateParameter(param.id, "temperature", value)
-                          }
-                          min={0}
-                          max={2}
-                          step={0.1}
-                        />
-                        <p className="mt-1 text-xs text-gray-500">
-                          {param.temperature < 0.3
-                            ? "More focused and deterministic"
-                            : param.temperature < 0.8
-                            ? "Balanced creativity and coherence"
-                            : "More creative and diverse"}
-                        </p>
+              {mode === "grid" ? (
+                <CardContent>
+                  <GridSweepForm value={grid} onChange={setGrid} budget={sweepInfo?.budget} />
+                </CardContent>
+              ) : (
+                <CardContent className="space-y-6">
+                  {parameters.map((param, index) => (
+                    <motion.div
+                      key={param.id}
+                      initial={{ opacity: 0, x: -20 }}
+                      animate={{ opacity: 1, x: 0 }}
+                      transition={{ duration: 0.3, delay: index * 0.05 }}
+                      className="rounded-lg border border-gray-200 p-4 dark:border-gray-800"
+                    >
+                      <div className="mb-4 flex items-center justify-between">
+                        <h4 className="font-semibold text-gray-900 dark:text-gray-100">
+                          Configuration {index + 1}
+                        </h4>
+                        {parameters.length > 1 && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => removeParameterSet(param.id)}
+                          >
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        )}
                       </div>
 
-                      {/* Top P */}
-                      <div>
-                        <div className="mb-2 flex items-center justify-between">
-                          <Label>Top P (Nucleus Sampling)</Label>
-                          <span className="text-sm font-medium text-purple-600">
-                            {param.topP.toFixed(2)}
-                          </span>
+                      <div className="space-y-4">
+                        {/* Temperature */}
+                        <div>
+                          <div className="mb-2 flex items-center justify-between">
+                            <Label>Temperature</Label>
+                            <span className="text-sm font-medium text-blue-600">
+                              {param.temperature.toFixed(2)}
+                            </span>
+                          </div>
+                          <Slider
+                            value={[param.temperature]}
+                            onValueChange={([value]) =>
+                              updateParameter(param.id, "temperature", value)
+                            }
+                            min={0}
+                            max={2}
+                            step={0.1}
+                          />
+                          <p className="mt-1 text-xs text-gray-500">
+                            {param.temperature < 0.3
+                              ? "More focused and deterministic"
+                              : param.temperature < 0.8
+                              ? "Balanced creativity and coherence"
+                              : "More creative and diverse"}
+                          </p>
+                        </div>
+
+                        {/* Top P */}
+                        <div>
+                          <div className="mb-2 flex items-center justify-between">
+                            <Label>Top P (Nucleus Sampling)</Label>
+                            <span className="text-sm font-medium text-purple-600">
+                              {param.topP.toFixed(2)}
+                            </span>
+                          </div>
+                          <Slider
+                            value={[param.topP]}
+                            onValueChange={([value]) =>
+                              updateParameter(param.id, "topP", value)
+                            }
+                            min={0}
+                            max={1}
+                            step={0.05}
+                          />
+                          <p className="mt-1 text-xs text-gray-500">
+                            {param.topP < 0.5
+                              ? "Very focused token selection"
+                              : param.topP < 0.9
+                              ? "Balanced token diversity"
+                              : "Maximum token diversity"}
+                          </p>
+                        </div>
+
+                        {/* Samples */}
+                        <div className="flex items-center justify-between gap-4">
+                          <div>
+                            <Label htmlFor={`samples-${param.id}`}>Samples</Label>
+                            <p className="mt-1 text-xs text-gray-500">
+                              More samples give mean, spread and confidence intervals
+                            </p>
+                          </div>
+                          <Input
+                            id={`samples-${param.id}`}
+                            type="number"
+                            min={1}
+                            max={20}
+                            className="w-20"
+                            value={param.samples}
+                            onChange={(e) =>
+                              updateParameter(
+                                param.id,
+                                "samples",
+                                Math.min(20, Math.max(1, parseInt(e.target.value, 10) || 1))
+                              )
+                            }
+                          />
                         </div>
-                        <Slider
-                          value={[param.topP]}
-                          onValueChange={([value]) =>
-                            updateParameter(param.id, "topP", value)
-                          }
-                          min={0}
-                          max={1}
-                          step={0.05}
-                        />
-                        <p className="mt-1 text-xs text-gray-500">
-                          {param.topP < 0.5
-                            ? "Very focused token selection"
-                            : param.topP < 0.9
-                            ? "Balanced token diversity"
-                            : "Maximum token diversity"}
-                        </p>
                       </div>
-                    </div>
-                  </motion.div>
-                ))}
-
-                {parameters.length >= 10 && (
-                  <Alert variant="warning">
-                    <AlertDescription>
-                      Maximum of 10 parameter sets reached. Remove some to add
-                      more.
-                    </AlertDescription>
-                  </Alert>
-                )}
-              </CardContent>
+                    </motion.div>
+                  ))}
+
+                  {parameters.length >= 10 && (
+                    <Alert variant="warning">
+                      <AlertDescription>
+                        Maximum of 10 parameter sets reached. Remove some to add
+                        more, or use a grid sweep.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                </CardContent>
+              )}
             </Card>
 
             {/* Error Display */}
-            {generateMutation.isError && (
+            {mutationError && (
               <Alert variant="destructive">
                 <AlertDescription>
-                  {generateMutation.error instanceof Error
-                    ? generateMutation.error.message
+                  {mutationError instanceof Error
+                    ? mutationError.message
                     : "Failed to generate responses. Please try again."}
                 </AlertDescription>
               </Alert>
             )}
 
+            {/* Sweep Progress */}
+            {jobId && <JobProgress job={job} />}
+
+            {/* Live Results */}
+            {liveResults.length > 0 && (generateMutation.isPending || generateMutation.isError) && (
+              <LiveResults results={liveResults} />
+            )}
+
             {/* Submit Button */}
             <div className="flex justify-center">
               <Button
                 type="submit"
                 size="lg"
-                loading={generateMutation.isPending}
-                disabled={!prompt.trim() || generateMutation.isPending}
+                loading={isRunning}
+                disabled={!prompt.trim() || isRunning}
                 className="min-w-[200px]"
               >
-                {generateMutation.isPending ? (
+                {isRunning ? (
                   <>Generating Responses...</>
                 ) : (
                   <>
@@ -12,21 +12,58 @@ import {
   TrendingUp,
   FileText,
   Sparkles,
+  Grid3x3,
+  ListChecks,
+  Braces,
+  Code,
+  CheckCircle2,
+  XCircle,
+  BookOpen,
+  ShieldAlert,
 } from "lucide-react";
-import { Radar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, ResponsiveContainer, Legend, Bar, BarChart, XAxis, YAxis, CartesianGrid, Tooltip } from "recharts";
+import { Radar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, ResponsiveContainer, Legend, Bar, BarChart, XAxis, YAxis, CartesianGrid, Tooltip, ErrorBar } from "recharts";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Experiment, MetricExplanation } from "@/types";
-import { getMetricExplanations } from "@/services/metrics";
+import {
+  ClaimSupport,
+  CodeBlockCheck,
+  CodeTestResult,
+  ConstraintResult,
+  DegenerateSpan,
+  Experiment,
+  MetricInfo,
+  ReadabilityIndices,
+  SchemaViolation,
+  ScoringProfile,
+  SignificanceReport,
+  SignificanceTest,
+} from "@/types";
+import { getTrippedGates } from "@/services/scoring-profiles";
+import {
+  getMetricExplanations,
+  getMetricName,
+  getScoredMetricIds,
+  normalizeScore,
+} from "@/lib/metric-catalog";
+import { ParameterHeatmap, isParameterGrid } from "@/components/parameter-heatmap";
+import { PairwiseJudge } from "@/components/pairwise-judge";
+import { DiversityPanel } from "@/components/diversity-panel";
+import { HighlightedText } from "@/components/highlighted-text";
 import Link from "next/link";
 
+// Bar colors for metric series, after the blue overall bar
+const METRIC_COLORS = ["#8b5cf6", "#10b981", "#f59e0b", "#ef4444", "#06b6d4", "#ec4899", "#84cc16"];
+
 export default function ResultsPage({ params }: { params: Promise<{ id: string }> }) {
   const { id } = use(params);
   const router = useRouter();
   const [selectedResponseIndex, setSelectedResponseIndex] = useState(0);
+  const [comparisonView, setComparisonView] = useState<"bars" | "heatmap" | null>(null);
+  const [significanceTest, setSignificanceTest] = useState<SignificanceTest>("mann-whitney");
+  const [includeFlagged, setIncludeFlagged] = useState(false);
 
   const { data: experiment, isLoading, error } = useQuery<Experiment>({
     queryKey: ["experiment", id],
@@ -39,8 +76,43 @@ export default function ResultsPage({ params }: { params: Promise<{ id: string }
     },
   });
 
+  const { data: metricCatalog = [] } = useQuery<MetricInfo[]>({
+    queryKey: ["metrics"],
+    queryFn: async () => {
+      const response = await fetch("/api/metrics");
+      if (!response.ok) {
+        throw new Error("Failed to fetch metrics");
+      }
+      const data = await response.json();
+      return data.metrics;
+    },
+  });
+
+  const { data: profileData } = useQuery<{ profiles: ScoringProfile[]; defaultProfile: string }>({
+    queryKey: ["scoring-profiles"],
+    queryFn: async () => {
+      const response = await fetch("/api/scoring-profiles");
+      if (!response.ok) {
+        throw new Error("Failed to fetch scoring profiles");
+      }
+      return response.json();
+    },
+  });
+
+  const { data: significance } = useQuery<SignificanceReport>({
+    queryKey: ["significance", id, significanceTest],
+    queryFn: async () => {
+      const response = await fetch(`/api/significance?id=${id}&test=${significanceTest}`);
+      if (!response.ok) {
+        throw new Error("Failed to compare parameter sets");
+      }
+      return response.json();
+    },
+    enabled: !!experiment && experiment.responses.length > 1,
+  });
+
   const handleExport = async (format: "json" | "csv") => {
-    window.location.href = `/api/export?id=${id}&format=${format}`;
+    window.location.href = `/api/export?id=${id}&format=${format}${includeFlagged ? "&includeFlagged=true" : ""}`;
   };
 
   if (isLoading) {
@@ -74,49 +146,166 @@ export default function ResultsPage({ params }: { params: Promise<{ id: string }
     );
   }
 
+  if (experiment.responses.length === 0) {
+    return (
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <Alert className="max-w-md">
+          <AlertDescription>
+            This experiment has no responses yet. If it was started as a
+            background job, check back once the job has finished.
+          </AlertDescription>
+          <Button variant="outline" className="mt-4" asChild>
+            <Link href="/history">
+              <ArrowLeft className="h-4 w-4" />
+              Back to History
+            </Link>
+          </Button>
+        </Alert>
+      </div>
+    );
+  }
+
   const selectedResponse = experiment.responses[selectedResponseIndex];
   const explanations = selectedResponse
-    ? getMetricExplanations(selectedResponse.metrics)
+    ? getMetricExplanations(selectedResponse.metrics, metricCatalog, selectedResponse.metricDetails)
     : [];
 
-  // Prepare radar chart data
-  const radarData = [
-    {
-      metric: "Coherence",
-      score: selectedResponse.metrics.coherence,
-    },
-    {
-      metric: "Completeness",
-      score: selectedResponse.metrics.completeness,
-    },
-    {
-      metric: "Readability",
-      score: selectedResponse.metrics.readability,
-    },
-    {
-      metric: "Length",
-      score: selectedResponse.metrics.lengthAppropriatenss,
-    },
-    {
-      metric: "Structure",
-      score: selectedResponse.metrics.structuralQuality,
-    },
+  // Claims the groundedness metric could not find in the context documents
+  const groundedClaims = (selectedResponse?.metricDetails?.groundedness?.claims ?? []) as ClaimSupport[];
+  const unsupportedClaims = groundedClaims
+    .filter((claim) => !claim.supported)
+    .map((claim) => ({
+      text: claim.text,
+      title: `Support ${Math.round(claim.support * 100)}%${claim.source ? ` (closest: ${claim.source})` : ""}`,
+    }));
+
+  const degenerateSpans = (selectedResponse?.metricDetails?.degeneration?.spans ?? []) as DegenerateSpan[];
+  const safetyFindings = selectedResponse?.safety?.findings ?? [];
+  const hasFlaggedResponses = experiment.responses.some((response) => response.safety?.flags.length);
+  const responseHighlights = [
+    ...safetyFindings.map((finding) => ({
+      text: finding.text,
+      start: finding.start,
+      title: `Flagged: ${finding.detector} (${finding.category})`,
+    })),
+    ...unsupportedClaims,
+    ...degenerateSpans.map((span) => ({
+      text: span.text,
+      start: span.start,
+      title: span.kind === "repetition" ? "Repeats earlier text" : "Does not look like a word",
+      tone: "amber" as const,
+    })),
   ];
 
-  // Prepare comparison bar chart data
-  const comparisonData = experiment.responses.map((response, idx) => ({
-    name: `T:${response.parameters.temperature.toFixed(1)} P:${response.parameters.topP.toFixed(1)}`,
-    overall: response.metrics.overall,
-    coherence: response.metrics.coherence,
-    completeness: response.metrics.completeness,
-    readability: response.metrics.readability,
+  const constraintResults = (selectedResponse?.metricDetails?.instructionFollowing?.results ??
+    []) as ConstraintResult[];
+
+  const schemaViolations = (selectedResponse?.metricDetails?.schemaValidity?.violations ??
+    []) as SchemaViolation[];
+
+  const brokenCodeBlocks = ((selectedResponse?.metricDetails?.codeParses?.blocks ?? []) as CodeBlockCheck[]).filter(
+    (block) => !block.valid
+  );
+  const codeTestResults = (selectedResponse?.metricDetails?.codeTests?.results ?? []) as CodeTestResult[];
+
+  const readability = selectedResponse?.metricDetails?.readability as
+    | (Partial<ReadabilityIndices> & { summary?: string; targetGrade?: number })
+    | undefined;
+  const readabilityIndices = [
+    { label: "Flesch Reading Ease", value: readability?.fleschReadingEase },
+    { label: "Flesch-Kincaid Grade", value: readability?.fleschKincaidGrade },
+    { label: "Gunning Fog", value: readability?.gunningFog },
+    { label: "SMOG", value: readability?.smog },
+    { label: "Coleman-Liau", value: readability?.colemanLiau },
+    { label: "Dale-Chall", value: readability?.daleChall },
+  ];
+
+  // Charts show every metric present, scaled to 0-100
+  const metricIds = [
+    ...new Set(
+      experiment.responses.flatMap((response) => getScoredMetricIds(response.metrics, metricCatalog))
+    ),
+  ];
+  const toPercent = (id: string, score: number) => {
+    const info = metricCatalog.find((metric) => metric.id === id);
+    return info ? Math.round(normalizeScore(score, info.range)) : score;
+  };
+
+  // Profile that produced the overall scores
+  const scoringProfileId = experiment.settings?.scoringProfile ?? profileData?.defaultProfile;
+  const scoringProfile = profileData?.profiles.find((profile) => profile.id === scoringProfileId);
+  const trippedGates = scoringProfile
+    ? getTrippedGates(
+        Object.fromEntries(explanations.map((e) => [e.id, toPercent(e.id, e.score)])),
+        scoringProfile
+      )
+    : [];
+
+  // Prepare radar chart data
+  const radarData = explanations.map((explanation) => ({
+    metric: explanation.name,
+    score: toPercent(explanation.id, explanation.score),
   }));
 
+  // Repeated samples are charted as per-parameter-set means with a 95% CI on overall
+  const sampledStatistics = experiment.statistics?.some((stats) => stats.sampleCount > 1)
+    ? experiment.statistics
+    : undefined;
+
+  // Prepare comparison bar chart data
+  const comparisonData = sampledStatistics
+    ? sampledStatistics.map((stats) => ({
+        name: `T:${stats.parameters.temperature.toFixed(1)} P:${stats.parameters.topP.toFixed(1)} (n=${stats.sampleCount})`,
+        overall: stats.metrics.overall.mean,
+        overallError: [
+          stats.metrics.overall.mean - stats.metrics.overall.ciLower,
+          stats.metrics.overall.ciUpper - stats.metrics.overall.mean,
+        ],
+        ...Object.fromEntries(
+          metricIds
+            .filter((metricId) => stats.metrics[metricId])
+            .map((metricId) => [metricId, toPercent(metricId, stats.metrics[metricId].mean)])
+        ),
+      }))
+    : experiment.responses.map((response) => ({
+        name: `T:${response.parameters.temperature.toFixed(1)} P:${response.parameters.topP.toFixed(1)}`,
+        overall: response.metrics.overall,
+        ...Object.fromEntries(
+          metricIds
+            .filter((metricId) => response.metrics[metricId] !== undefined)
+            .map((metricId) => [metricId, toPercent(metricId, response.metrics[metricId])])
+        ),
+      }));
+
+  // Grids default to the heatmap view; the bar chart labels get unreadable
+  const hasGrid = isParameterGrid(experiment.responses);
+  const activeComparisonView = comparisonView ?? (hasGrid ? "heatmap" : "bars");
+
   // Find best response
   const bestResponse = experiment.responses.reduce((best, curr) =>
     curr.metrics.overall > best.metrics.overall ? curr : best
   );
 
+  // Only claim a winner when it beats every other configuration significantly
+  const winner = significance?.winner;
+  const bestParameters = winner?.parameters ?? bestResponse.parameters;
+  const bestScore = winner?.mean ?? bestResponse.metrics.overall;
+  const hasSignificantWinner = !!winner?.significant;
+  const winnerComparisons = (significance?.comparisons ?? []).filter(
+    (c) =>
+      c.metric === significance?.metric &&
+      [c.a, c.b].some(
+        (p) => p.temperature === bestParameters.temperature && p.topP === bestParameters.topP
+      )
+  );
+
+  // Scores on the default 0-100 scale read as "/100"
+  const formatRange = (id: string) => {
+    const range = metricCatalog.find((metric) => metric.id === id)?.range;
+    if (!range || range.min === 0) return `/${range?.max ?? 100}`;
+    return ` (${range.min}–${range.max})`;
+  };
+
   const getScoreColor = (score: number) => {
     if (score >= 80) return "text-green-600 dark:text-green-400";
     if (score >= 60) return "text-amber-600 dark:text-amber-400";
@@ -143,6 +332,16 @@ export default function ResultsPage({ params }: { params: Promise<{ id: string }
             </Button>
 
             <div className="flex items-center gap-2">
+              {hasFlaggedResponses && (
+                <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+                  <input
+                    type="checkbox"
+                    checked={includeFlagged}
+                    onChange={(e) => setIncludeFlagged(e.target.checked)}
+                  />
+                  Include flagged content
+                </label>
+              )}
               <Button variant="outline" size="sm" onClick={() => handleExport("json")}>
                 <Download className="h-4 w-4" />
                 Export JSON
@@ -187,6 +386,32 @@ export default function ResultsPage({ params }: { params: Promise<{ id: string }
               <p className="whitespace-pre-wrap text-gray-700 dark:text-gray-300">
                 {experiment.prompt}
               </p>
+              {!!experiment.settings?.contextDocuments?.length && (
+                <details className="mt-4 border-t border-gray-200 pt-4 dark:border-gray-800">
+                  <summary className="cursor-pointer text-xs font-medium text-gray-500">
+                    {experiment.settings.contextDocuments.length} context document
+                    {experiment.settings.contextDocuments.length !== 1 ? "s" : ""}
+                  </summary>
+                  {experiment.settings.contextDocuments.map((document, index) => (
+                    <div key={index} className="mt-3">
+                      <p className="mb-1 text-xs font-medium text-gray-500">
+                        {document.title || `Document ${index + 1}`}
+                      </p>
+                      <p className="whitespace-pre-wrap text-sm text-gray-700 dark:text-gray-300">
+                        {document.content}
+                      </p>
+                    </div>
+                  ))}
+                </details>
+              )}
+              {experiment.settings?.reference && (
+                <div className="mt-4 border-t border-gray-200 pt-4 dark:border-gray-800">
+                  <p className="mb-1 text-xs font-medium text-gray-500">Reference answer</p>
+                  <p className="whitespace-pre-wrap text-sm text-gray-700 dark:text-gray-300">
+                    {experiment.settings.reference}
+                  </p>
+                </div>
+              )}
             </CardContent>
           </Card>
         </motion.div>
@@ -198,14 +423,27 @@ export default function ResultsPage({ params }: { params: Promise<{ id: string }
           transition={{ delay: 0.1 }}
           className="mb-8"
         >
-          <Card className="border-green-200 bg-green-50 dark:border-green-900 dark:bg-green-950/30">
+          <Card
+            className={
+              hasSignificantWinner
+                ? "border-green-200 bg-green-50 dark:border-green-900 dark:bg-green-950/30"
+                : "border-gray-200 bg-gray-50 dark:border-gray-800 dark:bg-gray-900/50"
+            }
+          >
             <CardHeader>
               <CardTitle className="flex items-center gap-2 text-green-900 dark:text-green-100">
                 <Award className="h-5 w-5" />
-                Best Configuration
+                {hasSignificantWinner ? "Best Configuration" : "Top Scoring Configuration"}
+                {significance && (
+                  <Badge variant={hasSignificantWinner ? "success" : "secondary"}>
+                    {hasSignificantWinner ? "Significant" : "No significant winner"}
+                  </Badge>
+                )}
               </CardTitle>
               <CardDescription className="text-green-700 dark:text-green-300">
-                Highest overall quality score
+                {hasSignificantWinner
+                  ? `Significantly better than every other configuration (${significance!.test}, ${significance!.correction}-corrected, α = ${significance!.alpha})`
+                  : "Highest mean overall score, but the difference to the others is not statistically significant. Draw more samples to separate them."}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -215,7 +453,7 @@ export default function ResultsPage({ params }: { params: Promise<{ id: string }
                     Temperature
                   </p>
                   <p className="text-2xl font-bold text-green-900 dark:text-green-100">
-                    {bestResponse.parameters.temperature.toFixed(2)}
+                    {bestParameters.temperature.toFixed(2)}
                   </p>
                 </div>
                 <div>
@@ -223,7 +461,7 @@ export default function ResultsPage({ params }: { params: Promise<{ id: string }
                     Top P
                   </p>
                   <p className="text-2xl font-bold text-green-900 dark:text-green-100">
-                    {bestResponse.parameters.topP.toFixed(2)}
+                    {bestParameters.topP.toFixed(2)}
                   </p>
                 </div>
                 <div>
@@ -231,10 +469,66 @@ export default function ResultsPage({ params }: { params: Promise<{ id: string }
                     Overall Score
                   </p>
                   <p className="text-2xl font-bold text-green-900 dark:text-green-100">
-                    {bestResponse.metrics.overall}/100
+                    {bestScore}/100
                   </p>
                 </div>
               </div>
+
+              {winnerComparisons.length > 0 && (
+                <div className="mt-6">
+                  <div className="mb-2 flex items-center gap-2">
+                    {(["mann-whitney", "bootstrap", "permutation"] as const).map((test) => (
+                      <Button
+                        key={test}
+                        variant={significanceTest === test ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setSignificanceTest(test)}
+                      >
+                        {test}
+                      </Button>
+                    ))}
+                  </div>
+                  <table className="w-full text-left text-sm">
+                    <thead className="text-xs text-gray-500">
+                      <tr>
+                        <th className="py-1">Versus</th>
+                        <th>Δ mean</th>
+                        <th>Cohen&apos;s d</th>
+                        <th>Cliff&apos;s δ</th>
+                        <th>p (adjusted)</th>
+                        <th />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {winnerComparisons.map((c) => {
+                        // Orient every row as best minus rival
+                        const bestIsA =
+                          c.a.temperature === bestParameters.temperature &&
+                          c.a.topP === bestParameters.topP;
+                        const rival = bestIsA ? c.b : c.a;
+                        const sign = bestIsA ? 1 : -1;
+                        return (
+                          <tr
+                            key={`${rival.temperature}-${rival.topP}`}
+                            className="border-t border-gray-200 dark:border-gray-800"
+                          >
+                            <td className="py-1">
+                              T:{rival.temperature.toFixed(2)} P:{rival.topP.toFixed(2)}
+                            </td>
+                            <td>{(sign * c.meanDifference).toFixed(1)}</td>
+                            <td>{(sign * c.effectSize.cohensD).toFixed(2)}</td>
+                            <td>{(sign * c.effectSize.cliffsDelta).toFixed(2)}</td>
+                            <td>{c.adjustedPValue.toFixed(3)}</td>
+                            <td>
+                              {c.significant && <Badge variant="success">p &lt; {significance!.alpha}</Badge>}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
             </CardContent>
           </Card>
         </motion.div>
@@ -264,6 +558,9 @@ export default function ResultsPage({ params }: { params: Promise<{ id: string }
                 {response.parameters.temperature.toFixed(1)} •{" "}
                 <span className="font-semibold">P:</span>{" "}
                 {response.parameters.topP.toFixed(1)}
+                {(response.sampleIndex ?? 0) > 0 && (
+                  <span className="text-gray-500"> • #{(response.sampleIndex ?? 0) + 1}</span>
+                )}
               </p>
               <Badge
                 variant={getScoreBadgeVariant(response.metrics.overall)}
@@ -271,11 +568,19 @@ export default function ResultsPage({ params }: { params: Promise<{ id: string }
               >
                 {response.metrics.overall}/100
               </Badge>
+              {(response.safety?.flags.length ?? 0) > 0 && (
+                <span
+                  className="ml-2 inline-flex align-middle text-red-600 dark:text-red-400"
+                  title={`Flagged: ${response.safety!.flags.join(", ")}`}
+                >
+                  <ShieldAlert className="h-4 w-4" />
+                </span>
+              )}
             </button>
           ))}
         </motion.div>
 
-        <div className="grid gap-8 lg:grid-cols-2">
+        <div id="response-content" className="grid scroll-mt-4 gap-8 lg:grid-cols-2">
           {/* Left Column: Response Content */}
           <motion.div
             key={selectedResponseIndex}
@@ -298,9 +603,33 @@ export default function ResultsPage({ params }: { params: Promise<{ id: string }
               <CardContent>
                 <div className="max-h-[500px] overflow-y-auto rounded-lg bg-gray-50 p-4 dark:bg-gray-900">
                   <p className="whitespace-pre-wrap text-sm text-gray-900 dark:text-gray-100">
-                    {selectedResponse.content}
+                    <HighlightedText text={selectedResponse.content} highlights={responseHighlights} />
                   </p>
                 </div>
+                {unsupportedClaims.length > 0 && (
+                  <p className="mt-2 text-xs text-gray-600 dark:text-gray-400">
+                    <mark className="rounded bg-red-100 px-1 text-red-900 dark:bg-red-950/50 dark:text-red-200">
+                      Highlighted
+                    </mark>{" "}
+                    sentences are not supported by the context documents.
+                  </p>
+                )}
+                {safetyFindings.length > 0 && (
+                  <p className="mt-2 text-xs text-gray-600 dark:text-gray-400">
+                    <mark className="rounded bg-red-100 px-1 text-red-900 dark:bg-red-950/50 dark:text-red-200">
+                      Highlighted
+                    </mark>{" "}
+                    text was flagged by safety screening and is redacted in exports.
+                  </p>
+                )}
+                {degenerateSpans.length > 0 && (
+                  <p className="mt-2 text-xs text-gray-600 dark:text-gray-400">
+                    <mark className="rounded bg-amber-100 px-1 text-amber-900 dark:bg-amber-950/50 dark:text-amber-200">
+                      Highlighted
+                    </mark>{" "}
+                    text repeats itself or does not read as words.
+                  </p>
+                )}
               </CardContent>
             </Card>
           </motion.div>
@@ -333,7 +662,22 @@ export default function ResultsPage({ params }: { params: Promise<{ id: string }
                   <p className="text-sm text-gray-600 dark:text-gray-400">
                     out of 100
                   </p>
+                  {scoringProfile && (
+                    <Badge variant="secondary" className="mt-3" title={scoringProfile.description}>
+                      {scoringProfile.name} scoring profile
+                    </Badge>
+                  )}
                 </div>
+                {trippedGates.length > 0 && (
+                  <Alert variant="warning" className="mt-4">
+                    <AlertDescription>
+                      Gated to 0:{" "}
+                      {trippedGates
+                        .map((gate) => `${getMetricName(gate.metric, metricCatalog)} below ${gate.below}`)
+                        .join(", ")}
+                    </AlertDescription>
+                  </Alert>
+                )}
               </CardContent>
             </Card>
 
@@ -344,20 +688,26 @@ export default function ResultsPage({ params }: { params: Promise<{ id: string }
               </CardHeader>
               <CardContent className="space-y-4">
                 {explanations.map((explanation) => (
-                  <div key={explanation.name}>
+                  <div key={explanation.id}>
                     <div className="mb-2 flex items-center justify-between">
                       <span className="text-sm font-medium text-gray-900 dark:text-gray-100">
                         {explanation.name}
+                        {scoringProfile && (
+                          <span className="ml-1 text-xs font-normal text-gray-500">
+                            ×{scoringProfile.weights[explanation.id] ?? 1}
+                          </span>
+                        )}
                       </span>
                       <span
                         className={`text-sm font-bold ${getScoreColor(
-                          explanation.score
+                          toPercent(explanation.id, explanation.score)
                         )}`}
                       >
-                        {explanation.score}/100
+                        {explanation.score}
+                        {formatRange(explanation.id)}
                       </span>
                     </div>
-                    <Progress value={explanation.score} max={100} />
+                    <Progress value={toPercent(explanation.id, explanation.score)} max={100} />
                     <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">
                       {explanation.details}
                     </p>
@@ -366,6 +716,168 @@ export default function ResultsPage({ params }: { params: Promise<{ id: string }
               </CardContent>
             </Card>
 
+            {/* Instruction Following */}
+            {constraintResults.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <ListChecks className="h-5 w-5" />
+                    Instruction Following
+                  </CardTitle>
+                  <CardDescription>
+                    {selectedResponse.metricDetails?.instructionFollowing?.summary}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {constraintResults.map((result, index) => (
+                    <div key={index} className="flex items-start justify-between gap-4 text-sm">
+                      <span className="flex items-center gap-2">
+                        {result.passed ? (
+                          <CheckCircle2 className="h-4 w-4 shrink-0 text-green-600" />
+                        ) : (
+                          <XCircle className="h-4 w-4 shrink-0 text-red-600" />
+                        )}
+                        {result.description}
+                      </span>
+                      {result.actual && (
+                        <span className="text-xs text-gray-500">{result.actual}</span>
+                      )}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Schema Violations */}
+            {schemaViolations.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Braces className="h-5 w-5" />
+                    Schema Violations
+                  </CardTitle>
+                  <CardDescription>
+                    Where the response breaks the experiment&apos;s JSON Schema
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {schemaViolations.map((violation, index) => (
+                    <div key={index} className="text-sm">
+                      <code className="rounded bg-gray-100 px-1 text-xs dark:bg-gray-800">{violation.path}</code>{" "}
+                      <span className="text-gray-600 dark:text-gray-400">{violation.message}</span>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Code Checks */}
+            {(brokenCodeBlocks.length > 0 || codeTestResults.length > 0) && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Code className="h-5 w-5" />
+                    Code Checks
+                  </CardTitle>
+                  <CardDescription>
+                    Syntax errors in the response&apos;s code blocks and results of the experiment&apos;s code tests
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {brokenCodeBlocks.map((block, index) => (
+                    <div key={index} className="text-sm">
+                      <p className="flex items-center gap-2 font-medium">
+                        <XCircle className="h-4 w-4 shrink-0 text-red-600" />
+                        {block.language} block does not parse
+                      </p>
+                      {block.errors.map((error, errorIndex) => (
+                        <p key={errorIndex} className="ml-6 font-mono text-xs text-gray-600 dark:text-gray-400">
+                          {error}
+                        </p>
+                      ))}
+                    </div>
+                  ))}
+                  {codeTestResults.map((result, index) => (
+                    <div key={index} className="flex items-start justify-between gap-4 text-sm">
+                      <span className="flex items-center gap-2">
+                        {result.passed ? (
+                          <CheckCircle2 className="h-4 w-4 shrink-0 text-green-600" />
+                        ) : (
+                          <XCircle className="h-4 w-4 shrink-0 text-red-600" />
+                        )}
+                        {result.name}
+                      </span>
+                      {result.error && <span className="text-xs text-gray-500">{result.error}</span>}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Safety */}
+            {selectedResponse.safety && selectedResponse.safety.flags.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <ShieldAlert className="h-5 w-5" />
+                    Safety
+                  </CardTitle>
+                  <CardDescription>
+                    Safety score {selectedResponse.safety.score}/100; kept out of the overall score
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {selectedResponse.safety.flags.map((flag) => {
+                    const findings = safetyFindings.filter((finding) => finding.detector === flag);
+                    return (
+                      <div key={flag} className="flex items-center justify-between gap-4 text-sm">
+                        <span className="flex items-center gap-2">
+                          <XCircle className="h-4 w-4 shrink-0 text-red-600" />
+                          {flag}
+                        </span>
+                        <Badge variant="secondary">
+                          {findings[0]?.category} • {findings.length}×
+                        </Badge>
+                      </div>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Readability */}
+            {readability?.consensusGrade !== undefined && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <BookOpen className="h-5 w-5" />
+                    Readability
+                  </CardTitle>
+                  <CardDescription>{readability.summary}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex flex-wrap gap-6 text-sm">
+                    <div>
+                      <p className="text-gray-500">Reading grade</p>
+                      <p className="text-xl font-semibold">{readability.consensusGrade}</p>
+                    </div>
+                    {readability.targetGrade !== undefined && (
+                      <div>
+                        <p className="text-gray-500">Target grade</p>
+                        <p className="text-xl font-semibold">{readability.targetGrade}</p>
+                      </div>
+                    )}
+                    {readabilityIndices.map((index) => (
+                      <div key={index.label}>
+                        <p className="text-gray-500">{index.label}</p>
+                        <p className="text-xl font-semibold">{index.value ?? "—"}</p>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Radar Chart */}
             <Card>
               <CardHeader>
@@ -391,6 +903,14 @@ export default function ResultsPage({ params }: { params: Promise<{ id: string }
                 </ResponsiveContainer>
               </CardContent>
             </Card>
+
+            {experiment.responses.length > 1 && (
+              <PairwiseJudge
+                experimentId={experiment.id}
+                responses={experiment.responses}
+                selectedIndex={selectedResponseIndex}
+              />
+            )}
           </motion.div>
         </div>
 
@@ -404,35 +924,107 @@ export default function ResultsPage({ params }: { params: Promise<{ id: string }
           >
             <Card>
               <CardHeader>
-                <CardTitle>Parameter Comparison</CardTitle>
-                <CardDescription>
-                  Compare quality metrics across all parameter configurations
-                </CardDescription>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle>Parameter Comparison</CardTitle>
+                    <CardDescription>
+                      {activeComparisonView === "heatmap"
+                        ? "Temperature × Top P grid; click a cell to open its response"
+                        : sampledStatistics
+                        ? "Mean scores per parameter set; error bars show the 95% confidence interval of the overall score"
+                        : "Compare quality metrics across all parameter configurations"}
+                    </CardDescription>
+                  </div>
+                  {hasGrid && (
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant={activeComparisonView === "heatmap" ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setComparisonView("heatmap")}
+                      >
+                        <Grid3x3 className="h-4 w-4" />
+                        Heatmap
+                      </Button>
+                      <Button
+                        variant={activeComparisonView === "bars" ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setComparisonView("bars")}
+                      >
+                        <BarChart3 className="h-4 w-4" />
+                        Bars
+                      </Button>
+                    </div>
+                  )}
+                </div>
               </CardHeader>
               <CardContent>
-                <ResponsiveContainer width="100%" height={300}>
-                  <BarChart data={comparisonData}>
-                    <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
-                    <XAxis dataKey="name" tick={{ fontSize: 11 }} />
-                    <YAxis domain={[0, 100]} tick={{ fontSize: 11 }} />
-                    <Tooltip
-                      contentStyle={{
-                        backgroundColor: "white",
-                        border: "1px solid #e5e7eb",
-                        borderRadius: "8px",
-                      }}
-                    />
-                    <Legend />
-                    <Bar dataKey="overall" fill="#3b82f6" name="Overall" />
-                    <Bar dataKey="coherence" fill="#8b5cf6" name="Coherence" />
-                    <Bar dataKey="completeness" fill="#10b981" name="Completeness" />
-                    <Bar dataKey="readability" fill="#f59e0b" name="Readability" />
-                  </BarChart>
-                </ResponsiveContainer>
+                {activeComparisonView === "heatmap" ? (
+                  <ParameterHeatmap
+                    responses={experiment.responses}
+                    metrics={metricCatalog}
+                    selectedIndex={selectedResponseIndex}
+                    onSelect={(index) => {
+                      setSelectedResponseIndex(index);
+                      document
+                        .getElementById("response-content")
+                        ?.scrollIntoView({ behavior: "smooth", block: "start" });
+                    }}
+                  />
+                ) : (
+                  <ResponsiveContainer width="100%" height={300}>
+                    <BarChart data={comparisonData}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                      <XAxis dataKey="name" tick={{ fontSize: 11 }} />
+                      <YAxis domain={[0, 100]} tick={{ fontSize: 11 }} />
+                      <Tooltip
+                        contentStyle={{
+                          backgroundColor: "white",
+                          border: "1px solid #e5e7eb",
+                          borderRadius: "8px",
+                        }}
+                      />
+                      <Legend />
+                      <Bar dataKey="overall" fill="#3b82f6" name="Overall">
+                        {sampledStatistics && (
+                          <ErrorBar dataKey="overallError" width={4} stroke="#1e3a8a" />
+                        )}
+                      </Bar>
+                      {metricIds.map((metricId, index) => (
+                        <Bar
+                          key={metricId}
+                          dataKey={metricId}
+                          fill={METRIC_COLORS[index % METRIC_COLORS.length]}
+                          name={getMetricName(metricId, metricCatalog)}
+                        />
+                      ))}
+                    </BarChart>
+                  </ResponsiveContainer>
+                )}
               </CardContent>
             </Card>
           </motion.div>
         )}
+
+        {/* Diversity */}
+        {experiment.responses.length > 1 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.5 }}
+            className="mt-8"
+          >
+            <DiversityPanel
+              experimentId={experiment.id}
+              responses={experiment.responses}
+              onSelect={(index) => {
+                setSelectedResponseIndex(index);
+                document
+                  .getElementById("response-content")
+                  ?.scrollIntoView({ behavior: "smooth", block: "start" });
+              }}
+            />
+          </motion.div>
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,171 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { describeConstraint, extractConstraints } from "@/services/constraints";
+import { Constraint, ConstraintType } from "@/types";
+
+interface ConstraintsEditorProps {
+  prompt: string;
+  value?: Constraint[]; // undefined: constraints are extracted from the prompt
+  onChange: (value: Constraint[] | undefined) => void;
+}
+
+const CONSTRAINT_TYPES: { type: ConstraintType; label: string }[] = [
+  { type: "wordCount", label: "Word count" },
+  { type: "sentenceCount", label: "Sentence count" },
+  { type: "bulletCount", label: "Bullet points" },
+  { type: "paragraphCount", label: "Paragraphs" },
+  { type: "json", label: "Valid JSON" },
+  { type: "includes", label: "Must mention" },
+  { type: "excludes", label: "Must not mention" },
+  { type: "case", label: "Letter case" },
+];
+
+/**
+ * Hard constraints responses are checked against, either found in the
+ * prompt or declared by hand
+ */
+export function ConstraintsEditor({ prompt, value, onChange }: ConstraintsEditorProps) {
+  const [type, setType] = useState<ConstraintType>("wordCount");
+  const [min, setMin] = useState("");
+  const [max, setMax] = useState("");
+  const [text, setText] = useState("");
+  const [letterCase, setLetterCase] = useState<"lower" | "upper">("lower");
+
+  const extracted = extractConstraints(prompt);
+  const constraints = value ?? extracted;
+
+  const draft = (): Constraint | null => {
+    switch (type) {
+      case "wordCount":
+      case "sentenceCount":
+      case "bulletCount":
+      case "paragraphCount": {
+        const bounds = {
+          min: min === "" ? undefined : Number(min),
+          max: max === "" ? undefined : Number(max),
+        };
+        return bounds.min === undefined && bounds.max === undefined ? null : { type, ...bounds };
+      }
+      case "json":
+        return { type };
+      case "includes":
+      case "excludes":
+        return text.trim() ? { type, text: text.trim() } : null;
+      case "case":
+        return { type, case: letterCase };
+    }
+  };
+
+  const addConstraint = () => {
+    const constraint = draft();
+    if (!constraint) return;
+    onChange([...constraints, constraint]);
+    setMin("");
+    setMax("");
+    setText("");
+  };
+
+  const isCount =
+    type === "wordCount" || type === "sentenceCount" || type === "bulletCount" || type === "paragraphCount";
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Constraints</Label>
+        {value !== undefined && (
+          <Button type="button" variant="ghost" size="sm" onClick={() => onChange(undefined)}>
+            Use prompt constraints
+          </Button>
+        )}
+      </div>
+
+      {value === undefined && (
+        <p className="text-xs text-gray-500">
+          {extracted.length > 0
+            ? "Found in the prompt; adding or removing one switches to a custom list"
+            : "No constraints found in the prompt yet, e.g. “under 100 words” or “respond in JSON”"}
+        </p>
+      )}
+
+      {constraints.length > 0 && (
+        <ul className="space-y-1">
+          {constraints.map((constraint, index) => (
+            <li
+              key={index}
+              className="flex items-center justify-between rounded-lg border border-gray-200 px-3 py-1 text-sm dark:border-gray-800"
+            >
+              {describeConstraint(constraint)}
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => onChange(constraints.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4 text-red-600" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          className="w-40"
+          value={type}
+          onChange={(e) => setType(e.target.value as ConstraintType)}
+          aria-label="Constraint type"
+        >
+          {CONSTRAINT_TYPES.map((option) => (
+            <option key={option.type} value={option.type}>
+              {option.label}
+            </option>
+          ))}
+        </Select>
+        {isCount && (
+          <>
+            <Input
+              className="w-20"
+              type="number"
+              min={0}
+              placeholder="Min"
+              value={min}
+              onChange={(e) => setMin(e.target.value)}
+            />
+            <Input
+              className="w-20"
+              type="number"
+              min={0}
+              placeholder="Max"
+              value={max}
+              onChange={(e) => setMax(e.target.value)}
+            />
+          </>
+        )}
+        {(type === "includes" || type === "excludes") && (
+          <Input className="w-48" placeholder="Word or phrase" value={text} onChange={(e) => setText(e.target.value)} />
+        )}
+        {type === "case" && (
+          <Select
+            className="w-32"
+            value={letterCase}
+            onChange={(e) => setLetterCase(e.target.value as "lower" | "upper")}
+            aria-label="Letter case"
+          >
+            <option value="lower">Lowercase</option>
+            <option value="upper">Uppercase</option>
+          </Select>
+        )}
+        <Button type="button" variant="outline" size="sm" onClick={addConstraint} disabled={!draft()}>
+          <Plus className="h-4 w-4" />
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
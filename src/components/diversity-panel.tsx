@@ -0,0 +1,150 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { Shuffle } from "lucide-react";
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { DiversityReport, LLMResponse } from "@/types";
+
+interface DiversityPanelProps {
+  experimentId: string;
+  responses: LLMResponse[];
+  onSelect: (index: number) => void;
+}
+
+const SERIES = [
+  { key: "cosineDiversity", name: "1 − TF-IDF cosine", color: "#3b82f6" },
+  { key: "bleuDiversity", name: "1 − self-BLEU", color: "#8b5cf6" },
+  { key: "jaccardDiversity", name: "1 − Jaccard", color: "#10b981" },
+  { key: "distinct2", name: "Distinct-2", color: "#f59e0b" },
+];
+
+const complement = (value: number | null) => (value === null ? null : Math.round((1 - value) * 1000) / 1000);
+
+/**
+ * How different the responses are from each other, plotted against
+ * temperature, with near-duplicate groups
+ */
+export function DiversityPanel({ experimentId, responses, onSelect }: DiversityPanelProps) {
+  const { data: report } = useQuery<DiversityReport>({
+    queryKey: ["diversity", experimentId],
+    queryFn: async () => {
+      const response = await fetch(`/api/diversity?id=${experimentId}`);
+      if (!response.ok) {
+        throw new Error("Failed to analyze diversity");
+      }
+      return response.json();
+    },
+  });
+
+  if (!report) return null;
+
+  const chartData = report.byTemperature.map((group) => ({
+    temperature: group.temperature,
+    cosineDiversity: complement(group.cosine),
+    bleuDiversity: complement(group.selfBleu),
+    jaccardDiversity: complement(group.jaccard),
+    distinct2: group.distinct2,
+  }));
+  const hasPairsPerTemperature = report.byTemperature.some((group) => group.cosine !== null);
+
+  const label = (index: number) => {
+    const { temperature, topP } = responses[index].parameters;
+    return `#${index + 1} (T:${temperature.toFixed(1)} P:${topP.toFixed(1)})`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Shuffle className="h-5 w-5" />
+          Response Diversity
+        </CardTitle>
+        <CardDescription>
+          {hasPairsPerTemperature
+            ? "Higher is more diverse; pairwise measures compare responses drawn at the same temperature"
+            : "Higher is more diverse; draw several samples per temperature to compare responses within each"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap gap-6 text-sm">
+          <div>
+            <p className="text-gray-500">Mean TF-IDF cosine</p>
+            <p className="text-xl font-semibold">{report.overall.cosine?.toFixed(2) ?? "—"}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Self-BLEU</p>
+            <p className="text-xl font-semibold">{report.overall.selfBleu?.toFixed(2) ?? "—"}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Jaccard</p>
+            <p className="text-xl font-semibold">{report.overall.jaccard?.toFixed(2) ?? "—"}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Distinct-2</p>
+            <p className="text-xl font-semibold">{report.overall.distinct2.toFixed(2)}</p>
+          </div>
+        </div>
+
+        {chartData.length > 1 && (
+          <ResponsiveContainer width="100%" height={260}>
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+              <XAxis dataKey="temperature" tick={{ fontSize: 11 }} />
+              <YAxis domain={[0, 1]} tick={{ fontSize: 11 }} />
+              <Tooltip
+                labelFormatter={(temperature) => `Temperature ${temperature}`}
+                contentStyle={{
+                  backgroundColor: "white",
+                  border: "1px solid #e5e7eb",
+                  borderRadius: "8px",
+                }}
+              />
+              <Legend />
+              {SERIES.map((series) => (
+                <Line
+                  key={series.key}
+                  type="monotone"
+                  dataKey={series.key}
+                  name={series.name}
+                  stroke={series.color}
+                  connectNulls
+                  dot
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+
+        <div>
+          <p className="mb-2 text-sm font-medium">
+            Near-duplicates{" "}
+            <span className="font-normal text-gray-500">(TF-IDF cosine ≥ {report.threshold})</span>
+          </p>
+          {report.clusters.length === 0 ? (
+            <p className="text-sm text-gray-500">No near-duplicate responses</p>
+          ) : (
+            <div className="space-y-2">
+              {report.clusters.map((cluster) => (
+                <div key={cluster[0]} className="flex flex-wrap items-center gap-2">
+                  <Badge variant="secondary">{cluster.length} responses</Badge>
+                  {cluster.map((index) => (
+                    <button
+                      key={index}
+                      type="button"
+                      onClick={() => onSelect(index)}
+                      className="text-xs text-blue-600 hover:underline dark:text-blue-400"
+                    >
+                      {label(index)}
+                    </button>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
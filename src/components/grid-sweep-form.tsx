@@ -0,0 +1,124 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { MIN_STEP, countParameterSets, expandRange, rangeLength } from "@/services/sweep";
+import { ParameterRange } from "@/types";
+
+export interface GridSweep {
+  temperatureRange: ParameterRange;
+  topPRange: ParameterRange;
+  samples: number;
+}
+
+interface GridSweepFormProps {
+  value: GridSweep;
+  onChange: (value: GridSweep) => void;
+  budget?: number;
+}
+
+// Longer ranges are summarised rather than listed
+const PREVIEW_VALUES = 20;
+
+/**
+ * Range inputs for a temperature × topP grid sweep with a size preview
+ */
+export function GridSweepForm({ value, onChange, budget }: GridSweepFormProps) {
+  // Counted rather than expanded: this runs on every keystroke
+  const parameterSets = countParameterSets({ prompt: "", ...value });
+  const generations = parameterSets * value.samples;
+  const overBudget = budget !== undefined && generations > budget;
+
+  const updateRange = (
+    field: "temperatureRange" | "topPRange",
+    key: keyof ParameterRange,
+    input: string
+  ) => {
+    const number = parseFloat(input);
+    if (Number.isNaN(number)) return;
+    onChange({ ...value, [field]: { ...value[field], [key]: number } });
+  };
+
+  const renderRange = (field: "temperatureRange" | "topPRange", label: string, max: number) => (
+    <div>
+      <Label className="mb-2 block">{label}</Label>
+      <div className="grid grid-cols-3 gap-3">
+        {(["min", "max", "step"] as const).map((key) => (
+          <div key={key} className="space-y-1">
+            <span className="text-xs capitalize text-gray-500">{key}</span>
+            <Input
+              type="number"
+              min={key === "step" ? MIN_STEP : 0}
+              max={max}
+              step={0.05}
+              value={value[field][key]}
+              onChange={(e) => updateRange(field, key, e.target.value)}
+            />
+          </div>
+        ))}
+      </div>
+      <p className="mt-1 text-xs text-gray-500">
+        {previewRange(value[field])}
+      </p>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {renderRange("temperatureRange", "Temperature", 2)}
+      {renderRange("topPRange", "Top P (Nucleus Sampling)", 1)}
+
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label htmlFor="grid-samples">Samples per cell</Label>
+          <p className="mt-1 text-xs text-gray-500">
+            Repeat each combination to measure variance
+          </p>
+        </div>
+        <Input
+          id="grid-samples"
+          type="number"
+          min={1}
+          max={20}
+          className="w-20"
+          value={value.samples}
+          onChange={(e) =>
+            onChange({ ...value, samples: Math.min(20, Math.max(1, parseInt(e.target.value, 10) || 1)) })
+          }
+        />
+      </div>
+
+      <p className="text-sm text-gray-700 dark:text-gray-300">
+        {rangeLength(value.temperatureRange)} temperatures ×{" "}
+        {rangeLength(value.topPRange)} top P values ={" "}
+        <span className="font-semibold">{parameterSets} parameter sets</span>
+        {value.samples > 1 && (
+          <> × {value.samples} samples = <span className="font-semibold">{generations} generations</span></>
+        )}
+        {budget !== undefined && <> (budget {budget})</>}
+      </p>
+
+      {overBudget && (
+        <Alert variant="warning">
+          <AlertDescription>
+            This grid exceeds the experiment budget. Increase the step sizes or
+            narrow the ranges.
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
+
+function previewRange(range: ParameterRange): string {
+  if (!(range.step >= MIN_STEP)) {
+    return `Step must be at least ${MIN_STEP}`;
+  }
+
+  const length = rangeLength(range);
+  if (length > PREVIEW_VALUES) {
+    return `${length} values from ${range.min} to ${range.max}`;
+  }
+  return expandRange(range).join(", ");
+}
@@ -0,0 +1,76 @@
+"use client";
+
+import { Fragment } from "react";
+
+export interface TextHighlight {
+  text: string; // Exact substring to mark
+  start?: number; // Character offset; without it the text is matched in order of appearance
+  title?: string; // Shown on hover
+  tone?: "red" | "amber"; // Defaults to red
+}
+
+interface HighlightedTextProps {
+  text: string;
+  highlights: TextHighlight[];
+}
+
+const TONES = {
+  red: "bg-red-100 text-red-900 dark:bg-red-950/50 dark:text-red-200",
+  amber: "bg-amber-100 text-amber-900 dark:bg-amber-950/50 dark:text-amber-200",
+};
+
+/**
+ * Plain text with the given substrings marked; where highlights overlap,
+ * the earlier one wins
+ */
+export function HighlightedText({ text, highlights }: HighlightedTextProps) {
+  const located: { start: number; highlight: TextHighlight }[] = [];
+  let searchFrom = 0;
+
+  for (const highlight of highlights) {
+    if (highlight.text.length === 0) continue;
+
+    if (highlight.start !== undefined) {
+      if (text.startsWith(highlight.text, highlight.start)) {
+        located.push({ start: highlight.start, highlight });
+      }
+      continue;
+    }
+
+    const start = text.indexOf(highlight.text, searchFrom);
+    if (start === -1) continue;
+    located.push({ start, highlight });
+    searchFrom = start + highlight.text.length;
+  }
+  located.sort((a, b) => a.start - b.start);
+
+  const segments: { text: string; highlight?: TextHighlight }[] = [];
+  let position = 0;
+
+  for (const { start, highlight } of located) {
+    if (start < position) continue;
+
+    segments.push({ text: text.slice(position, start) });
+    segments.push({ text: highlight.text, highlight });
+    position = start + highlight.text.length;
+  }
+  segments.push({ text: text.slice(position) });
+
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.highlight ? (
+          <mark
+            key={index}
+            title={segment.highlight.title}
+            className={`rounded px-0.5 ${TONES[segment.highlight.tone ?? "red"]}`}
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          <Fragment key={index}>{segment.text}</Fragment>
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { ExperimentJob } from "@/types";
+
+interface JobProgressProps {
+  job?: ExperimentJob;
+}
+
+/**
+ * Progress of a background experiment job, one chip per parameter set
+ */
+export function JobProgress({ job }: JobProgressProps) {
+  const finished = job ? job.tasks.filter((t) => t.status === "completed" || t.status === "failed").length : 0;
+  const total = job?.tasks.length ?? 0;
+
+  const getTaskBadgeVariant = (status: string) => {
+    if (status === "completed") return "success";
+    if (status === "failed") return "destructive";
+    if (status === "running") return "default";
+    return "secondary";
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sweep Progress</CardTitle>
+        <CardDescription>
+          {job ? `${finished} of ${total} parameter sets finished • ${job.status}` : "Queuing job..."}
+        </CardDescription>
+        <Progress value={finished} max={Math.max(total, 1)} className="mt-2" />
+      </CardHeader>
+      {job && (
+        <CardContent className="flex flex-wrap gap-2">
+          {job.tasks.map((task) => (
+            <Badge key={task.index} variant={getTaskBadgeVariant(task.status)}>
+              T:{task.parameters.temperature.toFixed(2)} P:{task.parameters.topP.toFixed(2)}
+              {task.overallScore !== undefined && ` • ${task.overallScore}`}
+            </Badge>
+          ))}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { JsonSchema } from "@/types";
+
+interface JsonSchemaInputProps {
+  value?: JsonSchema;
+  onChange: (value: JsonSchema | undefined) => void;
+}
+
+/**
+ * JSON Schema editor for structured-output mode; only well-formed JSON
+ * objects reach the settings
+ */
+export function JsonSchemaInput({ value, onChange }: JsonSchemaInputProps) {
+  const [text, setText] = useState(value ? JSON.stringify(value, null, 2) : "");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleChange = (next: string) => {
+    setText(next);
+
+    if (next.trim() === "") {
+      setError(null);
+      onChange(undefined);
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(next);
+      if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+        setError("The schema must be a JSON object");
+        return;
+      }
+      setError(null);
+      onChange(parsed);
+    } catch {
+      setError("Not valid JSON yet");
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="json-schema">JSON Schema (optional)</Label>
+      <Textarea
+        id="json-schema"
+        className="min-h-[100px] font-mono text-xs"
+        placeholder={'{ "type": "object", "properties": { "name": { "type": "string" } }, "required": ["name"] }'}
+        value={text}
+        onChange={(e) => handleChange(e.target.value)}
+      />
+      {error ? (
+        <p className="text-xs text-red-600">{error}</p>
+      ) : (
+        <p className="text-xs text-gray-500">
+          Turns on structured-output mode: providers are asked for JSON, and JSON parse and
+          schema validity replace readability
+        </p>
+      )}
+    </div>
+  );
+}
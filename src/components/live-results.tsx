@@ -0,0 +1,87 @@
+"use client";
+
+import { motion } from "framer-motion";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { LLMParameters, QualityMetrics } from "@/types";
+
+export interface LiveResult {
+  parameters: LLMParameters;
+  sampleIndex: number;
+  content: string;
+  metrics?: QualityMetrics; // Set once the response has been scored
+  error?: string; // Set if generation failed
+}
+
+interface LiveResultsProps {
+  results: LiveResult[];
+}
+
+/**
+ * Partial results rendered while a streamed generation is running
+ */
+export function LiveResults({ results }: LiveResultsProps) {
+  const completed = results.filter((result) => result.metrics || result.error).length;
+
+  const getScoreBadgeVariant = (score: number) => {
+    if (score >= 80) return "success";
+    if (score >= 60) return "warning";
+    return "destructive";
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Live Results</CardTitle>
+        <CardDescription>
+          {completed} of {results.length} responses finished
+        </CardDescription>
+        <Progress value={completed} max={results.length} className="mt-2" />
+      </CardHeader>
+      <CardContent className="grid gap-4 md:grid-cols-2">
+        {results.map((result, index) => (
+          <motion.div
+            key={index}
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.3, delay: index * 0.05 }}
+            className="rounded-lg border border-gray-200 p-4 dark:border-gray-800"
+          >
+            <div className="mb-2 flex items-center justify-between">
+              <p className="text-sm">
+                <span className="font-semibold">T:</span>{" "}
+                {result.parameters.temperature.toFixed(1)} •{" "}
+                <span className="font-semibold">P:</span>{" "}
+                {result.parameters.topP.toFixed(1)}
+                {result.sampleIndex > 0 && (
+                  <span className="text-gray-500"> • Sample {result.sampleIndex + 1}</span>
+                )}
+              </p>
+              {result.error ? (
+                <Badge variant="destructive">Failed</Badge>
+              ) : result.metrics ? (
+                <Badge variant={getScoreBadgeVariant(result.metrics.overall)}>
+                  {result.metrics.overall}/100
+                </Badge>
+              ) : (
+                <Badge variant="secondary">
+                  {result.content ? "Streaming..." : "Waiting..."}
+                </Badge>
+              )}
+            </div>
+            <div className="max-h-48 overflow-y-auto rounded-md bg-gray-50 p-3 dark:bg-gray-900">
+              {result.error ? (
+                <p className="text-xs text-red-600 dark:text-red-400">{result.error}</p>
+              ) : (
+                <p className="whitespace-pre-wrap text-xs text-gray-900 dark:text-gray-100">
+                  {result.content || "…"}
+                </p>
+              )}
+            </div>
+          </motion.div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Scale } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select } from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { LLMResponse, PairwiseJudgment } from "@/types";
+
+interface PairwiseJudgeProps {
+  experimentId: string;
+  responses: LLMResponse[];
+  selectedIndex: number;
+}
+
+/**
+ * Ask the judge model which of two responses is better, judged in both
+ * orders to expose position bias
+ */
+export function PairwiseJudge({ experimentId, responses, selectedIndex }: PairwiseJudgeProps) {
+  const [otherIndex, setOtherIndex] = useState<number | null>(null);
+  const opponentIndex = otherIndex !== null && otherIndex !== selectedIndex
+    ? otherIndex
+    : selectedIndex === 0 ? 1 : 0;
+
+  const selected = responses[selectedIndex];
+  const opponent = responses[opponentIndex];
+
+  const judgeMutation = useMutation({
+    mutationFn: async (responseIds: [string, string]): Promise<PairwiseJudgment> => {
+      const response = await fetch("/api/judge", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ experimentId, responseIds }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to judge responses");
+      }
+
+      return response.json();
+    },
+  });
+
+  const label = (index: number) => {
+    const response = responses[index];
+    const sample = (response.sampleIndex ?? 0) > 0 ? ` #${(response.sampleIndex ?? 0) + 1}` : "";
+    return `Response ${index + 1} (T ${response.parameters.temperature.toFixed(1)}, P ${response.parameters.topP.toFixed(1)}${sample})`;
+  };
+
+  const winnerLabel = (winner: PairwiseJudgment["winner"]) => {
+    if (winner === "a") return label(selectedIndex);
+    if (winner === "b") return label(opponentIndex);
+    return "Tie";
+  };
+
+  // A result only belongs to the pair that is currently shown
+  const judgment =
+    judgeMutation.data &&
+    judgeMutation.variables?.[0] === selected.id &&
+    judgeMutation.variables?.[1] === opponent.id
+      ? judgeMutation.data
+      : undefined;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="h-5 w-5" />
+          Pairwise Judge
+        </CardTitle>
+        <CardDescription>
+          Compare {label(selectedIndex)} with another response. The pair is judged
+          in both orders; a winner is only declared when both agree.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Select
+            value={opponentIndex}
+            onChange={(e) => setOtherIndex(Number(e.target.value))}
+            aria-label="Response to compare with"
+          >
+            {responses.map((response, index) =>
+              index === selectedIndex ? null : (
+                <option key={response.id} value={index}>
+                  {label(index)}
+                </option>
+              )
+            )}
+          </Select>
+          <Button
+            onClick={() => judgeMutation.mutate([selected.id, opponent.id])}
+            disabled={judgeMutation.isPending}
+          >
+            {judgeMutation.isPending ? "Judging..." : "Judge"}
+          </Button>
+        </div>
+
+        {judgeMutation.error && (
+          <Alert variant="destructive">
+            <AlertDescription>{judgeMutation.error.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {judgment && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm font-medium">Winner:</span>
+              <Badge variant={judgment.winner === "tie" ? "secondary" : "success"}>
+                {winnerLabel(judgment.winner)}
+              </Badge>
+              <span className="text-xs text-gray-500">
+                {judgment.model === "local" ? "local stand-in judge" : judgment.model}
+              </span>
+            </div>
+            {!judgment.consistent && (
+              <Alert variant="warning">
+                <AlertDescription>
+                  The verdict changed when the responses swapped places, so it is
+                  treated as a tie (position bias).
+                </AlertDescription>
+              </Alert>
+            )}
+            {judgment.verdicts.map((verdict) => (
+              <div key={verdict.order} className="text-xs text-gray-600 dark:text-gray-400">
+                <span className="font-medium">
+                  {verdict.order === "ab" ? "Shown first" : "Shown second"}: {winnerLabel(verdict.winner)}
+                </span>
+                {verdict.justification && <p className="mt-0.5">{verdict.justification}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import { useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { average, standardDeviation } from "@/lib/utils";
+import { getMetricName, getScoredMetricIds, normalizeScore } from "@/lib/metric-catalog";
+import { LLMResponse, MetricInfo } from "@/types";
+
+interface HeatmapCell {
+  mean: number;
+  std: number;
+  count: number;
+  responseIndex: number; // First response in the cell
+}
+
+interface ParameterHeatmapProps {
+  responses: LLMResponse[];
+  metrics: MetricInfo[]; // Catalog for names and score ranges
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+}
+
+/**
+ * Check whether responses cover at least a 2 × 2 temperature × topP grid
+ */
+export function isParameterGrid(responses: LLMResponse[]): boolean {
+  const temperatures = new Set(responses.map((r) => r.parameters.temperature));
+  const topPValues = new Set(responses.map((r) => r.parameters.topP));
+  return temperatures.size > 1 && topPValues.size > 1;
+}
+
+/**
+ * Temperature × topP heatmap colored by a selectable metric
+ */
+export function ParameterHeatmap({ responses, metrics, selectedIndex, onSelect }: ParameterHeatmapProps) {
+  const [metric, setMetric] = useState("overall");
+
+  const metricOptions = [
+    "overall",
+    ...new Set(responses.flatMap((response) => getScoredMetricIds(response.metrics, metrics))),
+  ];
+  const range = metrics.find((info) => info.id === metric)?.range ?? { min: 0, max: 100 };
+
+  const temperatures = [...new Set(responses.map((r) => r.parameters.temperature))].sort((a, b) => b - a);
+  const topPValues = [...new Set(responses.map((r) => r.parameters.topP))].sort((a, b) => a - b);
+
+  // Group samples by parameter cell
+  const cells = new Map<string, HeatmapCell>();
+  const scoresByCell = new Map<string, number[]>();
+  responses.forEach((response, index) => {
+    const key = cellKey(response.parameters.temperature, response.parameters.topP);
+    const score = response.metrics[metric];
+
+    // Cells where the metric does not apply stay empty
+    if (score === undefined) return;
+
+    scoresByCell.set(key, [...(scoresByCell.get(key) || []), score]);
+    if (!cells.has(key)) {
+      cells.set(key, { mean: 0, std: 0, count: 0, responseIndex: index });
+    }
+  });
+  for (const [key, scores] of scoresByCell) {
+    const cell = cells.get(key)!;
+    cells.set(key, { ...cell, mean: average(scores), std: standardDeviation(scores), count: scores.length });
+  }
+
+  const selected = responses[selectedIndex];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <Label htmlFor="heatmap-metric">Color by</Label>
+        <Select
+          id="heatmap-metric"
+          className="w-48"
+          value={metric}
+          onChange={(e) => setMetric(e.target.value)}
+        >
+          {metricOptions.map((id) => (
+            <option key={id} value={id}>
+              {getMetricName(id, metrics)}
+            </option>
+          ))}
+        </Select>
+      </div>
+
+      <div className="overflow-x-auto">
+        <div
+          className="grid gap-1"
+          style={{ gridTemplateColumns: `auto repeat(${topPValues.length}, minmax(64px, 1fr))` }}
+        >
+          <div className="flex items-end justify-end pr-2 text-xs font-medium text-gray-500">
+            T \ P
+          </div>
+          {topPValues.map((topP) => (
+            <div key={topP} className="text-center text-xs font-medium text-gray-600 dark:text-gray-400">
+              {topP.toFixed(2)}
+            </div>
+          ))}
+
+          {temperatures.map((temperature) => (
+            <div key={temperature} className="contents">
+              <div className="flex items-center justify-end pr-2 text-xs font-medium text-gray-600 dark:text-gray-400">
+                {temperature.toFixed(2)}
+              </div>
+              {topPValues.map((topP) => {
+                const cell = cells.get(cellKey(temperature, topP));
+                if (!cell) {
+                  return (
+                    <div
+                      key={topP}
+                      className="h-14 rounded-md border border-dashed border-gray-200 dark:border-gray-800"
+                    />
+                  );
+                }
+
+                const isSelected =
+                  selected?.parameters.temperature === temperature && selected?.parameters.topP === topP;
+
+                return (
+                  <button
+                    key={topP}
+                    type="button"
+                    onClick={() => onSelect(cell.responseIndex)}
+                    title={`T ${temperature} • P ${topP}: ${cell.mean.toFixed(1)}${cell.count > 1 ? ` ± ${cell.std.toFixed(1)} (n=${cell.count})` : ""}`}
+                    className={`flex h-14 flex-col items-center justify-center rounded-md text-white transition-transform hover:scale-105 ${
+                      isSelected ? "ring-2 ring-blue-600 ring-offset-2 dark:ring-offset-gray-900" : ""
+                    }`}
+                    style={{ backgroundColor: scoreToColor(normalizeScore(cell.mean, range)) }}
+                  >
+                    <span className="text-sm font-bold">{Math.round(cell.mean)}</span>
+                    {cell.count > 1 && (
+                      <span className="text-[10px] opacity-90">
+                        ± {cell.std.toFixed(1)} • n={cell.count}
+                      </span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 text-xs text-gray-500">
+        <span>{range.min}</span>
+        <div
+          className="h-2 flex-1 rounded-full"
+          style={{
+            background: `linear-gradient(to right, ${scoreToColor(0)}, ${scoreToColor(50)}, ${scoreToColor(100)})`,
+          }}
+        />
+        <span>{range.max}</span>
+      </div>
+    </div>
+  );
+}
+
+function cellKey(temperature: number, topP: number): string {
+  return `${temperature}|${topP}`;
+}
+
+/**
+ * Map a 0-100 score onto a red → amber → green scale
+ */
+function scoreToColor(score: number): string {
+  const hue = Math.max(0, Math.min(100, score)) * 1.2;
+  return `hsl(${hue}, 70%, 42%)`;
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import { useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { listSafetyDetectors } from "@/services/safety";
+import { SafetyCategory, SafetySettings } from "@/types";
+
+interface SafetySettingsEditorProps {
+  value?: SafetySettings;
+  onChange: (value: SafetySettings | undefined) => void;
+}
+
+const CATEGORY_LABELS: Record<SafetyCategory, string> = {
+  pii: "Personal data",
+  secret: "Secrets",
+  toxicity: "Toxicity",
+};
+
+// The editor's own lexicon of extra blocked terms
+const CUSTOM_LEXICON_ID = "blockedTerms";
+
+const toLines = (text: string) =>
+  text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+/**
+ * Safety screening options: which built-in detectors run, extra blocked
+ * terms and strings that are never flagged
+ */
+export function SafetySettingsEditor({ value = {}, onChange }: SafetySettingsEditorProps) {
+  const detectors = listSafetyDetectors();
+  const disabled = value.disabled ?? [];
+  const customLexicon = value.lexicons?.find((lexicon) => lexicon.id === CUSTOM_LEXICON_ID);
+
+  const [termsText, setTermsText] = useState(customLexicon?.terms.join("\n") ?? "");
+  const [allowText, setAllowText] = useState(value.allow?.join("\n") ?? "");
+
+  const update = (next: SafetySettings) => {
+    const isEmpty = !next.disabled?.length && !next.lexicons?.length && !next.patterns?.length && !next.allow?.length;
+    onChange(isEmpty ? undefined : next);
+  };
+
+  const toggleDetector = (id: string) => {
+    const next = disabled.includes(id) ? disabled.filter((disabledId) => disabledId !== id) : [...disabled, id];
+    update({ ...value, disabled: next.length > 0 ? next : undefined });
+  };
+
+  const updateTerms = (text: string) => {
+    setTermsText(text);
+    const terms = toLines(text);
+    const lexicons = (value.lexicons ?? []).filter((lexicon) => lexicon.id !== CUSTOM_LEXICON_ID);
+    if (terms.length > 0) {
+      lexicons.push({ id: CUSTOM_LEXICON_ID, category: "toxicity", terms });
+    }
+    update({ ...value, lexicons: lexicons.length > 0 ? lexicons : undefined });
+  };
+
+  const updateAllow = (text: string) => {
+    setAllowText(text);
+    const allow = toLines(text);
+    update({ ...value, allow: allow.length > 0 ? allow : undefined });
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label className="block">Safety screening</Label>
+      {(Object.keys(CATEGORY_LABELS) as SafetyCategory[]).map((category) => (
+        <div key={category}>
+          <p className="mb-1 text-xs font-medium text-gray-600 dark:text-gray-400">{CATEGORY_LABELS[category]}</p>
+          <div className="flex flex-wrap gap-x-4 gap-y-1">
+            {detectors
+              .filter((detector) => detector.category === category)
+              .map((detector) => (
+                <label key={detector.id} className="flex items-center gap-2 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={!disabled.includes(detector.id)}
+                    onChange={() => toggleDetector(detector.id)}
+                  />
+                  {detector.name}
+                </label>
+              ))}
+          </div>
+        </div>
+      ))}
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1">
+          <Label htmlFor="safety-terms" className="text-xs">
+            Extra blocked terms
+          </Label>
+          <Textarea
+            id="safety-terms"
+            className="min-h-[60px] text-xs"
+            placeholder="One word or phrase per line"
+            value={termsText}
+            onChange={(e) => updateTerms(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="safety-allow" className="text-xs">
+            Never flag
+          </Label>
+          <Textarea
+            id="safety-allow"
+            className="min-h-[60px] text-xs"
+            placeholder="support@example.com"
+            value={allowText}
+            onChange={(e) => updateAllow(e.target.value)}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        Flags are stored with each response, apart from the overall score; flagged text is redacted in
+        exports unless you include it
+      </p>
+    </div>
+  );
+}
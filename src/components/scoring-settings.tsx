@@ -0,0 +1,315 @@
+"use client";
+
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ConstraintsEditor } from "@/components/constraints-editor";
+import { JsonSchemaInput } from "@/components/json-schema-input";
+import { SafetySettingsEditor } from "@/components/safety-settings";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { getDefaultMetricIds, getMetricName } from "@/lib/metric-catalog";
+import { AUDIENCE_GRADES } from "@/services/readability";
+import { CodeTest, ContextDocument, ExperimentSettings, JudgeSettings, MetricInfo, ScoringProfile } from "@/types";
+
+interface ScoringSettingsFormProps {
+  value: ExperimentSettings;
+  onChange: (value: ExperimentSettings) => void;
+  metrics: MetricInfo[]; // Catalog from GET /api/metrics
+  profiles: ScoringProfile[]; // From GET /api/scoring-profiles
+  defaultProfile?: string;
+  prompt?: string; // Constraints are extracted from it
+}
+
+/**
+ * Per-experiment scoring options: which metrics to compute and how they
+ * combine into the overall score
+ */
+export function ScoringSettingsForm({
+  value,
+  onChange,
+  metrics,
+  profiles,
+  defaultProfile,
+  prompt = "",
+}: ScoringSettingsFormProps) {
+  const activeIds = value.metrics ?? getDefaultMetricIds(metrics, value);
+  const profile = profiles.find((p) => p.id === (value.scoringProfile ?? defaultProfile));
+
+  const toggleMetric = (id: string) => {
+    const next = activeIds.includes(id)
+      ? activeIds.filter((activeId) => activeId !== id)
+      : [...activeIds, id];
+
+    // At least one metric has to stay active
+    if (next.length === 0) return;
+    onChange({ ...value, metrics: next });
+  };
+
+  const updateJudge = (judge: JudgeSettings) => {
+    onChange({ ...value, judge });
+  };
+
+  const documents = value.contextDocuments ?? [];
+
+  const updateDocuments = (contextDocuments: ContextDocument[]) => {
+    onChange({ ...value, contextDocuments: contextDocuments.length > 0 ? contextDocuments : undefined });
+  };
+
+  const updateDocument = (index: number, document: ContextDocument) => {
+    updateDocuments(documents.map((existing, i) => (i === index ? document : existing)));
+  };
+
+  const codeTests = value.codeTests ?? [];
+
+  const updateCodeTests = (tests: CodeTest[]) => {
+    onChange({ ...value, codeTests: tests.length > 0 ? tests : undefined });
+  };
+
+  const updateCodeTest = (index: number, test: CodeTest) => {
+    updateCodeTests(codeTests.map((existing, i) => (i === index ? test : existing)));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Label className="mb-2 block">Metrics</Label>
+        <div className="flex flex-wrap gap-2">
+          {metrics.map((metric) => {
+            const active = activeIds.includes(metric.id);
+            return (
+              <button
+                key={metric.id}
+                type="button"
+                title={`${metric.description} (v${metric.version}, ${metric.range.min}–${metric.range.max})`}
+                onClick={() => toggleMetric(metric.id)}
+                className={`rounded-full border px-3 py-1 text-xs font-medium transition-colors ${
+                  active
+                    ? "border-blue-600 bg-blue-50 text-blue-700 dark:border-blue-500 dark:bg-blue-950/30 dark:text-blue-300"
+                    : "border-gray-200 text-gray-600 hover:border-gray-300 dark:border-gray-800 dark:text-gray-400"
+                }`}
+              >
+                {metric.name}
+              </button>
+            );
+          })}
+        </div>
+        <p className="mt-2 text-xs text-gray-500">
+          Each metric is scaled to 0–100 before weighting
+        </p>
+      </div>
+
+      {activeIds.includes("instructionFollowing") && (
+        <ConstraintsEditor
+          prompt={prompt}
+          value={value.constraints}
+          onChange={(constraints) => onChange({ ...value, constraints })}
+        />
+      )}
+
+      {activeIds.includes("readability") && (
+        <div className="space-y-2">
+          <Label htmlFor="audience">Target audience</Label>
+          <Select
+            id="audience"
+            value={value.audience ?? ""}
+            onChange={(e) => onChange({ ...value, audience: e.target.value || undefined })}
+          >
+            <option value="">Anyone (simpler is better)</option>
+            {Object.entries(AUDIENCE_GRADES).map(([audience, grade]) => (
+              <option key={audience} value={audience}>
+                {audience} (grade {grade})
+              </option>
+            ))}
+            {Array.from({ length: 16 }, (_, index) => index + 1).map((grade) => (
+              <option key={grade} value={`grade ${grade}`}>
+                grade {grade}
+              </option>
+            ))}
+          </Select>
+          <p className="text-xs text-gray-500">
+            With an audience, readability scores how close the reading grade level is to it
+          </p>
+        </div>
+      )}
+
+      <JsonSchemaInput
+        value={value.jsonSchema}
+        onChange={(jsonSchema) => onChange({ ...value, jsonSchema })}
+      />
+
+      <div className="space-y-2">
+        <Label htmlFor="reference-answer">Reference answer (optional)</Label>
+        <Textarea
+          id="reference-answer"
+          className="min-h-[80px]"
+          placeholder="Gold answer to compare responses against with ROUGE, BLEU, token F1 and exact match"
+          value={value.reference ?? ""}
+          onChange={(e) => onChange({ ...value, reference: e.target.value || undefined })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Context documents (optional)</Label>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => updateDocuments([...documents, { content: "" }])}
+            disabled={documents.length >= 20}
+          >
+            <Plus className="h-4 w-4" />
+            Add Document
+          </Button>
+        </div>
+        {documents.map((document, index) => (
+          <div key={index} className="space-y-2 rounded-lg border border-gray-200 p-3 dark:border-gray-800">
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder={`Document ${index + 1}`}
+                value={document.title ?? ""}
+                onChange={(e) => updateDocument(index, { ...document, title: e.target.value || undefined })}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => updateDocuments(documents.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4 text-red-600" />
+              </Button>
+            </div>
+            <Textarea
+              className="min-h-[80px]"
+              placeholder="Retrieved passage the answer should be grounded in"
+              value={document.content}
+              onChange={(e) => updateDocument(index, { ...document, content: e.target.value })}
+            />
+          </div>
+        ))}
+        {documents.length > 0 && (
+          <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+            <input
+              type="checkbox"
+              checked={value.groundedness?.judge ?? false}
+              onChange={(e) => onChange({ ...value, groundedness: { ...value.groundedness, judge: e.target.checked } })}
+            />
+            Verify each claim with the judge model
+          </label>
+        )}
+        <p className="text-xs text-gray-500">
+          Context documents enable the groundedness metric, which flags claims the documents do not support
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Code tests (optional)</Label>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => updateCodeTests([...codeTests, { code: "" }])}
+            disabled={codeTests.length >= 20}
+          >
+            <Plus className="h-4 w-4" />
+            Add Test
+          </Button>
+        </div>
+        {codeTests.map((test, index) => (
+          <div key={index} className="space-y-2 rounded-lg border border-gray-200 p-3 dark:border-gray-800">
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder={`Test ${index + 1}`}
+                value={test.name ?? ""}
+                onChange={(e) => updateCodeTest(index, { ...test, name: e.target.value || undefined })}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => updateCodeTests(codeTests.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4 text-red-600" />
+              </Button>
+            </div>
+            <Textarea
+              className="min-h-[60px] font-mono text-xs"
+              placeholder="assert.strictEqual(add(2, 3), 5)"
+              value={test.code}
+              onChange={(e) => updateCodeTest(index, { ...test, code: e.target.value })}
+            />
+          </div>
+        ))}
+        <p className="text-xs text-gray-500">
+          Snippets run against the response&apos;s JavaScript/TypeScript blocks with <code>assert</code> in scope;
+          a test passes when it finishes within a second without throwing
+        </p>
+      </div>
+
+      <SafetySettingsEditor value={value.safety} onChange={(safety) => onChange({ ...value, safety })} />
+
+      {(activeIds.includes("judge") || value.groundedness?.judge) && (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="judge-model">Judge model</Label>
+            <Input
+              id="judge-model"
+              placeholder="Default (JUDGE_MODEL)"
+              value={value.judge?.model ?? ""}
+              onChange={(e) => updateJudge({ ...value.judge, model: e.target.value || undefined })}
+            />
+            <p className="text-xs text-gray-500">
+              &quot;provider:model&quot;; without a configured provider a local stand-in judge is used
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="judge-rubric">Judge rubric</Label>
+            <Textarea
+              id="judge-rubric"
+              className="min-h-[80px]"
+              placeholder="Default: correctness, helpfulness, completeness and clarity on a 1–10 scale"
+              value={value.judge?.rubric ?? ""}
+              onChange={(e) => updateJudge({ ...value.judge, rubric: e.target.value || undefined })}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="scoring-profile">Scoring profile</Label>
+        <Select
+          id="scoring-profile"
+          value={value.scoringProfile ?? defaultProfile ?? ""}
+          onChange={(e) => onChange({ ...value, scoringProfile: e.target.value })}
+        >
+          {profiles.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+            </option>
+          ))}
+        </Select>
+        {profile && (
+          <div className="text-xs text-gray-500">
+            <p>{profile.description}</p>
+            {Object.keys(profile.weights).length > 0 && (
+              <p className="mt-1">
+                Weights:{" "}
+                {Object.entries(profile.weights)
+                  .map(([id, weight]) => `${getMetricName(id, metrics)} ×${weight}`)
+                  .join(", ")}
+              </p>
+            )}
+            {profile.gates?.map((gate) => (
+              <p key={gate.metric} className="mt-1">
+                Gate: {getMetricName(gate.metric, metrics)} below {gate.below} ⇒ overall 0
+              </p>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
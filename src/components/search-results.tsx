@@ -0,0 +1,138 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { motion } from "framer-motion";
+import { Calendar, Eye, Search } from "lucide-react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { HighlightedText } from "@/components/highlighted-text";
+import { SearchField, SearchMatch, SearchResult } from "@/types";
+import { formatDate } from "@/lib/utils";
+
+const FIELD_LABELS: Record<SearchField, string> = {
+  name: "Name",
+  description: "Description",
+  prompt: "Prompt",
+  response: "Response",
+};
+
+interface SearchResultsProps {
+  query: string;
+}
+
+function MatchSnippet({ match }: { match: SearchMatch }) {
+  return (
+    <div className="flex gap-3 text-sm">
+      <Badge variant="outline" className="h-fit shrink-0">
+        {FIELD_LABELS[match.field]}
+      </Badge>
+      <p className="whitespace-pre-wrap text-gray-700 dark:text-gray-300">
+        <HighlightedText
+          text={match.snippet}
+          highlights={match.highlights.map(([start, end]) => ({
+            text: match.snippet.slice(start, end),
+            start,
+            tone: "amber",
+          }))}
+        />
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Experiments matching a full-text search, with highlighted snippets of
+ * where each one matched
+ */
+export function SearchResults({ query }: SearchResultsProps) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["search", query],
+    queryFn: async (): Promise<SearchResult[]> => {
+      const response = await fetch(`/api/search?${new URLSearchParams({ q: query })}`);
+      if (!response.ok) {
+        throw new Error("Failed to search experiments");
+      }
+      return (await response.json()).results;
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="mb-4 inline-block h-12 w-12 animate-spin rounded-full border-4 border-gray-300 border-t-blue-600" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertDescription>Search failed. Please try again later.</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (!data || data.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center">
+          <Search className="mx-auto mb-4 h-12 w-12 text-gray-400" />
+          <p className="text-lg font-medium text-gray-900 dark:text-gray-100">
+            No experiments mention &ldquo;{query}&rdquo;
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {data.map((result, index) => {
+        const shownResponses = result.matches.filter((match) => match.field === "response").length;
+        const moreResponses = result.matchingResponses - shownResponses;
+
+        return (
+          <motion.div
+            key={result.id}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: index * 0.05 }}
+          >
+            <Card>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1">
+                    <CardTitle className="mb-2">{result.name || "Untitled Experiment"}</CardTitle>
+                    <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                      <Calendar className="h-4 w-4" />
+                      {formatDate(result.createdAt)}
+                    </div>
+                  </div>
+                  <Button variant="outline" size="sm" asChild>
+                    <Link href={`/results/${result.id}`}>
+                      <Eye className="h-4 w-4" />
+                      View
+                    </Link>
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {result.matches.map((match, matchIndex) => (
+                  <MatchSnippet key={`${match.field}-${match.responseId ?? matchIndex}`} match={match} />
+                ))}
+                {moreResponses > 0 && (
+                  <p className="text-sm text-gray-500">
+                    and {moreResponses} more matching response{moreResponses !== 1 ? "s" : ""}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </motion.div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+/**
+ * Next.js server startup hook
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") {
+    return;
+  }
+
+  // Resume background jobs interrupted by a restart, and keep reclaiming
+  // tasks whose process died; the in-memory store loses them with the
+  // process, so there is nothing to resume
+  const { getStore } = await import("@/services/store");
+  if (getStore().id !== "memory") {
+    const { startJobRecovery } = await import("@/services/jobs");
+    startJobRecovery();
+  }
+}
@@ -0,0 +1,95 @@
+import {
+  ExperimentSettings,
+  MetricDetails,
+  MetricExplanation,
+  MetricInfo,
+  MetricInputField,
+  MetricRange,
+  QualityMetrics,
+} from "@/types";
+import { clamp } from "@/lib/utils";
+
+/**
+ * Map a score from its metric's range onto 0-100
+ */
+export function normalizeScore(score: number, range: MetricRange): number {
+  if (range.max === range.min) return 0;
+  return clamp(((score - range.min) / (range.max - range.min)) * 100, 0, 100);
+}
+
+/**
+ * Whether an experiment provides the input a metric compares against
+ */
+export function hasMetricInput(settings: ExperimentSettings, field: MetricInputField): boolean {
+  const value = settings[field];
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+/**
+ * Metrics active when an experiment does not choose its own: the defaults,
+ * plus the metrics whose input the experiment provides, minus any default
+ * metrics those replace
+ */
+export function getDefaultMetricIds(catalog: MetricInfo[], settings: ExperimentSettings): string[] {
+  const inputMetrics = catalog.filter((metric) => metric.requires && hasMetricInput(settings, metric.requires));
+  const replaced = new Set(inputMetrics.flatMap((metric) => metric.replaces ?? []));
+
+  return [
+    ...catalog.filter((metric) => metric.default && !replaced.has(metric.id)),
+    ...inputMetrics,
+  ].map((metric) => metric.id);
+}
+
+/**
+ * Display name for a metric ID, falling back to the ID itself
+ */
+export function getMetricName(id: string, catalog: MetricInfo[]): string {
+  if (id === "overall") return "Overall";
+  return catalog.find((metric) => metric.id === id)?.name ?? id;
+}
+
+/**
+ * IDs of the scored metrics in a response, in catalog order
+ */
+export function getScoredMetricIds(metrics: QualityMetrics, catalog: MetricInfo[]): string[] {
+  const ids = Object.keys(metrics).filter((id) => id !== "overall");
+  const order = (id: string) => {
+    const index = catalog.findIndex((metric) => metric.id === id);
+    return index === -1 ? catalog.length : index;
+  };
+  return ids.sort((a, b) => order(a) - order(b));
+}
+
+/**
+ * Get detailed explanations for every scored metric of a response
+ *
+ * A metric's own summary (e.g. a judge's justification) replaces the
+ * generic explanation for its score band.
+ */
+export function getMetricExplanations(
+  metrics: QualityMetrics,
+  catalog: MetricInfo[],
+  details: Record<string, MetricDetails> = {}
+): MetricExplanation[] {
+  return getScoredMetricIds(metrics, catalog).map((id) => {
+    const info = catalog.find((metric) => metric.id === id);
+    const score = metrics[id];
+    const normalized = info ? normalizeScore(score, info.range) : score;
+    const levels = info?.levels;
+
+    return {
+      id,
+      name: info?.name ?? id,
+      score,
+      description: info?.description ?? "",
+      details: details[id]?.summary ?? (levels ? describeLevel(normalized, levels) : ""),
+    };
+  });
+}
+
+function describeLevel(normalized: number, levels: [string, string, string, string]): string {
+  if (normalized >= 80) return levels[0];
+  if (normalized >= 60) return levels[1];
+  if (normalized >= 40) return levels[2];
+  return levels[3];
+}
@@ -0,0 +1,306 @@
+import { z } from "zod";
+import safeRegex from "safe-regex2";
+import { DEFAULT_MODEL_ID } from "@/services/providers";
+import { getMetric } from "@/services/metrics";
+import { getScoringProfile } from "@/services/scoring-profiles";
+import { compileJsonSchema } from "@/services/structured-output";
+import { AUDIENCE_GRADES, resolveTargetGrade } from "@/services/readability";
+import { listSafetyDetectors } from "@/services/safety";
+import { decodeCursor } from "@/services/store/listing";
+import { MIN_STEP, countParameterSets } from "@/services/sweep";
+
+/**
+ * Maximum number of generations a single experiment may request
+ */
+export const EXPERIMENT_BUDGET = parseInt(process.env.EXPERIMENT_BUDGET || "100", 10);
+
+const MAX_SAMPLES = 20;
+
+const safetyCategorySchema = z.enum(["pii", "secret", "toxicity"]);
+
+const samplesSchema = z.number().int().min(1).max(MAX_SAMPLES, `At most ${MAX_SAMPLES} samples per parameter set`);
+
+const parameterSetSchema = z.object({
+  temperature: z.number().min(0).max(2),
+  topP: z.number().min(0).max(1),
+  samples: samplesSchema.optional(),
+});
+
+const judgeSettingsSchema = z.object({
+  model: z.string().optional(),
+  rubric: z.string().max(4000, "Rubric too long").optional(),
+});
+
+const countBoundsSchema = {
+  min: z.number().int().min(0).optional(),
+  max: z.number().int().min(0).optional(),
+};
+
+const phraseSchema = z.string().min(1, "Phrase is required").max(200);
+
+/**
+ * A hard instruction responses are checked against
+ */
+export const constraintSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("wordCount"), ...countBoundsSchema }),
+  z.object({ type: z.literal("sentenceCount"), ...countBoundsSchema }),
+  z.object({ type: z.literal("bulletCount"), ...countBoundsSchema }),
+  z.object({ type: z.literal("paragraphCount"), ...countBoundsSchema }),
+  z.object({ type: z.literal("json") }),
+  z.object({ type: z.literal("includes"), text: phraseSchema }),
+  z.object({ type: z.literal("excludes"), text: phraseSchema }),
+  z.object({ type: z.literal("case"), case: z.enum(["lower", "upper"]) }),
+]);
+
+/**
+ * Per-experiment scoring options
+ */
+export const experimentSettingsSchema = z.object({
+  metrics: z
+    .array(z.string())
+    .min(1, "At least one metric required")
+    .refine((ids) => ids.every((id) => getMetric(id)), {
+      message: "Unknown metric; see GET /api/metrics",
+    })
+    .optional(),
+  scoringProfile: z
+    .string()
+    .refine((id) => getScoringProfile(id), { message: "Unknown scoring profile; see GET /api/scoring-profiles" })
+    .optional(),
+  judge: judgeSettingsSchema.optional(),
+  reference: z.string().max(20000, "Reference answer too long").optional(),
+  contextDocuments: z
+    .array(
+      z.object({
+        title: z.string().max(200).optional(),
+        content: z.string().min(1, "Context document is empty").max(50000, "Context document too long"),
+      })
+    )
+    .max(20, "At most 20 context documents")
+    .optional(),
+  groundedness: z.object({ judge: z.boolean().optional() }).optional(),
+  constraints: z.array(constraintSchema).max(20, "At most 20 constraints").optional(),
+  jsonSchema: z
+    .record(z.string(), z.unknown())
+    .superRefine((schema, ctx) => {
+      try {
+        compileJsonSchema(schema);
+      } catch (error) {
+        ctx.addIssue({ code: "custom", message: `Unsupported JSON Schema: ${(error as Error).message}` });
+      }
+    })
+    .optional(),
+  codeTests: z
+    .array(
+      z.object({
+        name: z.string().max(100).optional(),
+        code: z.string().min(1, "Code test is empty").max(5000, "Code test too long"),
+      })
+    )
+    .max(20, "At most 20 code tests")
+    .optional(),
+  audience: z
+    .string()
+    .refine((audience) => resolveTargetGrade(audience) !== null, {
+      message: `Unknown audience; use "grade N" or one of: ${Object.keys(AUDIENCE_GRADES).join(", ")}`,
+    })
+    .optional(),
+  safety: z
+    .object({
+      disabled: z
+        .array(z.string())
+        .refine((ids) => ids.every((id) => listSafetyDetectors().some((detector) => detector.id === id)), {
+          message: "Unknown safety detector",
+        })
+        .optional(),
+      lexicons: z
+        .array(
+          z.object({
+            id: z.string().min(1).max(50),
+            category: safetyCategorySchema,
+            terms: z.array(z.string().min(1).max(100)).min(1).max(500),
+          })
+        )
+        .max(20, "At most 20 lexicons")
+        .optional(),
+      patterns: z
+        .array(
+          z.object({
+            id: z.string().min(1).max(50),
+            category: safetyCategorySchema,
+            pattern: z
+              .string()
+              .min(1)
+              .max(500)
+              .refine(
+                (pattern) => {
+                  try {
+                    new RegExp(pattern, "gi");
+                    return true;
+                  } catch {
+                    return false;
+                  }
+                },
+                { message: "Invalid regular expression", abort: true }
+              )
+              // Patterns run on the server over every response, so nested
+              // quantifiers such as (a+)+ could stall it
+              .refine((pattern) => safeRegex(pattern), {
+                message: "Pattern may backtrack catastrophically; avoid nested quantifiers",
+              }),
+          })
+        )
+        .max(20, "At most 20 patterns")
+        .optional(),
+      allow: z.array(z.string().min(1).max(500)).max(100).optional(),
+    })
+    .optional(),
+});
+
+const generateRequestObjectSchema = z.object({
+  prompt: z.string().min(1, "Prompt is required").max(5000, "Prompt too long"),
+  parameters: z.array(parameterSetSchema).min(1, "At least one parameter set required"),
+  samples: samplesSchema.optional().default(1),
+  model: z.string().optional().default(DEFAULT_MODEL_ID),
+  settings: experimentSettingsSchema.optional().default({}),
+});
+
+// Every sample of every parameter set counts against the budget
+const isWithinBudget = (request: z.infer<typeof generateRequestObjectSchema>) =>
+  request.parameters.reduce((total, params) => total + (params.samples ?? request.samples), 0) <=
+  EXPERIMENT_BUDGET;
+
+const budgetError = {
+  message: `Too many generations (budget is ${EXPERIMENT_BUDGET})`,
+  path: ["parameters"],
+};
+
+/**
+ * Request body for /api/jobs
+ */
+export const generateRequestSchema = generateRequestObjectSchema.refine(isWithinBudget, budgetError);
+
+/**
+ * Request body for /api/generate, which can also stream
+ */
+export const streamingGenerateRequestSchema = generateRequestObjectSchema
+  .extend({ stream: z.boolean().optional().default(false) })
+  .refine(isWithinBudget, budgetError);
+
+const rangeSchema = (min: number, max: number) =>
+  z.object({
+    min: z.number().min(min).max(max),
+    max: z.number().min(min).max(max),
+    step: z.number().min(MIN_STEP, `Step must be at least ${MIN_STEP}`),
+  }).refine((range) => range.min <= range.max, "Range min must not exceed max");
+
+/**
+ * Grid sweep request body for /api/sweep (an ExperimentConfig)
+ */
+export const experimentConfigSchema = z
+  .object({
+    prompt: z.string().min(1, "Prompt is required").max(5000, "Prompt too long"),
+    temperatures: z.array(parameterSetSchema.shape.temperature).optional(),
+    temperatureRange: rangeSchema(0, 2).optional(),
+    topPValues: z.array(parameterSetSchema.shape.topP).optional(),
+    topPRange: rangeSchema(0, 1).optional(),
+    samples: samplesSchema.optional().default(1),
+    model: z.string().optional().default(DEFAULT_MODEL_ID),
+    settings: experimentSettingsSchema.optional().default({}),
+  })
+  // Counted, not expanded, so an oversized grid is rejected before it is built
+  .superRefine((config, ctx) => {
+    const parameterSets = countParameterSets(config);
+    const generations = parameterSets * config.samples;
+    if (generations > EXPERIMENT_BUDGET) {
+      ctx.addIssue({
+        code: "custom",
+        message: `Grid needs ${generations} generations (${parameterSets} parameter sets × ${config.samples} samples), which exceeds the budget of ${EXPERIMENT_BUDGET}`,
+      });
+    }
+  });
+
+/**
+ * Query parameters for /api/significance
+ */
+export const significanceQuerySchema = z.object({
+  id: z.string().min(1, "Experiment ID is required"),
+  test: z.enum(["bootstrap", "mann-whitney", "permutation"]).optional().default("mann-whitney"),
+  correction: z.enum(["holm", "bonferroni", "benjamini-hochberg", "none"]).optional().default("holm"),
+  alpha: z.coerce.number().gt(0).lt(1).optional().default(0.05),
+  metric: z.string().optional().default("overall"),
+});
+
+const experimentSortSchema = z.enum(["createdAt", "bestScore", "responseCount"]);
+const sortOrderSchema = z.enum(["asc", "desc"]);
+
+const experimentCursorSchema = z.object({
+  sort: experimentSortSchema,
+  order: sortOrderSchema,
+  value: z.number(),
+  id: z.string(),
+});
+
+/**
+ * Query parameters for listing experiments with GET /api/experiments
+ */
+export const experimentListQuerySchema = z
+  .object({
+    sort: experimentSortSchema.optional().default("createdAt"),
+    order: sortOrderSchema.optional().default("desc"),
+    limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+    cursor: z
+      .string()
+      .transform((text, ctx) => {
+        const cursor = experimentCursorSchema.safeParse(decodeCursor(text));
+        if (!cursor.success) {
+          ctx.addIssue({ code: "custom", message: "Invalid cursor" });
+          return z.NEVER;
+        }
+        return cursor.data;
+      })
+      .optional(),
+    name: z.string().trim().max(200).optional(),
+    model: z.string().trim().max(200).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    minScore: z.coerce.number().min(0).max(100).optional(),
+    maxScore: z.coerce.number().min(0).max(100).optional(),
+  })
+  .superRefine((query, ctx) => {
+    if (query.cursor && (query.cursor.sort !== query.sort || query.cursor.order !== query.order)) {
+      ctx.addIssue({ code: "custom", path: ["cursor"], message: "Cursor is from a different sort order" });
+    }
+  });
+
+/**
+ * Query parameters for /api/search
+ */
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(1, "Search text is required").max(200, "Search text too long"),
+  limit: z.coerce.number().int().min(1).max(50).optional().default(20),
+});
+
+/**
+ * Query parameters for /api/diversity
+ */
+export const diversityQuerySchema = z.object({
+  id: z.string().min(1, "Experiment ID is required"),
+  threshold: z.coerce.number().gt(0).max(1).optional().default(0.9),
+});
+
+/**
+ * Request body for /api/judge
+ */
+export const pairwiseJudgeRequestSchema = z.object({
+  experimentId: z.string().min(1, "Experiment ID is required"),
+  responseIds: z.tuple([z.string(), z.string()]).refine(([a, b]) => a !== b, "Pick two different responses"),
+  judge: judgeSettingsSchema.optional(),
+});
+
+/**
+ * Request body for POST /api/migrations
+ */
+export const migrateRequestSchema = z.object({
+  target: z.number().int().min(0).optional(),
+});
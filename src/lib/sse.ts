@@ -0,0 +1,70 @@
+/**
+ * Server-Sent Events helpers shared by API routes and the browser
+ */
+
+export interface SSEMessage {
+  event: string;
+  data: string;
+}
+
+/**
+ * Encode a single SSE message
+ */
+export function formatSSE(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Read an SSE stream, calling onMessage for every complete message
+ */
+export async function readSSE(
+  stream: ReadableStream<Uint8Array>,
+  onMessage: (message: SSEMessage) => void
+): Promise<void> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Messages are separated by a blank line
+    let boundary = buffer.search(/\r?\n\r?\n/);
+    while (boundary !== -1) {
+      const chunk = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, "");
+      const message = parseSSEChunk(chunk);
+      if (message) {
+        onMessage(message);
+      }
+      boundary = buffer.search(/\r?\n\r?\n/);
+    }
+  }
+
+  const message = parseSSEChunk(buffer);
+  if (message) {
+    onMessage(message);
+  }
+}
+
+function parseSSEChunk(chunk: string): SSEMessage | null {
+  let event = "message";
+  const dataLines: string[] = [];
+
+  for (const line of chunk.split(/\r?\n/)) {
+    if (line.startsWith("event:")) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      dataLines.push(line.slice(5).replace(/^ /, ""));
+    }
+  }
+
+  if (dataLines.length === 0) {
+    return null;
+  }
+
+  return { event, data: dataLines.join("\n") };
+}
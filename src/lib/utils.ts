@@ -37,6 +37,16 @@ export function average(arr: number[]): number {
   return arr.reduce((sum, val) => sum + val, 0) / arr.length;
 }
 
+/**
+ * Calculate the sample standard deviation of an array of numbers
+ */
+export function standardDeviation(arr: number[]): number {
+  if (arr.length < 2) return 0;
+  const mean = average(arr);
+  const variance = arr.reduce((sum, val) => sum + (val - mean) ** 2, 0) / (arr.length - 1);
+  return Math.sqrt(variance);
+}
+
 /**
  * Clamp a number between min and max
  */
@@ -51,3 +61,26 @@ export function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+
+/**
+ * Run an async function over items with at most `limit` calls in flight
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(limit, items.length) }, worker);
+  await Promise.all(workers);
+  return results;
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { checkCodeBlock, extractCodeBlocks, runCodeTests } from "./code-blocks";
+
+describe("checkCodeBlock", () => {
+  it("reports syntax errors with their line", () => {
+    expect(checkCodeBlock({ language: "javascript", code: "const a = 1;\nconst b = [1, 2;" })).toMatchObject({
+      checked: true,
+      valid: false,
+      errors: [expect.stringMatching(/^Line 2: /)],
+    });
+  });
+
+  it("parses TypeScript and JSX by the block's language", () => {
+    expect(checkCodeBlock({ language: "typescript", code: "const n: number = 1;" }).valid).toBe(true);
+    expect(checkCodeBlock({ language: "javascript", code: "const n: number = 1;" }).valid).toBe(false);
+    expect(checkCodeBlock({ language: "tsx", code: "const el = <div>{count as number}</div>;" }).valid).toBe(true);
+  });
+});
+
+describe("runCodeTests", () => {
+  it("strips types and module syntax before running the tests", async () => {
+    const [block] = extractCodeBlocks(
+      "```ts\nimport type { Foo } from './foo';\nexport function add(a: number, b: number): number {\n  return a + b;\n}\n```"
+    );
+
+    expect(await runCodeTests([block], [{ name: "adds", code: "assert.strictEqual(add(2, 3), 5)" }])).toEqual([
+      { name: "adds", passed: true },
+    ]);
+  });
+
+  it("fails every test when there is no code to run", async () => {
+    const results = await runCodeTests([{ language: "python", code: "print(1)" }], [{ code: "1" }, { code: "2" }]);
+
+    expect(results.every((result) => !result.passed)).toBe(true);
+    expect(results[0].error).toBe("No JavaScript or TypeScript code block to test");
+  });
+
+  it("fails every test when the code does not compile", async () => {
+    const [result] = await runCodeTests([{ language: "typescript", code: "function (" }], [{ code: "1" }]);
+
+    expect(result.passed).toBe(false);
+    expect(result.error).toMatch(/^Code failed to load: /);
+  });
+});
@@ -0,0 +1,203 @@
+import { parse, ParserPlugin } from "@babel/parser";
+import { transform, Transform } from "sucrase";
+import { CodeBlock, CodeBlockCheck, CodeTest, CodeTestResult } from "@/types";
+import { parseMarkdown, proseBlocks } from "@/services/text-analysis";
+import { runInSandbox } from "@/services/code-sandbox";
+
+// Prose outside code blocks needed to count as an explanation
+const MIN_EXPLANATION_WORDS = 15;
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  node: "javascript",
+  ts: "typescript",
+  py: "python",
+  python3: "python",
+  rb: "ruby",
+  sh: "shell",
+  bash: "shell",
+  zsh: "shell",
+  console: "shell",
+  shell: "shell",
+  cs: "csharp",
+  "c#": "csharp",
+  "c++": "cpp",
+  golang: "go",
+  rs: "rust",
+  kt: "kotlin",
+  yml: "yaml",
+};
+
+// How each language is named in a prompt
+const REQUESTABLE_LANGUAGES: [string, RegExp][] = [
+  ["typescript", /\b(?:typescript|ts)\b/i],
+  ["javascript", /\b(?:javascript|js|node(?:\.js)?)\b/i],
+  ["python", /\bpython\b/i],
+  ["java", /\bjava\b(?!script)/i],
+  ["csharp", /(?:\bc#|\bcsharp\b)/i],
+  ["cpp", /(?:\bc\+\+|\bcpp\b)/i],
+  ["go", /\b(?:golang|go)\b(?=\s+(?:code|function|program|snippet|script))|\bin go\b/i],
+  ["rust", /\brust\b/i],
+  ["ruby", /\bruby\b/i],
+  ["php", /\bphp\b/i],
+  ["kotlin", /\bkotlin\b/i],
+  ["swift", /\bswift\b/i],
+  ["sql", /\bsql\b/i],
+  ["shell", /\b(?:bash|shell script|zsh)\b/i],
+];
+
+// Blocks that show commands, output or data rather than the answer's code
+const AUXILIARY_LANGUAGES = new Set(["shell", "text", "plaintext", "output", "json", "yaml", "toml", "xml", "csv", "diff"]);
+
+// Syntax each script language may use; JavaScript blocks often hold JSX
+const SCRIPT_SYNTAX: Record<string, { typescript: boolean; jsx: boolean }> = {
+  javascript: { typescript: false, jsx: true },
+  jsx: { typescript: false, jsx: true },
+  typescript: { typescript: true, jsx: false },
+  tsx: { typescript: true, jsx: true },
+};
+
+/**
+ * Fenced code blocks of a response, with normalized language tags
+ */
+export function extractCodeBlocks(response: string): CodeBlock[] {
+  return parseMarkdown(response).flatMap((block) =>
+    block.type === "code"
+      ? [{ language: block.language ? LANGUAGE_ALIASES[block.language] ?? block.language : null, code: block.code }]
+      : []
+  );
+}
+
+/**
+ * Syntax-check a block in-process with Babel's parser; only JavaScript,
+ * TypeScript (with JSX) and JSON can be checked
+ */
+export function checkCodeBlock(block: CodeBlock): CodeBlockCheck {
+  if (block.language === "json") {
+    try {
+      JSON.parse(block.code);
+      return { language: block.language, checked: true, valid: true, errors: [] };
+    } catch (error) {
+      return { language: block.language, checked: true, valid: false, errors: [(error as SyntaxError).message] };
+    }
+  }
+
+  if (!isScript(block)) {
+    return { language: block.language, checked: false, valid: false, errors: [] };
+  }
+
+  // Parsing only finds syntax errors, never type errors
+  let errors: string[];
+  try {
+    errors = (parse(block.code, parserOptions(block)).errors ?? []).map(formatParseError);
+  } catch (error) {
+    errors = [formatParseError(error as Error & { loc?: { line: number } })];
+  }
+
+  return { language: block.language, checked: true, valid: errors.length === 0, errors };
+}
+
+/**
+ * Language the prompt asks the code to be written in, if any
+ */
+export function detectRequestedLanguage(prompt: string): string | null {
+  // TypeScript is checked first so "TypeScript" never reads as "JavaScript"
+  return REQUESTABLE_LANGUAGES.find(([, pattern]) => pattern.test(prompt))?.[0] ?? null;
+}
+
+/**
+ * Whether a language tag satisfies a request; TSX and JSX count as their
+ * base languages
+ */
+export function languageMatches(language: string, requested: string): boolean {
+  if (language === requested) return true;
+  return (language === "tsx" && requested === "typescript") || (language === "jsx" && requested === "javascript");
+}
+
+/**
+ * Blocks that hold the answer's code, leaving out shell commands, output
+ * and data
+ */
+export function primaryCodeBlocks(blocks: CodeBlock[]): CodeBlock[] {
+  return blocks.filter((block) => !block.language || !AUXILIARY_LANGUAGES.has(block.language));
+}
+
+/**
+ * Words of prose outside the code blocks
+ */
+export function countExplanationWords(response: string): number {
+  const prose = proseBlocks(response).map((block) => block.text).join(" ");
+  return prose.split(/\s+/).filter((word) => /[\p{L}]{2,}/u.test(word)).length;
+}
+
+export function hasExplanation(response: string): boolean {
+  return countExplanationWords(response) >= MIN_EXPLANATION_WORDS;
+}
+
+/**
+ * Run test snippets against the response's JavaScript/TypeScript blocks
+ *
+ * The blocks have their types stripped and run in a sandbox (see
+ * runInSandbox) with only `assert` and a silent `console`; their top-level
+ * declarations are visible to the tests. Each snippet passes if it
+ * completes without throwing, including a returned promise, within the
+ * sandbox's time limit; every snippet fails when there is no code to run or
+ * it does not load.
+ */
+export async function runCodeTests(blocks: CodeBlock[], tests: CodeTest[]): Promise<CodeTestResult[]> {
+  const runnable = blocks.filter(isScript);
+  if (runnable.length === 0) {
+    return failAll(tests, "No JavaScript or TypeScript code block to test");
+  }
+
+  let sources: string[];
+  try {
+    sources = runnable.map(toScript);
+  } catch (error) {
+    return failAll(tests, `Code failed to load: ${(error as Error).message}`);
+  }
+
+  const results = await runInSandbox(sources, tests.map((test) => test.code));
+  return results.map((result, index) => ({ name: testName(tests[index], index), ...result }));
+}
+
+function isScript(block: CodeBlock): boolean {
+  return block.language !== null && block.language in SCRIPT_SYNTAX;
+}
+
+function parserOptions(block: CodeBlock) {
+  const syntax = SCRIPT_SYNTAX[block.language ?? ""];
+  const plugins: ParserPlugin[] = [];
+  if (syntax.typescript) plugins.push("typescript");
+  if (syntax.jsx) plugins.push("jsx");
+
+  // "unambiguous" parses a block as a module only if it imports or exports
+  return { sourceType: "unambiguous" as const, errorRecovery: true, plugins };
+}
+
+function formatParseError(error: Error & { loc?: { line: number } }): string {
+  const message = error.message.replace(/ \(\d+:\d+\)$/, "");
+  return error.loc ? `Line ${error.loc.line}: ${message}` : message;
+}
+
+/**
+ * Plain CommonJS JavaScript for a block; throws on syntax errors
+ */
+function toScript(block: CodeBlock): string {
+  const syntax = SCRIPT_SYNTAX[block.language ?? ""];
+  const transforms: Transform[] = ["imports"];
+  if (syntax.typescript) transforms.push("typescript");
+  if (syntax.jsx) transforms.push("jsx");
+
+  return transform(block.code, { transforms, production: true }).code;
+}
+
+function failAll(tests: CodeTest[], error: string): CodeTestResult[] {
+  return tests.map((test, index) => ({ name: testName(test, index), passed: false, error }));
+}
+
+function testName(test: CodeTest, index: number): string {
+  return test.name || `Test ${index + 1}`;
+}
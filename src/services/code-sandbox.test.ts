@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import { SANDBOX_TIMEOUT_MS, runInSandbox } from "./code-sandbox";
+
+const ADD = "function add(a, b) { return a + b; }";
+
+// Worker start-up plus a few scripts that run out their time
+const SLOW_TEST_MS = 15_000;
+
+describe("runInSandbox", () => {
+  it("runs tests against the loaded scripts", async () => {
+    const results = await runInSandbox(
+      [ADD, "const double = (n) => add(n, n);"],
+      ["assert.strictEqual(add(2, 3), 5)", "assert.strictEqual(double(4), 9)", "assert.deepStrictEqual([add(1, 1)], [2])"]
+    );
+
+    expect(results).toEqual([
+      { passed: true },
+      { passed: false, error: "Expected values to be strictly equal: 8 !== 9" },
+      { passed: true },
+    ]);
+  });
+
+  it("waits for returned promises", async () => {
+    const results = await runInSandbox(
+      ["async function fetchValue() { await null; return 42; }"],
+      [
+        "fetchValue().then((value) => assert.equal(value, 42))",
+        "Promise.reject(new Error('boom'))",
+        "new Promise(() => {})",
+        "assert.rejects(Promise.reject(new TypeError('bad')), TypeError)",
+      ]
+    );
+
+    expect(results).toEqual([
+      { passed: true },
+      { passed: false, error: "boom" },
+      { passed: false, error: "The returned promise never settled" },
+      { passed: true },
+    ]);
+  });
+
+  it("fails every test when the scripts do not load", async () => {
+    const results = await runInSandbox([ADD, "throw new Error('top-level failure')"], ["1", "2"]);
+
+    expect(results).toEqual([
+      { passed: false, error: "Code failed to load: top-level failure" },
+      { passed: false, error: "Code failed to load: top-level failure" },
+    ]);
+  });
+
+  it("keeps state between tests but not between runs", async () => {
+    expect(await runInSandbox(["let count = 0;"], ["count++", "assert.equal(count, 1)"])).toEqual([
+      { passed: true },
+      { passed: true },
+    ]);
+    expect(await runInSandbox([ADD], ["assert.equal(typeof count, 'undefined')"])).toEqual([{ passed: true }]);
+  });
+
+  describe("isolation", () => {
+    it.each([
+      ["require", "require('node:fs')"],
+      ["process", "process.exit(1)"],
+      ["timers", "setTimeout(() => {}, 0)"],
+      ["fetch", "fetch('http://localhost')"],
+    ])("exposes no %s", async (_, code) => {
+      const [result] = await runInSandbox([ADD], [code]);
+
+      expect(result.passed).toBe(false);
+      expect(result.error).toMatch(/is not defined/);
+    });
+
+    it.each([
+      ["the global's constructor", "this.constructor.constructor('return process')()"],
+      ["a literal's constructor", "({}).constructor.constructor('return process')()"],
+      ["assert's constructor", "assert.constructor.constructor('return process')()"],
+      ["a function's constructor", "add.constructor('return process')()"],
+      ["eval", "eval('1 + 1')"],
+    ])("refuses to compile code through %s", async (_, code) => {
+      const [result] = await runInSandbox([ADD], [code]);
+
+      expect(result.passed).toBe(false);
+      expect(result.error).toMatch(/Code generation from strings disallowed/);
+    });
+
+    it("cannot load modules with a dynamic import", async () => {
+      const [result] = await runInSandbox([ADD], ["import('node:child_process')"]);
+
+      expect(result.passed).toBe(false);
+    });
+
+    it("sees no environment variables", async () => {
+      process.env.SANDBOX_TEST_SECRET = "secret";
+      try {
+        const [result] = await runInSandbox(
+          [ADD],
+          ["assert.equal(typeof globalThis.process, 'undefined'); assert.equal(JSON.stringify(globalThis).includes('secret'), false)"]
+        );
+        expect(result).toEqual({ passed: true });
+      } finally {
+        delete process.env.SANDBOX_TEST_SECRET;
+      }
+    });
+  });
+
+  describe("limits", () => {
+    it(
+      "times out a busy loop and runs the next test",
+      async () => {
+        const started = Date.now();
+        const results = await runInSandbox([ADD], ["while (true) {}", "assert.equal(add(1, 2), 3)"]);
+
+        expect(results[0].passed).toBe(false);
+        expect(results[0].error).toMatch(/timed out/i);
+        expect(results[1]).toEqual({ passed: true });
+        expect(Date.now() - started).toBeLessThan(SANDBOX_TIMEOUT_MS * 5);
+      },
+      SLOW_TEST_MS
+    );
+
+    it(
+      "times out an endless chain of promise jobs",
+      async () => {
+        const [result] = await runInSandbox([ADD], ["const spin = () => Promise.resolve().then(spin); spin()"]);
+
+        expect(result.passed).toBe(false);
+        expect(result.error).toMatch(/timed out/i);
+      },
+      SLOW_TEST_MS
+    );
+
+    it(
+      "times out a busy loop while loading",
+      async () => {
+        const results = await runInSandbox(["for (;;) {}"], ["1"]);
+
+        expect(results[0].passed).toBe(false);
+        expect(results[0].error).toMatch(/^Code failed to load: .*timed out/i);
+      },
+      SLOW_TEST_MS
+    );
+
+    it(
+      "stops a script that exhausts its memory",
+      async () => {
+        const [result] = await runInSandbox([ADD], ["const hoard = []; while (true) hoard.push(new Array(1e6).fill(1))"]);
+
+        expect(result).toEqual({ passed: false, error: "Ran out of memory" });
+      },
+      SLOW_TEST_MS
+    );
+  });
+});
@@ -0,0 +1,312 @@
+import { Worker } from "node:worker_threads";
+
+/**
+ * Time one script (a code block or a test) may run, including the promise
+ * jobs it queues
+ */
+export const SANDBOX_TIMEOUT_MS = 1000;
+
+// Allowance for starting the worker, on top of the scripts' own time
+const WORKER_STARTUP_MS = 2000;
+
+const RESOURCE_LIMITS = {
+  maxOldGenerationSizeMb: 64,
+  maxYoungGenerationSizeMb: 16,
+  codeRangeSizeMb: 16,
+  stackSizeMb: 4,
+};
+
+export interface SandboxResult {
+  passed: boolean;
+  error?: string;
+}
+
+/**
+ * Set up inside the context before any untrusted code: a silent console,
+ * CommonJS `module`/`exports`, a small `assert`, and the harness the worker
+ * uses to settle test results. Everything here is created in the context,
+ * so the code can reach nothing of the host through it.
+ */
+const PRELUDE = String.raw`
+(() => {
+  const noop = () => {};
+  globalThis.console = { log: noop, info: noop, warn: noop, error: noop, debug: noop };
+  globalThis.module = { exports: {} };
+  globalThis.exports = globalThis.module.exports;
+
+  const describe = (error) => {
+    try {
+      return String(error !== null && typeof error === "object" && "message" in error ? error.message : error);
+    } catch (_) {
+      return "Unknown error";
+    }
+  };
+
+  const inspect = (value) => {
+    try {
+      if (typeof value === "string") return JSON.stringify(value);
+      if (typeof value === "bigint") return value + "n";
+      if (typeof value === "function") return "[Function" + (value.name ? ": " + value.name : "") + "]";
+      if (typeof value === "object" && value !== null) return JSON.stringify(value) || String(value);
+      return String(value);
+    } catch (_) {
+      return "[value]";
+    }
+  };
+
+  class AssertionError extends Error {
+    constructor(message) {
+      super(message);
+      this.name = "AssertionError";
+    }
+  }
+
+  const fail = (message, fallback) => {
+    if (message instanceof Error) throw message;
+    throw new AssertionError(message === undefined ? fallback : String(message));
+  };
+
+  const looseEqual = (a, b) => a == b || (a !== a && b !== b);
+
+  const isDeepEqual = (a, b, strict, seen) => {
+    if (strict ? Object.is(a, b) : looseEqual(a, b)) return true;
+    if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+    if (strict && Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+    if (a instanceof Date || b instanceof Date) {
+      return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+    }
+    if (a instanceof RegExp || b instanceof RegExp) {
+      return a instanceof RegExp && b instanceof RegExp && String(a) === String(b);
+    }
+
+    seen = seen || new Map();
+    if (seen.get(a) === b) return true;
+    seen.set(a, b);
+
+    if (a instanceof Map || b instanceof Map) {
+      if (!(a instanceof Map && b instanceof Map) || a.size !== b.size) return false;
+      for (const [key, value] of a) {
+        if (!b.has(key) || !isDeepEqual(value, b.get(key), strict, seen)) return false;
+      }
+      return true;
+    }
+    if (a instanceof Set || b instanceof Set) {
+      if (!(a instanceof Set && b instanceof Set) || a.size !== b.size) return false;
+      for (const value of a) {
+        if (!b.has(value)) return false;
+      }
+      return true;
+    }
+
+    const keys = Object.keys(a);
+    if (keys.length !== Object.keys(b).length) return false;
+    return keys.every((key) => Object.prototype.hasOwnProperty.call(b, key) && isDeepEqual(a[key], b[key], strict, seen));
+  };
+
+  const errorMatches = (error, expected) => {
+    if (expected === undefined) return true;
+    if (expected instanceof RegExp) return expected.test(describe(error)) || expected.test(String(error));
+    if (typeof expected === "function") {
+      if (expected.prototype !== undefined && error instanceof expected) return true;
+      if (expected === Error || Error.isPrototypeOf(expected)) return false;
+      return expected(error) === true;
+    }
+    if (typeof expected === "object" && expected !== null) {
+      return Object.keys(expected).every((key) =>
+        expected[key] instanceof RegExp && typeof error[key] === "string"
+          ? expected[key].test(error[key])
+          : isDeepEqual(error[key], expected[key], true)
+      );
+    }
+    return false;
+  };
+
+  const assert = (value, message) => {
+    if (!value) fail(message, "The expression evaluated to a falsy value: " + inspect(value));
+  };
+  assert.ok = assert;
+  assert.AssertionError = AssertionError;
+  assert.fail = (message) => fail(message, "Failed");
+  assert.equal = (actual, expected, message) => {
+    if (!looseEqual(actual, expected)) fail(message, inspect(actual) + " == " + inspect(expected));
+  };
+  assert.notEqual = (actual, expected, message) => {
+    if (looseEqual(actual, expected)) fail(message, inspect(actual) + " != " + inspect(expected));
+  };
+  assert.strictEqual = (actual, expected, message) => {
+    if (!Object.is(actual, expected)) {
+      fail(message, "Expected values to be strictly equal: " + inspect(actual) + " !== " + inspect(expected));
+    }
+  };
+  assert.notStrictEqual = (actual, expected, message) => {
+    if (Object.is(actual, expected)) fail(message, "Expected values to differ: " + inspect(actual));
+  };
+  assert.deepEqual = (actual, expected, message) => {
+    if (!isDeepEqual(actual, expected, false)) fail(message, "Expected values to be loosely deep-equal: " + inspect(actual) + " vs " + inspect(expected));
+  };
+  assert.deepStrictEqual = (actual, expected, message) => {
+    if (!isDeepEqual(actual, expected, true)) fail(message, "Expected values to be strictly deep-equal: " + inspect(actual) + " vs " + inspect(expected));
+  };
+  assert.notDeepStrictEqual = (actual, expected, message) => {
+    if (isDeepEqual(actual, expected, true)) fail(message, "Expected values not to be strictly deep-equal: " + inspect(actual));
+  };
+  assert.match = (string, regexp, message) => {
+    if (typeof string !== "string" || !regexp.test(string)) fail(message, inspect(string) + " does not match " + String(regexp));
+  };
+  assert.doesNotMatch = (string, regexp, message) => {
+    if (typeof string !== "string" || regexp.test(string)) fail(message, inspect(string) + " matches " + String(regexp));
+  };
+  assert.throws = (fn, expected, message) => {
+    if (typeof expected === "string") [message, expected] = [expected, undefined];
+    try {
+      fn();
+    } catch (error) {
+      if (!errorMatches(error, expected)) fail(message, "The error did not match: " + describe(error));
+      return;
+    }
+    fail(message, "Missing expected exception.");
+  };
+  assert.doesNotThrow = (fn, message) => {
+    try {
+      fn();
+    } catch (error) {
+      fail(message, "Got unwanted exception: " + describe(error));
+    }
+  };
+  assert.rejects = async (promiseOrFn, expected, message) => {
+    if (typeof expected === "string") [message, expected] = [expected, undefined];
+    try {
+      await (typeof promiseOrFn === "function" ? promiseOrFn() : promiseOrFn);
+    } catch (error) {
+      if (!errorMatches(error, expected)) fail(message, "The rejection did not match: " + describe(error));
+      return;
+    }
+    fail(message, "Missing expected rejection.");
+  };
+  globalThis.assert = assert;
+
+  let current = 0;
+  let state = "idle";
+  let failure = "";
+  return {
+    describe,
+    settle(value) {
+      const id = ++current;
+      state = "pending";
+      failure = "";
+      Promise.resolve(value).then(
+        () => {
+          if (id === current) state = "passed";
+        },
+        (error) => {
+          if (id !== current) return;
+          state = "failed";
+          failure = describe(error);
+        }
+      );
+    },
+    state: () => state,
+    failure: () => failure,
+  };
+})()
+`;
+
+/**
+ * The worker: loads the blocks into a fresh context, then runs each test
+ * and posts its result. Host values never go into the context; errors
+ * raised by the host (timeouts) are read on the host side and context
+ * values are only described from inside it. With microtaskMode
+ * "afterEvaluate" the promise jobs a script queues run within its timeout.
+ */
+const WORKER_SOURCE = String.raw`
+const { parentPort, workerData } = require("node:worker_threads");
+const vm = require("node:vm");
+
+const { prelude, sources, tests, timeout } = workerData;
+const context = vm.createContext(Object.create(null), {
+  codeGeneration: { strings: false, wasm: false },
+  microtaskMode: "afterEvaluate",
+});
+const run = (code) => vm.runInContext(code, context, { timeout });
+const harness = run(prelude);
+
+const describe = (error) => (error instanceof Error ? error.message : harness.describe(error));
+
+let loaded = true;
+try {
+  for (const source of sources) run(source);
+} catch (error) {
+  loaded = false;
+  parentPort.postMessage({ type: "loadError", error: String(describe(error)) });
+}
+
+for (let index = 0; loaded && index < tests.length; index++) {
+  let result;
+  try {
+    harness.settle(run(tests[index]));
+    // Flush the promise jobs settle queued, still under the timeout
+    run("undefined");
+    const state = harness.state();
+    result =
+      state === "passed"
+        ? { passed: true }
+        : { passed: false, error: state === "failed" ? String(harness.failure()) : "The returned promise never settled" };
+  } catch (error) {
+    result = { passed: false, error: String(describe(error)) };
+  }
+  parentPort.postMessage({ type: "result", index, ...result });
+}
+`;
+
+/**
+ * Load scripts into a sandbox and run test scripts against them, one
+ * result per test
+ *
+ * The scripts run in a worker thread with capped memory, no environment
+ * variables, and a vm context that holds nothing from the host: no
+ * `require`, `process`, timers or network. Each script may run for
+ * SANDBOX_TIMEOUT_MS; the worker is terminated if it outlives its overall
+ * deadline, e.g. when hung. Every test fails when the scripts do not load.
+ */
+export function runInSandbox(sources: string[], tests: string[]): Promise<SandboxResult[]> {
+  const results: (SandboxResult | undefined)[] = tests.map(() => undefined);
+  const deadline = WORKER_STARTUP_MS + SANDBOX_TIMEOUT_MS * (sources.length + 2 * tests.length);
+
+  return new Promise((resolve) => {
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { prelude: PRELUDE, sources, tests, timeout: SANDBOX_TIMEOUT_MS },
+      resourceLimits: RESOURCE_LIMITS,
+      env: {},
+      stdout: true,
+      stderr: true,
+    });
+
+    let finished = false;
+    const finish = (error: string) => {
+      if (finished) return;
+      finished = true;
+      clearTimeout(timer);
+      void worker.terminate();
+      resolve(results.map((result) => result ?? { passed: false, error }));
+    };
+
+    const timer = setTimeout(() => finish(`Timed out after ${deadline}ms`), deadline);
+
+    worker.on("message", (message: { type: string; index?: number; passed?: boolean; error?: string }) => {
+      if (message.type === "loadError") {
+        finish(`Code failed to load: ${message.error}`);
+      } else if (message.type === "result" && typeof message.index === "number") {
+        results[message.index] = message.passed ? { passed: true } : { passed: false, error: message.error };
+        if (results.every((result) => result !== undefined)) {
+          finish("");
+        }
+      }
+    });
+    worker.on("error", (error: Error & { code?: string }) =>
+      finish(error.code === "ERR_WORKER_OUT_OF_MEMORY" ? "Ran out of memory" : error.message)
+    );
+    worker.on("exit", () => finish("The sandbox stopped before the test finished"));
+  });
+}
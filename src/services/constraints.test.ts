@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { Constraint } from "@/types";
+import { checkConstraint, describeConstraint, extractConstraints, resolveConstraints } from "./constraints";
+
+describe("extractConstraints", () => {
+  it.each<[string, Constraint]>([
+    ["Explain caching in under 100 words.", { type: "wordCount", max: 99 }],
+    ["Answer in at most 50 words.", { type: "wordCount", max: 50 }],
+    ["Write a 200-word summary.", { type: "wordCount", max: 200 }],
+    ["Write exactly 40 words.", { type: "wordCount", min: 40, max: 40 }],
+    ["Write about 100 words.", { type: "wordCount", min: 80, max: 120 }],
+    ["Use more than 30 words.", { type: "wordCount", min: 31 }],
+    ["List the steps in exactly three bullet points.", { type: "bulletCount", min: 3, max: 3 }],
+    ["Give 5 bullets or fewer.", { type: "bulletCount", max: 5 }],
+    ["Answer in a single sentence.", { type: "sentenceCount", min: 1, max: 1 }],
+    ["Write at least two paragraphs.", { type: "paragraphCount", min: 2 }],
+  ])("reads %j", (prompt, constraint) => {
+    expect(extractConstraints(prompt)).toEqual([constraint]);
+  });
+
+  it("combines bounds stated separately", () => {
+    expect(extractConstraints("Use at least 50 words and no more than 80 words.")).toEqual([
+      { type: "wordCount", min: 50, max: 80 },
+    ]);
+  });
+
+  it("finds JSON, inclusion, exclusion and case instructions", () => {
+    expect(
+      extractConstraints('Respond in JSON. You must include "cache-control". Do not mention Redis. Write in lowercase.')
+    ).toEqual([
+      { type: "json" },
+      { type: "includes", text: "cache-control" },
+      { type: "excludes", text: "Redis" },
+      { type: "case", case: "lower" },
+    ]);
+  });
+
+  it("reads quoted exclusions and uppercase instructions", () => {
+    expect(extractConstraints('Never use the word "basically". Answer in all caps.')).toEqual([
+      { type: "excludes", text: "basically" },
+      { type: "case", case: "upper" },
+    ]);
+  });
+
+  it("finds nothing in a prompt without hard instructions", () => {
+    expect(extractConstraints("Explain how HTTP caching works.")).toEqual([]);
+  });
+});
+
+describe("resolveConstraints", () => {
+  it("prefers declared constraints, and an empty list disables extraction", () => {
+    const declared: Constraint[] = [{ type: "json" }];
+
+    expect(resolveConstraints("Answer in under 10 words.", { constraints: declared })).toBe(declared);
+    expect(resolveConstraints("Answer in under 10 words.", { constraints: [] })).toEqual([]);
+    expect(resolveConstraints("Answer in under 10 words.")).toEqual([{ type: "wordCount", max: 9 }]);
+  });
+});
+
+describe("checkConstraint", () => {
+  it("counts words without list markers", () => {
+    const result = checkConstraint("- one two\n- three four five", { type: "wordCount", max: 5 });
+
+    expect(result).toMatchObject({ passed: true, actual: "5 words", description: "At most 5 words" });
+    expect(checkConstraint("one two three", { type: "wordCount", min: 4 })).toMatchObject({
+      passed: false,
+      actual: "3 words",
+    });
+  });
+
+  it("counts bullet points and paragraphs", () => {
+    const response = "Intro paragraph.\n\n- first\n- second\n- third\n\nClosing paragraph.";
+
+    expect(checkConstraint(response, { type: "bulletCount", min: 3, max: 3 })).toMatchObject({
+      passed: true,
+      actual: "3 bullet points",
+    });
+    expect(checkConstraint(response, { type: "paragraphCount", max: 2 })).toMatchObject({
+      passed: false,
+      actual: "3 paragraphs",
+    });
+  });
+
+  it("counts sentences without splitting on abbreviations or decimals", () => {
+    expect(
+      checkConstraint("Dr. Smith measured 3.5 seconds. The cache helped.", { type: "sentenceCount", min: 2, max: 2 })
+    ).toMatchObject({ passed: true, actual: "2 sentences" });
+  });
+
+  it("accepts JSON objects, including fenced ones, but not bare values", () => {
+    expect(checkConstraint('```json\n{"ok": true}\n```', { type: "json" }).passed).toBe(true);
+    expect(checkConstraint("[1, 2]", { type: "json" }).passed).toBe(true);
+    expect(checkConstraint("42", { type: "json" })).toMatchObject({ passed: false, actual: "Not valid JSON" });
+    expect(checkConstraint("{ broken", { type: "json" }).passed).toBe(false);
+  });
+
+  it("matches phrases as whole words, ignoring case", () => {
+    expect(checkConstraint("Use Redis. REDIS is fast.", { type: "includes", text: "redis" })).toMatchObject({
+      passed: true,
+      actual: "Mentioned 2×",
+    });
+    expect(checkConstraint("Rediscover the cache.", { type: "excludes", text: "Redis" })).toMatchObject({
+      passed: true,
+      actual: "Not mentioned",
+    });
+    expect(checkConstraint("Set max-age (in seconds).", { type: "includes", text: "max-age (in" }).passed).toBe(true);
+  });
+
+  it("checks letter case, ignoring digits and punctuation", () => {
+    expect(checkConstraint("all lower, 100% of it.", { type: "case", case: "lower" }).passed).toBe(true);
+    expect(checkConstraint("Not lower.", { type: "case", case: "lower" }).passed).toBe(false);
+    expect(checkConstraint("ÉCOLE 42!", { type: "case", case: "upper" }).passed).toBe(true);
+  });
+});
+
+describe("describeConstraint", () => {
+  it("phrases count bounds", () => {
+    expect(describeConstraint({ type: "sentenceCount", min: 1, max: 1 })).toBe("Exactly 1 sentence");
+    expect(describeConstraint({ type: "wordCount", min: 50, max: 80 })).toBe("Between 50 and 80 words");
+    expect(describeConstraint({ type: "bulletCount", min: 2 })).toBe("At least 2 bullet points");
+    expect(describeConstraint({ type: "excludes", text: "Redis" })).toBe("Does not mention “Redis”");
+  });
+});
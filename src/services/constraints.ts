@@ -0,0 +1,238 @@
+import { Constraint, ConstraintResult, ExperimentSettings } from "@/types";
+import { parseJsonResponse } from "@/services/structured-output";
+import { countWords, parseMarkdown, proseSentences } from "@/services/text-analysis";
+
+type CountConstraint = Extract<Constraint, { min?: number; max?: number }>;
+type CountType = CountConstraint["type"];
+
+const COUNT_UNITS: Record<CountType, { singular: string; plural: string; pattern: string }> = {
+  wordCount: { singular: "word", plural: "words", pattern: "words?" },
+  sentenceCount: { singular: "sentence", plural: "sentences", pattern: "sentences?" },
+  bulletCount: { singular: "bullet point", plural: "bullet points", pattern: "bullet[\\s-]?points?|bullets|bulleted items" },
+  paragraphCount: { singular: "paragraph", plural: "paragraphs", pattern: "paragraphs?" },
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  single: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+};
+
+const NUMBER = `(\\d+|a single|single|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)`;
+
+const JSON_INSTRUCTION =
+  /\b(?:in|as|valid|return|output|respond with|reply with|formatted as|format as)\s+(?:an?\s+)?json\b|\bjson (?:format|object|only)\b/;
+
+const CASE_INSTRUCTION = String.raw`\b(?:in|use|using|write in|respond in|answer in|only|entirely in)\s+`;
+const LOWERCASE_INSTRUCTION = new RegExp(String.raw`${CASE_INSTRUCTION}(?:all\s+)?lower[\s-]?case\b`);
+const UPPERCASE_INSTRUCTION = new RegExp(String.raw`${CASE_INSTRUCTION}(?:all\s+caps|all\s+capitals|(?:all\s+)?upper[\s-]?case)\b`);
+
+/**
+ * Constraints an experiment's responses are checked against: the declared
+ * ones, or those found in the prompt when none are declared
+ */
+export function resolveConstraints(prompt: string, settings: ExperimentSettings = {}): Constraint[] {
+  return settings.constraints ?? extractConstraints(prompt);
+}
+
+/**
+ * Find hard constraints stated in a prompt, such as "under 100 words",
+ * "in exactly 3 bullet points", "respond in JSON" or "do not mention X"
+ */
+export function extractConstraints(prompt: string): Constraint[] {
+  const text = prompt.toLowerCase();
+  const constraints: Constraint[] = [];
+
+  for (const type of Object.keys(COUNT_UNITS) as CountType[]) {
+    const bounds = extractCount(text, type);
+    if (bounds) constraints.push({ type, ...bounds });
+  }
+
+  if (JSON_INSTRUCTION.test(text)) {
+    constraints.push({ type: "json" });
+  }
+
+  for (const match of prompt.matchAll(
+    /\b(?:must|should|please)\s+(?:include|mention|contain|use)\s+(?:the\s+(?:word|phrase|term)\s+)?["“']([^"”']+)["”']/gi
+  )) {
+    constraints.push({ type: "includes", text: match[1].trim() });
+  }
+
+  for (const text of extractExclusions(prompt)) {
+    constraints.push({ type: "excludes", text });
+  }
+
+  if (LOWERCASE_INSTRUCTION.test(text)) {
+    constraints.push({ type: "case", case: "lower" });
+  } else if (UPPERCASE_INSTRUCTION.test(text)) {
+    constraints.push({ type: "case", case: "upper" });
+  }
+
+  return constraints;
+}
+
+/**
+ * Check a response against every constraint
+ */
+export function checkConstraints(response: string, constraints: Constraint[]): ConstraintResult[] {
+  return constraints.map((constraint) => checkConstraint(response, constraint));
+}
+
+/**
+ * Check a response against one constraint
+ */
+export function checkConstraint(response: string, constraint: Constraint): ConstraintResult {
+  const description = describeConstraint(constraint);
+
+  switch (constraint.type) {
+    case "wordCount":
+    case "sentenceCount":
+    case "bulletCount":
+    case "paragraphCount": {
+      const count = countUnits(response, constraint.type);
+      const unit = COUNT_UNITS[constraint.type];
+      return {
+        constraint,
+        description,
+        passed: (constraint.min === undefined || count >= constraint.min) &&
+          (constraint.max === undefined || count <= constraint.max),
+        actual: `${count} ${count === 1 ? unit.singular : unit.plural}`,
+      };
+    }
+    case "json": {
+      const valid = isJson(response);
+      return { constraint, description, passed: valid, actual: valid ? "Valid JSON" : "Not valid JSON" };
+    }
+    case "includes":
+    case "excludes": {
+      const occurrences = (response.match(phrasePattern(constraint.text)) || []).length;
+      return {
+        constraint,
+        description,
+        passed: constraint.type === "includes" ? occurrences > 0 : occurrences === 0,
+        actual: occurrences === 0 ? "Not mentioned" : `Mentioned ${occurrences}×`,
+      };
+    }
+    case "case": {
+      const letters = response.replace(/[^\p{L}]/gu, "");
+      const expected = constraint.case === "lower" ? letters.toLowerCase() : letters.toUpperCase();
+      return { constraint, description, passed: letters === expected };
+    }
+  }
+}
+
+/**
+ * Human-readable form of a constraint
+ */
+export function describeConstraint(constraint: Constraint): string {
+  switch (constraint.type) {
+    case "wordCount":
+    case "sentenceCount":
+    case "bulletCount":
+    case "paragraphCount": {
+      const { min, max } = constraint;
+      const { singular, plural } = COUNT_UNITS[constraint.type];
+      const unit = (n: number) => `${n} ${n === 1 ? singular : plural}`;
+      if (min !== undefined && max !== undefined) {
+        return min === max ? `Exactly ${unit(min)}` : `Between ${min} and ${unit(max)}`;
+      }
+      if (max !== undefined) return `At most ${unit(max)}`;
+      if (min !== undefined) return `At least ${unit(min)}`;
+      return `Any number of ${plural}`;
+    }
+    case "json":
+      return "Valid JSON";
+    case "includes":
+      return `Mentions “${constraint.text}”`;
+    case "excludes":
+      return `Does not mention “${constraint.text}”`;
+    case "case":
+      return constraint.case === "lower" ? "All lowercase" : "All uppercase";
+  }
+}
+
+type CountBounds = { min?: number; max?: number };
+
+function extractCount(text: string, type: CountType): CountBounds | null {
+  const pattern = new RegExp(`(?<![\\w-])${NUMBER}[\\s-]+(?:[a-z]+\\s+)?(?:${COUNT_UNITS[type].pattern})\\b(\\s+or\\s+(?:less|fewer|more))?`, "g");
+  let bounds: CountBounds | null = null;
+
+  for (const match of text.matchAll(pattern)) {
+    const n = NUMBER_WORDS[match[1].replace("a single", "single")] ?? Number(match[1]);
+    const before = text.slice(Math.max(0, (match.index ?? 0) - 24), match.index);
+    const after = match[2]?.trim();
+    const next: CountBounds = { ...bounds };
+
+    if (after?.endsWith("more")) {
+      next.min = n;
+    } else if (after) {
+      next.max = n;
+    } else if (/(?:at most|no more than|not more than|up to|maximum(?: of)?|max\.?|within)\s*$/.test(before)) {
+      next.max = n;
+    } else if (/(?:fewer than|less than|under|below)\s*$/.test(before)) {
+      next.max = n - 1;
+    } else if (/(?:at least|no fewer than|no less than|minimum(?: of)?)\s*$/.test(before)) {
+      next.min = n;
+    } else if (/(?:more than|over)\s*$/.test(before)) {
+      next.min = n + 1;
+    } else if (/(?:about|around|approximately|roughly|~)\s*$/.test(before)) {
+      next.min = Math.floor(n * 0.8);
+      next.max = Math.ceil(n * 1.2);
+    } else if (type === "wordCount" && !/exactly\s*$/.test(before)) {
+      // "in 50 words" or "a 200-word summary" set a ceiling, not an exact count
+      next.max = n;
+    } else {
+      next.min = n;
+      next.max = n;
+    }
+
+    bounds = next;
+  }
+
+  return bounds;
+}
+
+function extractExclusions(prompt: string): string[] {
+  const exclusions: string[] = [];
+  const negation = String.raw`\b(?:do not|don't|never|avoid|without)\s+`;
+
+  // Quoted terms after any exclusion verb
+  for (const match of prompt.matchAll(
+    new RegExp(`${negation}(?:mention(?:ing)?|us(?:e|ing)|say(?:ing)?|includ(?:e|ing)|referenc(?:e|ing))\\s+(?:the\\s+(?:word|words|phrase|term)\\s+)?["“']([^"”']+)["”']`, "gi")
+  )) {
+    exclusions.push(match[1].trim());
+  }
+
+  // Unquoted "do not mention X" up to the end of the clause
+  for (const match of prompt.matchAll(
+    new RegExp(`${negation}mention(?:ing)?\\s+(?!["“'])(?:the\\s+|any\\s+|a\\s+|an\\s+)?([^.,;:!?\\n"“]{2,40}?)(?=[.,;:!?\\n]|\\s+(?:and|or|but|in|when|because)\\b|$)`, "gi")
+  )) {
+    exclusions.push(match[1].trim());
+  }
+
+  return [...new Set(exclusions)];
+}
+
+function countUnits(response: string, type: CountType): number {
+  switch (type) {
+    case "wordCount":
+      return countWords(response.replace(/^\s*(?:[-*+•#>]+|\d+[.)])\s+/gm, ""));
+    case "sentenceCount":
+      return proseSentences(response).length;
+    case "bulletCount":
+      return parseMarkdown(response).filter((block) => block.type === "listItem").length;
+    case "paragraphCount":
+      return response.split(/\n\s*\n/).filter((paragraph) => paragraph.trim().length > 0).length;
+  }
+}
+
+function isJson(response: string): boolean {
+  const parsed = parseJsonResponse(response);
+  return parsed.ok && typeof parsed.value === "object" && parsed.value !== null;
+}
+
+function phrasePattern(phrase: string): RegExp {
+  const escaped = phrase.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const start = /^\w/.test(phrase.trim()) ? "\\b" : "";
+  const end = /\w$/.test(phrase.trim()) ? "\\b" : "";
+  return new RegExp(`${start}${escaped}${end}`, "gi");
+}
@@ -1,353 +1,143 @@
-import { Pool, PoolClient } from "pg";
-import { Experiment, LLMResponse, ExperimentRow, ResponseRow, ExperimentSummary } from "@/types";
-
-// Database connection pool
-let pool: Pool | null = null;
+import { getStore } from "@/services/store";
+import {
+  Experiment,
+  ExperimentJob,
+  ExperimentListQuery,
+  ExperimentPage,
+  JobStatus,
+  LLMResponse,
+  ParameterSetStatistics,
+  SearchQuery,
+  SearchResult,
+} from "@/types";
+
+// Experiment and job persistence, delegated to the configured store
+// (see services/store)
 
 /**
- * Get or create PostgreSQL connection pool
+ * Save an experiment with its responses
  */
-function getPool(): Pool {
-  if (pool) {
-    return pool;
-  }
-
-  const connectionString = process.env.DATABASE_URL;
-
-  if (!connectionString) {
-    throw new Error("DATABASE_URL environment variable is not set");
-  }
-
-  pool = new Pool({
-    connectionString,
-    ssl: {
-      rejectUnauthorized: false, // Required for Supabase
-    },
-    // Transaction pooler settings (important for Supabase)
-    max: 20, // Maximum number of clients in the pool
-    idleTimeoutMillis: 30000,
-    connectionTimeoutMillis: 10000,
-  });
-
-  // Test connection and initialize schema
-  testConnection();
-
-  return pool;
+export function saveExperiment(experiment: Experiment): Promise<void> {
+  return getStore().saveExperiment(experiment);
 }
 
 /**
- * Test database connection
+ * Get an experiment by ID with all its responses
  */
-async function testConnection() {
-  if (!pool) return;
-
-  try {
-    const client = await pool.connect();
-    
-    try {
-      // Test query
-      await client.query("SELECT NOW()");
-      console.log("✅ Connected to PostgreSQL database (Supabase Transaction Pooler)");
-      
-      // Initialize schema
-      await initializeSchema(client);
-    } finally {
-      client.release();
-    }
-  } catch (error: any) {
-    console.error("❌ Failed to connect to database:", error.message);
-    throw error;
-  }
+export function getExperiment(id: string): Promise<Experiment | null> {
+  return getStore().getExperiment(id);
 }
 
 /**
- * Initialize database schema
+ * Get a page of experiment summaries, filtered and sorted
  */
-async function initializeSchema(client: any) {
-  try {
-    console.log("🔨 Initializing database schema...");
-
-    // Create experiments table
-    await client.query(`
-      CREATE TABLE IF NOT EXISTS experiments (
-        id TEXT PRIMARY KEY,
-        prompt TEXT NOT NULL,
-        name TEXT,
-        description TEXT,
-        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
-        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
-      )
-    `);
-
-    // Create responses table
-    await client.query(`
-      CREATE TABLE IF NOT EXISTS responses (
-        id TEXT PRIMARY KEY,
-        experiment_id TEXT NOT NULL REFERENCES experiments(id) ON DELETE CASCADE,
-        content TEXT NOT NULL,
-        temperature REAL NOT NULL,
-        top_p REAL NOT NULL,
-        coherence INTEGER NOT NULL,
-        completeness INTEGER NOT NULL,
-        readability INTEGER NOT NULL,
-        length_appropriateness INTEGER NOT NULL,
-        structural_quality INTEGER NOT NULL,
-        overall_score INTEGER NOT NULL,
-        token_count INTEGER NOT NULL,
-        model TEXT NOT NULL,
-        generated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
-      )
-    `);
-
-    // Create index for faster queries
-    await client.query(`
-      CREATE INDEX IF NOT EXISTS idx_responses_experiment_id 
-      ON responses(experiment_id)
-    `);
-
-    await client.query(`
-      CREATE INDEX IF NOT EXISTS idx_experiments_created_at 
-      ON experiments(created_at DESC)
-    `);
-
-    console.log("✅ Database schema initialized successfully");
-  } catch (error: any) {
-    console.error("❌ Error initializing database schema:", error.message);
-    throw error;
-  }
+export function listExperiments(query: ExperimentListQuery): Promise<ExperimentPage> {
+  return getStore().listExperiments(query);
 }
 
 /**
- * Save an experiment with its responses
+ * Full-text search over experiment names, descriptions, prompts and
+ * response content
  */
-export async function saveExperiment(experiment: Experiment): Promise<void> {
-  const client = await getPool().connect();
-
-  try {
-    await client.query("BEGIN");
-
-    // Insert experiment
-    await client.query(
-      `INSERT INTO experiments (id, prompt, name, description, created_at, updated_at)
-       VALUES ($1, $2, $3, $4, $5, $6)`,
-      [
-        experiment.id,
-        experiment.prompt,
-        experiment.name || null,
-        experiment.description || null,
-        experiment.createdAt,
-        experiment.updatedAt,
-      ]
-    );
-
-    // Insert responses
-    for (const response of experiment.responses) {
-      await client.query(
-        `INSERT INTO responses (
-          id, experiment_id, content, temperature, top_p,
-          coherence, completeness, readability, length_appropriateness,
-          structural_quality, overall_score, token_count, model, generated_at
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
-        [
-          response.id,
-          experiment.id,
-          response.content,
-          response.parameters.temperature,
-          response.parameters.topP,
-          response.metrics.coherence,
-          response.metrics.completeness,
-          response.metrics.readability,
-          response.metrics.lengthAppropriatenss,
-          response.metrics.structuralQuality,
-          response.metrics.overall,
-          response.tokenCount,
-          response.model,
-          response.generatedAt,
-        ]
-      );
-    }
-
-    await client.query("COMMIT");
-    console.log(`✅ Saved experiment ${experiment.id} with ${experiment.responses.length} responses`);
-  } catch (error: any) {
-    await client.query("ROLLBACK");
-    console.error("❌ Error saving experiment:", error.message);
-    throw error;
-  } finally {
-    client.release();
-  }
+export function searchExperiments(query: SearchQuery): Promise<SearchResult[]> {
+  return getStore().searchExperiments(query);
 }
 
 /**
- * Get an experiment by ID with all its responses
+ * Update an experiment
  */
-export async function getExperiment(id: string): Promise<Experiment | null> {
-  const client = await getPool().connect();
-
-  try {
-    // Get experiment
-    const expResult = await client.query(
-      "SELECT * FROM experiments WHERE id = $1",
-      [id]
-    );
-
-    if (expResult.rows.length === 0) {
-      return null;
-    }
+export function updateExperiment(
+  id: string,
+  updates: Partial<Pick<Experiment, "name" | "description">>
+): Promise<void> {
+  return getStore().updateExperiment(id, updates);
+}
 
-    const expRow = expResult.rows[0];
+/**
+ * Store the aggregated per-parameter-set statistics of an experiment
+ */
+export function updateExperimentStatistics(id: string, statistics: ParameterSetStatistics[]): Promise<void> {
+  return getStore().updateExperimentStatistics(id, statistics);
+}
 
-    // Get responses
-    const respResult = await client.query(
-      "SELECT * FROM responses WHERE experiment_id = $1 ORDER BY generated_at ASC",
-      [id]
-    );
+/**
+ * Delete an experiment and all its responses
+ */
+export function deleteExperiment(id: string): Promise<void> {
+  return getStore().deleteExperiment(id);
+}
 
-    const responses: LLMResponse[] = respResult.rows.map((row) => ({
-      id: row.id,
-      content: row.content,
-      parameters: {
-        temperature: row.temperature,
-        topP: row.top_p,
-      },
-      metrics: {
-        coherence: row.coherence,
-        completeness: row.completeness,
-        readability: row.readability,
-        lengthAppropriatenss: row.length_appropriateness,
-        structuralQuality: row.structural_quality,
-        overall: row.overall_score,
-      },
-      generatedAt: new Date(row.generated_at),
-      tokenCount: row.token_count,
-      model: row.model,
-    }));
+/**
+ * Save a new job with its tasks
+ */
+export function saveJob(job: ExperimentJob): Promise<void> {
+  return getStore().saveJob(job);
+}
 
-    return {
-      id: expRow.id,
-      prompt: expRow.prompt,
-      responses,
-      createdAt: new Date(expRow.created_at),
-      updatedAt: new Date(expRow.updated_at),
-      name: expRow.name,
-      description: expRow.description,
-    };
-  } finally {
-    client.release();
-  }
+/**
+ * Get a job by ID with per-task progress
+ */
+export function getJob(id: string): Promise<ExperimentJob | null> {
+  return getStore().getJob(id);
 }
 
 /**
- * Get all experiments (summary view)
+ * Get IDs of jobs that have not finished yet
  */
-export async function getAllExperiments(): Promise<ExperimentSummary[]> {
-  const client = await getPool().connect();
+export function getUnfinishedJobIds(): Promise<string[]> {
+  return getStore().getUnfinishedJobIds();
+}
 
-  try {
-    const result = await client.query(`
-      SELECT 
-        e.id,
-        e.name,
-        e.prompt,
-        e.created_at,
-        COUNT(r.id) as response_count,
-        MAX(r.overall_score) as best_score,
-        (SELECT temperature FROM responses 
-         WHERE experiment_id = e.id 
-         ORDER BY overall_score DESC LIMIT 1) as best_temperature,
-        (SELECT top_p FROM responses 
-         WHERE experiment_id = e.id 
-         ORDER BY overall_score DESC LIMIT 1) as best_top_p
-      FROM experiments e
-      LEFT JOIN responses r ON e.id = r.experiment_id
-      GROUP BY e.id, e.name, e.prompt, e.created_at
-      ORDER BY e.created_at DESC
-    `);
+/**
+ * Update a job's status
+ */
+export function updateJobStatus(id: string, status: JobStatus, error?: string): Promise<void> {
+  return getStore().updateJobStatus(id, status, error);
+}
 
-    return result.rows.map((row) => ({
-      id: row.id,
-      name: row.name || undefined,
-      prompt: row.prompt,
-      responseCount: parseInt(row.response_count),
-      createdAt: new Date(row.created_at),
-      bestResponse:
-        row.best_score !== null
-          ? {
-              parameters: {
-                temperature: parseFloat(row.best_temperature),
-                topP: parseFloat(row.best_top_p),
-              },
-              overallScore: parseInt(row.best_score),
-            }
-          : undefined,
-    }));
-  } finally {
-    client.release();
-  }
+/**
+ * Atomically claim a pending task so only one worker runs it
+ */
+export function claimJobTask(jobId: string, index: number): Promise<boolean> {
+  return getStore().claimJobTask(jobId, index);
 }
 
 /**
- * Update an experiment
+ * Store a task's response and mark the task completed
  */
-export async function updateExperiment(
-  id: string,
-  updates: Partial<Pick<Experiment, "name" | "description">>
+export function completeJobTask(
+  jobId: string,
+  index: number,
+  experimentId: string,
+  response: LLMResponse
 ): Promise<void> {
-  const client = await getPool().connect();
-
-  try {
-    const fields: string[] = [];
-    const values: any[] = [];
-    let paramIndex = 1;
-
-    if (updates.name !== undefined) {
-      fields.push(`name = $${paramIndex++}`);
-      values.push(updates.name);
-    }
-
-    if (updates.description !== undefined) {
-      fields.push(`description = $${paramIndex++}`);
-      values.push(updates.description);
-    }
-
-    fields.push(`updated_at = $${paramIndex++}`);
-    values.push(new Date());
-
-    values.push(id);
-
-    await client.query(
-      `UPDATE experiments SET ${fields.join(", ")} WHERE id = $${paramIndex}`,
-      values
-    );
-
-    console.log(`✅ Updated experiment ${id}`);
-  } finally {
-    client.release();
-  }
+  return getStore().completeJobTask(jobId, index, experimentId, response);
 }
 
 /**
- * Delete an experiment and all its responses
+ * Mark a task as failed
  */
-export async function deleteExperiment(id: string): Promise<void> {
-  const client = await getPool().connect();
+export function failJobTask(jobId: string, index: number, error: string): Promise<void> {
+  return getStore().failJobTask(jobId, index, error);
+}
 
-  try {
-    await client.query("DELETE FROM experiments WHERE id = $1", [id]);
-    console.log(`✅ Deleted experiment ${id}`);
-  } finally {
-    client.release();
-  }
+/**
+ * Record that a running task's worker is still alive
+ */
+export function touchJobTask(jobId: string, index: number): Promise<void> {
+  return getStore().touchJobTask(jobId, index);
 }
 
 /**
- * Close database connection pool (for graceful shutdown)
+ * Return tasks stuck in 'running' (e.g. after a crash) to 'pending'
  */
-export async function closeDatabasePool(): Promise<void> {
-  if (pool) {
-    await pool.end();
-    pool = null;
-    console.log("👋 Database connection pool closed");
-  }
+export function resetStaleJobTasks(staleAfterMs: number): Promise<number> {
+  return getStore().resetStaleJobTasks(staleAfterMs);
 }
 
+/**
+ * Close the store's connections (for graceful shutdown)
+ */
+export function closeDatabasePool(): Promise<void> {
+  return getStore().close();
+}
@@ -0,0 +1,217 @@
+import { deflateRawSync } from "node:zlib";
+import { DegenerateSpan, DegenerationReport } from "@/types";
+import { clamp } from "@/lib/utils";
+import { parseMarkdown } from "@/services/text-analysis";
+
+// Longest phrase checked for back-to-back loops, in words
+const MAX_LOOP_WORDS = 12;
+
+// Phrase length and count at which a non-adjacent repeat counts as looping
+const REPEATED_PHRASE_WORDS = 5;
+const REPEATED_PHRASE_MIN_COUNT = 3;
+
+// Compression ratios are meaningless for short texts
+const MIN_COMPRESSIBLE_CHARS = 200;
+
+const VOWELS = /[aeiouy]/;
+
+interface Token {
+  text: string; // Normalized: lowercase, without surrounding punctuation
+  start: number;
+  end: number;
+}
+
+/**
+ * Detect looping, repeated phrases and gibberish in a response
+ *
+ * Code blocks are left out, since code repeats itself legitimately. The
+ * score starts at 100 and loses points for the share of words inside
+ * repeated spans, low distinct-2 ratios, high compression ratios and
+ * tokens that do not look like words.
+ */
+export function analyzeDegeneration(response: string): DegenerationReport | null {
+  const tokens = tokenize(response);
+  if (tokens.length < 10) return null;
+
+  const words = tokens.map((token) => token.text);
+  const loopedTokens = findLoopedTokens(words);
+  const nonWords = tokens.filter((token) => isNonWord(response.slice(token.start, token.end)));
+
+  const prose = tokens.map((token) => response.slice(token.start, token.end)).join(" ");
+  const report = {
+    distinct1: distinctN(words, 1),
+    distinct2: distinctN(words, 2),
+    distinct3: distinctN(words, 3),
+    repeatedShare: loopedTokens.size / tokens.length,
+    compressionRatio: compressionRatio(prose),
+    nonWordRate: nonWords.length / tokens.length,
+  };
+
+  const repetitionPenalty = Math.max(
+    clamp(report.repeatedShare * 1.5, 0, 1),
+    clamp((0.75 - report.distinct2) / 0.5, 0, 1),
+    prose.length >= MIN_COMPRESSIBLE_CHARS ? clamp((report.compressionRatio - 3) / 4, 0, 1) : 0
+  );
+  const gibberishPenalty = clamp((report.nonWordRate - 0.03) / 0.2, 0, 1);
+
+  return {
+    ...report,
+    score: 100 * (1 - repetitionPenalty) * (1 - gibberishPenalty),
+    spans: [
+      ...toSpans(response, tokens, loopedTokens, "repetition"),
+      ...nonWords.map((token) => ({
+        kind: "gibberish" as const,
+        start: token.start,
+        text: response.slice(token.start, token.end),
+      })),
+    ].sort((a, b) => a.start - b.start),
+  };
+}
+
+/**
+ * Share of n-grams that are unique; 1 when every n-gram differs
+ */
+export function distinctN(words: string[], n: number): number {
+  const total = words.length - n + 1;
+  if (total <= 0) return 1;
+
+  const ngrams = new Set<string>();
+  for (let i = 0; i < total; i++) {
+    ngrams.add(words.slice(i, i + n).join(" "));
+  }
+  return ngrams.size / total;
+}
+
+/**
+ * Original size over DEFLATE-compressed size; looping text compresses far
+ * better than ordinary prose (around 2-3)
+ */
+export function compressionRatio(text: string): number {
+  const bytes = Buffer.byteLength(text);
+  if (bytes === 0) return 1;
+  return bytes / deflateRawSync(text, { level: 9 }).length;
+}
+
+/**
+ * Whether a token looks like gibberish rather than a word
+ *
+ * There is no dictionary lookup; letters-only tokens are checked for shapes
+ * English words do not take: no vowels, long consonant runs, a letter three
+ * times in a row, "q" without "u", implausible length, or Latin letters
+ * mixed with another script. Numbers, code, URLs and acronyms are never
+ * flagged.
+ */
+export function isNonWord(token: string): boolean {
+  const word = token.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, "");
+  if (word.length < 3) return false;
+
+  if (/\p{Script=Latin}/u.test(word) && /[^\p{Script=Latin}\P{L}]/u.test(word)) return true;
+  if (!/^[A-Za-z]+(?:['’-][A-Za-z]+)*$/.test(word)) return false;
+  if (/^[A-Z]+s?$/.test(word) && word.length <= 6) return false;
+
+  const lower = word.toLowerCase();
+  return lower.split(/['’-]/).some(
+    (part) =>
+      part.length > 22 ||
+      (part.length > 3 && !VOWELS.test(part)) ||
+      /[^aeiouy'’-]{6,}/.test(part) ||
+      /([a-z])\1\1/.test(part) ||
+      /q(?!u|$)/.test(part)
+  );
+}
+
+function tokenize(response: string): Token[] {
+  const codeRanges = parseMarkdown(response)
+    .filter((block) => block.type === "code")
+    .map((block) => [block.start, block.end]);
+
+  const tokens: Token[] = [];
+  for (const match of response.matchAll(/\S+/g)) {
+    const start = match.index ?? 0;
+    if (codeRanges.some(([from, to]) => start >= from && start < to)) continue;
+
+    const text = match[0].toLowerCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, "");
+    if (text) tokens.push({ text, start, end: start + match[0].length });
+  }
+  return tokens;
+}
+
+/**
+ * Indexes of words that repeat what came before: back-to-back loops of a
+ * phrase, and later copies of phrases used three or more times
+ */
+function findLoopedTokens(words: string[]): Set<number> {
+  const looped = new Set<number>();
+
+  // Back-to-back loops: "the the the" or "I think that. I think that."
+  for (let n = 1; n <= MAX_LOOP_WORDS; n++) {
+    const minRepeats = n <= 2 ? 3 : 2;
+    let i = 0;
+    while (i + 2 * n <= words.length) {
+      let repeats = 1;
+      while (
+        i + (repeats + 1) * n <= words.length &&
+        sameWords(words, i, i + repeats * n, n)
+      ) {
+        repeats++;
+      }
+
+      if (repeats >= minRepeats) {
+        for (let j = i + n; j < i + repeats * n; j++) looped.add(j);
+        i += repeats * n;
+      } else {
+        i++;
+      }
+    }
+  }
+
+  // The same phrase coming back again and again, not necessarily adjacent
+  const seen = new Map<string, number[]>();
+  for (let i = 0; i + REPEATED_PHRASE_WORDS <= words.length; i++) {
+    const phrase = words.slice(i, i + REPEATED_PHRASE_WORDS).join(" ");
+    const starts = seen.get(phrase);
+    if (starts) starts.push(i);
+    else seen.set(phrase, [i]);
+  }
+  for (const starts of seen.values()) {
+    if (starts.length < REPEATED_PHRASE_MIN_COUNT) continue;
+    for (const start of starts.slice(1)) {
+      for (let j = start; j < start + REPEATED_PHRASE_WORDS; j++) looped.add(j);
+    }
+  }
+
+  return looped;
+}
+
+function sameWords(words: string[], a: number, b: number, n: number): boolean {
+  for (let k = 0; k < n; k++) {
+    if (words[a + k] !== words[b + k]) return false;
+  }
+  return true;
+}
+
+/**
+ * Merge runs of flagged tokens into spans of the original text
+ */
+function toSpans(
+  response: string,
+  tokens: Token[],
+  flagged: Set<number>,
+  kind: DegenerateSpan["kind"]
+): DegenerateSpan[] {
+  const spans: DegenerateSpan[] = [];
+  let runStart = -1;
+
+  for (let i = 0; i <= tokens.length; i++) {
+    if (flagged.has(i)) {
+      if (runStart === -1) runStart = i;
+      continue;
+    }
+    if (runStart !== -1) {
+      const start = tokens[runStart].start;
+      spans.push({ kind, start, text: response.slice(start, tokens[i - 1].end) });
+      runStart = -1;
+    }
+  }
+  return spans;
+}
@@ -0,0 +1,198 @@
+import { DiversityReport, LLMResponse, ResponseSimilarity, TemperatureDiversity } from "@/types";
+import { average } from "@/lib/utils";
+import { bleu, tokenize } from "@/services/reference-metrics";
+
+export interface DiversityOptions {
+  threshold?: number; // TF-IDF cosine at or above which two responses are near-duplicates
+}
+
+/**
+ * Compare every pair of responses in an experiment
+ *
+ * Pairwise Jaccard, TF-IDF cosine and self-BLEU are averaged per
+ * temperature, alongside distinct-n over the pooled responses, to show how
+ * diversity changes with temperature. Near-duplicates are grouped by
+ * single-linkage clustering on cosine similarity.
+ */
+export function analyzeDiversity(responses: LLMResponse[], options: DiversityOptions = {}): DiversityReport {
+  const { threshold = 0.9 } = options;
+
+  const tokens = responses.map((response) => tokenize(response.content));
+  const vectors = tfidfVectors(tokens);
+
+  const pairs: ResponseSimilarity[] = [];
+  for (let i = 0; i < responses.length; i++) {
+    for (let j = i + 1; j < responses.length; j++) {
+      pairs.push({
+        a: i,
+        b: j,
+        jaccard: round(jaccard(tokens[i], tokens[j])),
+        cosine: round(cosine(vectors[i], vectors[j])),
+        selfBleu: round(selfBleu(responses[i].content, responses[j].content)),
+      });
+    }
+  }
+
+  return {
+    threshold,
+    overall: summarize(pairs, tokens),
+    byTemperature: byTemperature(responses, tokens, pairs),
+    pairs,
+    clusters: clusterNearDuplicates(responses.length, pairs, threshold),
+  };
+}
+
+/**
+ * Jaccard similarity of two token sets
+ */
+export function jaccard(a: string[], b: string[]): number {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  if (setA.size === 0 && setB.size === 0) return 1;
+
+  let shared = 0;
+  for (const token of setA) {
+    if (setB.has(token)) shared++;
+  }
+  return shared / (setA.size + setB.size - shared);
+}
+
+/**
+ * TF-IDF weighted term vectors with smoothed IDF, one per document
+ */
+export function tfidfVectors(documents: string[][]): Map<string, number>[] {
+  const documentFrequency = new Map<string, number>();
+  for (const document of documents) {
+    for (const term of new Set(document)) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  return documents.map((document) => {
+    const vector = new Map<string, number>();
+    for (const term of document) {
+      vector.set(term, (vector.get(term) || 0) + 1);
+    }
+    for (const [term, count] of vector) {
+      const idf = Math.log((1 + documents.length) / (1 + (documentFrequency.get(term) || 0))) + 1;
+      vector.set(term, count * idf);
+    }
+    return vector;
+  });
+}
+
+/**
+ * Cosine similarity of two sparse vectors
+ */
+export function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  for (const [term, weight] of a) {
+    dot += weight * (b.get(term) || 0);
+  }
+  const norm = Math.sqrt(sumOfSquares(a) * sumOfSquares(b));
+  return norm > 0 ? dot / norm : 0;
+}
+
+/**
+ * BLEU between two responses, each taken as the other's reference and
+ * averaged, so the measure is symmetric
+ */
+export function selfBleu(a: string, b: string): number {
+  return (bleu(a, b) + bleu(b, a)) / 2;
+}
+
+/**
+ * Groups of responses linked by similarity at or above the threshold,
+ * largest first; responses without a near-duplicate are left out
+ */
+export function clusterNearDuplicates(count: number, pairs: ResponseSimilarity[], threshold: number): number[][] {
+  const parent = Array.from({ length: count }, (_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  for (const pair of pairs) {
+    if (pair.cosine >= threshold) {
+      parent[find(pair.a)] = find(pair.b);
+    }
+  }
+
+  const clusters = new Map<number, number[]>();
+  for (let index = 0; index < count; index++) {
+    const root = find(index);
+    clusters.set(root, [...(clusters.get(root) || []), index]);
+  }
+
+  return [...clusters.values()]
+    .filter((members) => members.length > 1)
+    .sort((a, b) => b.length - a.length || a[0] - b[0]);
+}
+
+function byTemperature(
+  responses: LLMResponse[],
+  tokens: string[][],
+  pairs: ResponseSimilarity[]
+): TemperatureDiversity[] {
+  const groups = new Map<number, number[]>();
+  responses.forEach((response, index) => {
+    const temperature = response.parameters.temperature;
+    groups.set(temperature, [...(groups.get(temperature) || []), index]);
+  });
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([temperature, members]) => {
+      const inGroup = new Set(members);
+      return {
+        temperature,
+        ...summarize(
+          pairs.filter((pair) => inGroup.has(pair.a) && inGroup.has(pair.b)),
+          members.map((index) => tokens[index])
+        ),
+      };
+    });
+}
+
+/**
+ * Mean pairwise similarities (null without pairs) and distinct-n over the
+ * pooled responses, whose n-grams never span two responses
+ */
+function summarize(pairs: ResponseSimilarity[], tokens: string[][]): Omit<TemperatureDiversity, "temperature"> {
+  const mean = (key: "jaccard" | "cosine" | "selfBleu") =>
+    pairs.length > 0 ? round(average(pairs.map((pair) => pair[key]))) : null;
+
+  return {
+    responseCount: tokens.length,
+    jaccard: mean("jaccard"),
+    cosine: mean("cosine"),
+    selfBleu: mean("selfBleu"),
+    distinct1: round(pooledDistinctN(tokens, 1)),
+    distinct2: round(pooledDistinctN(tokens, 2)),
+  };
+}
+
+function pooledDistinctN(documents: string[][], n: number): number {
+  let total = 0;
+  const unique = new Set<string>();
+  for (const words of documents) {
+    for (let i = 0; i + n <= words.length; i++) {
+      unique.add(words.slice(i, i + n).join(" "));
+      total++;
+    }
+  }
+  return total > 0 ? unique.size / total : 1;
+}
+
+function sumOfSquares(vector: Map<string, number>): number {
+  let sum = 0;
+  for (const weight of vector.values()) sum += weight * weight;
+  return sum;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,50 @@
+import { generateResponse } from "@/services/llm";
+import { calculateMetrics, getMetricVersions } from "@/services/metrics";
+import { formatModelId } from "@/services/providers";
+import { analyzeSafety } from "@/services/safety";
+import { generateId } from "@/lib/utils";
+import { GenerationSlot } from "@/services/sweep";
+import { ExperimentSettings, GenerationFailure, LLMResponse } from "@/types";
+
+/**
+ * Generate a single response and score it
+ *
+ * Generation errors are thrown: a failed generation is the caller's to
+ * retry or report, never saved as a zero-scored response that would drag
+ * down statistics and significance tests.
+ */
+export async function generateScoredResponse(
+  prompt: string,
+  { parameters, sampleIndex }: GenerationSlot,
+  model: string,
+  settings: ExperimentSettings = {},
+  onToken?: (delta: string) => void
+): Promise<LLMResponse> {
+  const result = await generateResponse(prompt, parameters, model, {
+    onToken,
+    // Structured-output mode asks the provider for schema-shaped JSON
+    responseFormat: settings.jsonSchema ? { type: "json", schema: settings.jsonSchema } : undefined,
+  });
+  const { metrics, details } = await calculateMetrics(prompt, result.content, settings);
+
+  return {
+    id: generateId(),
+    content: result.content,
+    parameters,
+    sampleIndex,
+    metrics,
+    metricVersions: getMetricVersions(settings),
+    metricDetails: details,
+    safety: analyzeSafety(result.content, settings.safety),
+    generatedAt: new Date(),
+    tokenCount: result.tokenCount,
+    model: formatModelId(result.provider, result.model),
+  };
+}
+
+/**
+ * A generation that failed, reported next to the responses that did not
+ */
+export function toGenerationFailure({ parameters, sampleIndex }: GenerationSlot, error: unknown): GenerationFailure {
+  return { parameters, sampleIndex, error: (error as Error).message };
+}
@@ -0,0 +1,159 @@
+import { ClaimSupport, ContextDocument, ExperimentSettings } from "@/types";
+import { tokenize } from "@/services/reference-metrics";
+import { judgeClaims } from "@/services/judge";
+import { proseSentences } from "@/services/text-analysis";
+
+/**
+ * Heuristic support at or above which a claim counts as grounded
+ */
+export const SUPPORT_THRESHOLD = 0.6;
+
+// Claims need this many content words; shorter sentences are filler
+const MIN_CLAIM_WORDS = 3;
+
+const STOP_WORDS = new Set([
+  "the", "a", "an", "and", "or", "but", "of", "to", "in", "on", "at", "for", "with", "by", "from",
+  "as", "is", "are", "was", "were", "be", "been", "being", "it", "its", "this", "that", "these",
+  "those", "there", "their", "they", "them", "he", "she", "his", "her", "we", "you", "your", "i",
+  "can", "could", "will", "would", "should", "may", "might", "has", "have", "had", "do", "does",
+  "did", "so", "such", "which", "who", "what", "when", "where", "how", "also", "into", "than",
+  "then", "about", "more", "most", "very", "just", "other", "some", "any", "all", "each",
+]);
+
+const NEGATIONS = new Set(["not", "no", "never", "none", "nor", "cannot", "without", "neither"]);
+
+export interface GroundednessResult {
+  score: number; // 0-100 share of supported claims
+  claims: ClaimSupport[];
+  judgeModel?: string;
+}
+
+interface ContextSentence {
+  source: string;
+  tokens: string[];
+}
+
+/**
+ * Check how much of a response is supported by the context documents
+ *
+ * The response is split into sentence-level claims. Each claim gets a 0-1
+ * support score from its best-matching context sentence (content-word and
+ * bigram overlap), lowered when it negates or cites numbers the context
+ * does not. Optionally the judge model decides each claim instead.
+ * Returns null when the response makes no checkable claims.
+ */
+export async function scoreGroundedness(
+  response: string,
+  documents: ContextDocument[],
+  settings: ExperimentSettings = {}
+): Promise<GroundednessResult | null> {
+  const claimTexts = splitIntoClaims(response);
+  if (claimTexts.length === 0) return null;
+
+  const sentences = documents.flatMap((document, index) =>
+    proseSentences(document.content).map((sentence) => ({
+      source: document.title || `Document ${index + 1}`,
+      tokens: tokenize(sentence.text),
+    }))
+  );
+  const contextTokens = new Set(sentences.flatMap((sentence) => sentence.tokens));
+
+  const claims: ClaimSupport[] = claimTexts.map((text) => {
+    const { support, source } = scoreClaim(tokenize(text), sentences, contextTokens);
+    return { text, support, supported: support >= SUPPORT_THRESHOLD, source };
+  });
+
+  let judgeModel: string | undefined;
+  if (settings.groundedness?.judge) {
+    const context = documents
+      .map((document, index) => `# ${document.title || `Document ${index + 1}`}\n${document.content}`)
+      .join("\n\n");
+    const verdict = await judgeClaims(context, claimTexts, settings.judge);
+
+    if (verdict) {
+      verdict.supported.forEach((supported, index) => {
+        claims[index].supported = supported;
+      });
+      judgeModel = verdict.model;
+    }
+  }
+
+  const supportedCount = claims.filter((claim) => claim.supported).length;
+  return {
+    score: (supportedCount / claims.length) * 100,
+    claims,
+    judgeModel,
+  };
+}
+
+/**
+ * Sentence-level claims, as exact substrings of the response so they can
+ * be highlighted. Only prose counts: code, tables and headings are skipped,
+ * as is short filler.
+ */
+export function splitIntoClaims(response: string): string[] {
+  return proseSentences(response)
+    .map((sentence) => sentence.text)
+    .filter((sentence) => contentWords(tokenize(sentence)).length >= MIN_CLAIM_WORDS);
+}
+
+function contentWords(tokens: string[]): string[] {
+  return tokens.filter(
+    (token) => !STOP_WORDS.has(token) && !NEGATIONS.has(token) && (token.length > 2 || /\d/.test(token))
+  );
+}
+
+function scoreClaim(
+  claimTokens: string[],
+  sentences: ContextSentence[],
+  contextTokens: Set<string>
+): { support: number; source?: string } {
+  const words = [...new Set(contentWords(claimTokens))];
+  const bigrams = toBigrams(claimTokens);
+
+  let best = { support: 0, source: undefined as string | undefined, tokens: [] as string[] };
+  for (const sentence of sentences) {
+    const sentenceTokens = new Set(sentence.tokens);
+    const wordCoverage = words.filter((word) => sentenceTokens.has(word)).length / words.length;
+
+    const sentenceBigrams = new Set(toBigrams(sentence.tokens));
+    const bigramCoverage =
+      bigrams.length > 0 ? bigrams.filter((bigram) => sentenceBigrams.has(bigram)).length / bigrams.length : wordCoverage;
+
+    const support = wordCoverage * 0.7 + bigramCoverage * 0.3;
+    if (support > best.support) {
+      best = { support, source: sentence.source, tokens: sentence.tokens };
+    }
+  }
+
+  // Claims may combine facts from several sentences
+  const spreadCoverage = words.filter((word) => contextTokens.has(word)).length / words.length;
+  let support = Math.max(best.support, spreadCoverage * 0.75);
+
+  // Entailment-style checks: numbers must come from the context, and a
+  // claim should not flip the polarity of the sentence it matches
+  const numbers = claimTokens.filter((token) => /\d/.test(token));
+  if (numbers.some((number) => !contextTokens.has(number))) {
+    support *= 0.5;
+  }
+  if (isNegated(claimTokens) !== isNegated(best.tokens)) {
+    support *= 0.5;
+  }
+
+  return { support: Math.round(support * 100) / 100, source: best.source };
+}
+
+function toBigrams(tokens: string[]): string[] {
+  const bigrams: string[] = [];
+  for (let i = 0; i + 1 < tokens.length; i++) {
+    bigrams.push(`${tokens[i]} ${tokens[i + 1]}`);
+  }
+  return bigrams;
+}
+
+function isNegated(tokens: string[]): boolean {
+  // Tokenizing splits contractions like "isn't" into "isn" and "t"
+  return tokens.some(
+    (token, index) => NEGATIONS.has(token) || (token === "t" && tokens[index - 1]?.endsWith("n"))
+  );
+}
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ExperimentJob, LLMResponse } from "@/types";
+import { getJob, saveExperiment, saveJob } from "./database";
+import { generateScoredResponse } from "./experiment-runner";
+import { resumeUnfinishedJobs, waitForIdle } from "./jobs";
+import { memoryStore } from "./store";
+
+vi.hoisted(() => {
+  process.env.EXPERIMENT_STORE = "memory";
+});
+
+vi.mock("./experiment-runner", () => ({ generateScoredResponse: vi.fn() }));
+
+const generate = vi.mocked(generateScoredResponse);
+
+const response = (): LLMResponse => ({
+  id: crypto.randomUUID(),
+  content: "ok",
+  parameters: { temperature: 0.7, topP: 1 },
+  metrics: { overall: 80 },
+  generatedAt: new Date(),
+  tokenCount: 1,
+  model: "test",
+});
+
+/**
+ * Save a job with two tasks, the second pending
+ */
+async function saveTwoTaskJob(first: "running" | "pending"): Promise<ExperimentJob> {
+  const now = new Date();
+  await saveExperiment({ id: "experiment", prompt: "p", responses: [], createdAt: now, updatedAt: now });
+
+  const job: ExperimentJob = {
+    id: "job",
+    experimentId: "experiment",
+    status: "running",
+    model: "test",
+    tasks: [0, 1].map((index) => ({
+      index,
+      parameters: { temperature: 0.7, topP: 1 },
+      sampleIndex: index,
+      status: index === 0 ? first : "pending",
+    })),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveJob(job);
+  return job;
+}
+
+const taskStatuses = async () => (await getJob("job"))!.tasks.map((task) => task.status);
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  generate.mockImplementation(async () => response());
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  generate.mockReset();
+  await memoryStore.close();
+});
+
+describe("resumeUnfinishedJobs", () => {
+  it("retries a task whose worker stopped sending heartbeats", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    // The first task was left running by a process that is gone
+    await saveTwoTaskJob("running");
+
+    await resumeUnfinishedJobs();
+    await waitForIdle();
+    expect(await taskStatuses()).toEqual(["running", "completed"]);
+
+    vi.setSystemTime(Date.now() + 3 * 60 * 1000);
+    await resumeUnfinishedJobs();
+    await waitForIdle();
+
+    expect(await taskStatuses()).toEqual(["completed", "completed"]);
+    expect((await getJob("job"))!.status).toBe("completed");
+  });
+
+  it("leaves a task alone while its worker is alive", async () => {
+    vi.useFakeTimers();
+    await saveTwoTaskJob("pending");
+
+    let finish: (value: LLMResponse) => void = () => {};
+    generate.mockImplementationOnce(() => new Promise((resolve) => (finish = resolve)));
+
+    await resumeUnfinishedJobs();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(generate).toHaveBeenCalledTimes(2);
+
+    // Long past the stale window, but kept fresh by heartbeats
+    await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+    await resumeUnfinishedJobs();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(await taskStatuses()).toEqual(["running", "completed"]);
+    expect(generate).toHaveBeenCalledTimes(2);
+
+    finish(response());
+    await waitForIdle();
+    expect(await taskStatuses()).toEqual(["completed", "completed"]);
+  });
+});
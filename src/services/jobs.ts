@@ -0,0 +1,286 @@
+import {
+  saveExperiment,
+  getExperiment,
+  saveJob,
+  getJob,
+  getUnfinishedJobIds,
+  updateJobStatus,
+  claimJobTask,
+  completeJobTask,
+  failJobTask,
+  touchJobTask,
+  resetStaleJobTasks,
+  updateExperimentStatistics,
+} from "@/services/database";
+import { generateScoredResponse } from "@/services/experiment-runner";
+import { GenerationSlot } from "@/services/sweep";
+import { calculateParameterSetStatistics } from "@/services/statistics";
+import { generateId, sleep } from "@/lib/utils";
+import { ExperimentJob, ExperimentSettings, LLMResponse } from "@/types";
+
+// Maximum generations running at once across all jobs
+const JOB_CONCURRENCY = parseInt(process.env.JOB_CONCURRENCY || "3", 10);
+
+// A running task's worker refreshes its updated_at this often. Tasks that
+// miss several heartbeats belong to a process that is gone, so the periodic
+// recovery returns them to pending for any instance to claim.
+const HEARTBEAT_MS = 30 * 1000;
+const STALE_TASK_MS = 4 * HEARTBEAT_MS;
+const RECOVERY_INTERVAL_MS = 60 * 1000;
+
+// Generation attempts per task before it fails, with a growing pause between
+// them, so transient provider errors do not fail the task
+const TASK_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 2000;
+
+interface QueuedTask {
+  jobId: string;
+  experimentId: string;
+  prompt: string;
+  model: string;
+  settings: ExperimentSettings;
+  index: number;
+  slot: GenerationSlot;
+}
+
+const queue: QueuedTask[] = [];
+let activeWorkers = 0;
+let idleWaiters: (() => void)[] = [];
+
+// "jobId:index" of every task queued or running in this process, so
+// recovery does not queue them twice
+const localTasks = new Set<string>();
+let recoveryTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Create an experiment and a job for it, then start processing in the background
+ */
+export async function submitJob(
+  prompt: string,
+  slots: GenerationSlot[],
+  model: string,
+  settings: ExperimentSettings = {}
+): Promise<ExperimentJob> {
+  const now = new Date();
+
+  // The experiment is saved empty and fills up as tasks complete
+  const experimentId = generateId();
+  await saveExperiment({
+    id: experimentId,
+    prompt,
+    responses: [],
+    settings,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  const job: ExperimentJob = {
+    id: generateId(),
+    experimentId,
+    status: "queued",
+    model,
+    tasks: slots.map((slot, index) => ({
+      index,
+      parameters: slot.parameters,
+      sampleIndex: slot.sampleIndex,
+      status: "pending",
+    })),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await saveJob(job);
+  enqueueJob(job, prompt, settings);
+
+  return job;
+}
+
+/**
+ * Resume unfinished jobs now and keep checking for tasks whose process
+ * died, e.g. after a restart or on another instance
+ */
+export function startJobRecovery(): void {
+  if (recoveryTimer) {
+    return;
+  }
+
+  let recovering = false;
+  const recover = () => {
+    if (recovering) return;
+    recovering = true;
+    resumeUnfinishedJobs()
+      .catch((error) => console.error("❌ Failed to resume jobs:", error.message))
+      .finally(() => {
+        recovering = false;
+      });
+  };
+
+  recover();
+  recoveryTimer = setInterval(recover, RECOVERY_INTERVAL_MS);
+  recoveryTimer.unref();
+}
+
+/**
+ * Re-queue unfinished jobs' pending tasks, first returning tasks whose
+ * worker stopped sending heartbeats to pending
+ */
+export async function resumeUnfinishedJobs(): Promise<void> {
+  const resetCount = await resetStaleJobTasks(STALE_TASK_MS);
+  if (resetCount > 0) {
+    console.log(`🔁 Reset ${resetCount} stale job tasks`);
+  }
+
+  const jobIds = await getUnfinishedJobIds();
+
+  for (const jobId of jobIds) {
+    const job = await getJob(jobId);
+    const experiment = job ? await getExperiment(job.experimentId) : null;
+
+    if (!job || !experiment) {
+      await updateJobStatus(jobId, "failed", "Experiment no longer exists");
+      continue;
+    }
+
+    if (enqueueJob(job, experiment.prompt, experiment.settings ?? {}) > 0) {
+      console.log(`🔁 Resuming job ${job.id}`);
+    }
+  }
+}
+
+/**
+ * Resolve once the queue is empty and no workers are running
+ */
+export function waitForIdle(): Promise<void> {
+  if (queue.length === 0 && activeWorkers === 0) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => idleWaiters.push(resolve));
+}
+
+/**
+ * Queue a job's pending tasks that this process does not already have,
+ * returning how many were queued
+ */
+function enqueueJob(job: ExperimentJob, prompt: string, settings: ExperimentSettings): number {
+  const pending = job.tasks.filter(
+    (task) => task.status === "pending" && !localTasks.has(taskKey(job.id, task.index))
+  );
+
+  if (pending.length === 0) {
+    // Nothing left to run here; settle the job's final status
+    void finishJobIfDone(job.id);
+    return 0;
+  }
+
+  for (const task of pending) {
+    localTasks.add(taskKey(job.id, task.index));
+    queue.push({
+      jobId: job.id,
+      experimentId: job.experimentId,
+      prompt,
+      model: job.model,
+      settings,
+      index: task.index,
+      slot: { parameters: task.parameters, sampleIndex: task.sampleIndex },
+    });
+  }
+
+  drain();
+  return pending.length;
+}
+
+function taskKey(jobId: string, index: number): string {
+  return `${jobId}:${index}`;
+}
+
+function drain(): void {
+  while (activeWorkers < JOB_CONCURRENCY && queue.length > 0) {
+    const task = queue.shift()!;
+    activeWorkers++;
+
+    runTask(task).finally(() => {
+      localTasks.delete(taskKey(task.jobId, task.index));
+      activeWorkers--;
+      drain();
+
+      if (queue.length === 0 && activeWorkers === 0) {
+        const waiters = idleWaiters;
+        idleWaiters = [];
+        waiters.forEach((resolve) => resolve());
+      }
+    });
+  }
+}
+
+async function runTask(task: QueuedTask): Promise<void> {
+  let heartbeat: NodeJS.Timeout | undefined;
+
+  try {
+    // Another instance may already be running this task
+    const claimed = await claimJobTask(task.jobId, task.index);
+    if (!claimed) {
+      return;
+    }
+
+    heartbeat = setInterval(() => {
+      touchJobTask(task.jobId, task.index).catch((error) =>
+        console.error(`❌ Heartbeat for job ${task.jobId} task ${task.index} failed:`, error.message)
+      );
+    }, HEARTBEAT_MS);
+    heartbeat.unref();
+
+    await updateJobStatus(task.jobId, "running");
+
+    const response = await generateWithRetries(task);
+    await completeJobTask(task.jobId, task.index, task.experimentId, response);
+  } catch (error) {
+    const message = (error as Error).message;
+    console.error(`❌ Job ${task.jobId} task ${task.index} failed:`, message);
+    await failJobTask(task.jobId, task.index, message).catch(() => undefined);
+  } finally {
+    clearInterval(heartbeat);
+  }
+
+  await finishJobIfDone(task.jobId).catch((error) =>
+    console.error(`❌ Failed to update job ${task.jobId}:`, error.message)
+  );
+}
+
+async function generateWithRetries(task: QueuedTask): Promise<LLMResponse> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await generateScoredResponse(task.prompt, task.slot, task.model, task.settings);
+    } catch (error) {
+      if (attempt >= TASK_ATTEMPTS) {
+        throw error;
+      }
+      console.warn(
+        `⚠️ Job ${task.jobId} task ${task.index} attempt ${attempt} failed, retrying:`,
+        (error as Error).message
+      );
+      await sleep(RETRY_DELAY_MS * attempt);
+    }
+  }
+}
+
+async function finishJobIfDone(jobId: string): Promise<void> {
+  const job = await getJob(jobId);
+  if (!job || job.status === "completed" || job.status === "failed") {
+    return;
+  }
+
+  const unfinished = job.tasks.some((task) => task.status === "pending" || task.status === "running");
+  if (unfinished) {
+    return;
+  }
+
+  // Aggregate samples once every response is in
+  const experiment = await getExperiment(job.experimentId);
+  if (experiment) {
+    await updateExperimentStatistics(experiment.id, calculateParameterSetStatistics(experiment.responses));
+  }
+
+  const allFailed = job.tasks.every((task) => task.status === "failed");
+  await updateJobStatus(jobId, allFailed ? "failed" : "completed", allFailed ? "All tasks failed" : undefined);
+  console.log(`✅ Job ${jobId} ${allFailed ? "failed" : "completed"}`);
+}
@@ -0,0 +1,257 @@
+import { z } from "zod";
+import { generateResponse } from "@/services/llm";
+import { DEFAULT_MODEL_ID, mockProvider } from "@/services/providers";
+import { proseSentences } from "@/services/text-analysis";
+import { JudgeSettings, JudgeVerdict, LLMResponse, PairwiseJudgment } from "@/types";
+
+/**
+ * Model used for judging when an experiment does not choose one
+ */
+export const JUDGE_MODEL = process.env.JUDGE_MODEL || DEFAULT_MODEL_ID;
+
+export const DEFAULT_RUBRIC = `Score how well the response serves the user:
+- Correctness: claims are accurate and the reasoning holds up
+- Helpfulness: it answers what was actually asked
+- Completeness: nothing important is missing
+- Clarity: it is easy to follow
+10 = excellent on all criteria, 5 = usable with clear flaws, 1 = wrong or unhelpful.`;
+
+// Judging should be as repeatable as the provider allows
+const JUDGE_PARAMETERS = { temperature: 0, topP: 1 };
+
+const verdictSchema = z.object({
+  score: z.coerce.number().min(1).max(10),
+  justification: z.string().default(""),
+});
+
+const pairwiseSchema = z.object({
+  winner: z.string().transform((winner) => winner.trim().toUpperCase()).pipe(z.enum(["A", "B", "TIE"])),
+  justification: z.string().default(""),
+});
+
+const claimsSchema = z.object({
+  supported: z.array(z.boolean()),
+});
+
+/**
+ * Score a single response against a rubric with a judge model
+ */
+export async function judgeResponse(
+  prompt: string,
+  response: string,
+  settings: JudgeSettings = {}
+): Promise<JudgeVerdict> {
+  const rubric = settings.rubric || DEFAULT_RUBRIC;
+  const judgePrompt = buildVerdictPrompt(prompt, response, rubric);
+  const result = await generateResponse(judgePrompt, JUDGE_PARAMETERS, settings.model || JUDGE_MODEL);
+
+  // The mock provider cannot judge, so the local stand-in answers instead
+  const usedStandIn = result.provider === mockProvider.id;
+  const reply = usedStandIn ? standInVerdictReply(prompt, response) : result.content;
+  const verdict = parseJudgeReply(reply, verdictSchema);
+
+  return {
+    score: Math.round(verdict.score * 10) / 10,
+    justification: verdict.justification,
+    model: usedStandIn ? "local" : `${result.provider}:${result.model}`,
+  };
+}
+
+/**
+ * Ask the judge model which claims the context supports
+ *
+ * Returns null when only the mock provider is available; callers keep
+ * their heuristic verdicts in that case.
+ */
+export async function judgeClaims(
+  context: string,
+  claims: string[],
+  settings: JudgeSettings = {}
+): Promise<{ supported: boolean[]; model: string } | null> {
+  const judgePrompt = buildClaimsPrompt(context, claims);
+  const result = await generateResponse(judgePrompt, JUDGE_PARAMETERS, settings.model || JUDGE_MODEL);
+
+  if (result.provider === mockProvider.id) {
+    return null;
+  }
+
+  const { supported } = parseJudgeReply(result.content, claimsSchema);
+  if (supported.length !== claims.length) {
+    throw new Error(`Judge returned ${supported.length} verdicts for ${claims.length} claims`);
+  }
+
+  return { supported, model: `${result.provider}:${result.model}` };
+}
+
+/**
+ * Decide which of two responses is better
+ *
+ * The pair is judged twice with the positions swapped. A winner is only
+ * declared when both orders agree; otherwise position bias is assumed and
+ * the result is a tie.
+ */
+export async function judgePair(
+  prompt: string,
+  a: LLMResponse,
+  b: LLMResponse,
+  settings: JudgeSettings = {}
+): Promise<PairwiseJudgment> {
+  const rubric = settings.rubric || DEFAULT_RUBRIC;
+  const model = settings.model || JUDGE_MODEL;
+
+  const [forward, swapped] = await Promise.all([
+    judgeOrder(prompt, a.content, b.content, rubric, model),
+    judgeOrder(prompt, b.content, a.content, rubric, model),
+  ]);
+
+  const forwardWinner = toLabel(forward.winner, "a", "b");
+  const swappedWinner = toLabel(swapped.winner, "b", "a");
+  const consistent = forwardWinner === swappedWinner;
+
+  return {
+    winner: consistent ? forwardWinner : "tie",
+    consistent,
+    verdicts: [
+      { order: "ab", winner: forwardWinner, justification: forward.justification },
+      { order: "ba", winner: swappedWinner, justification: swapped.justification },
+    ],
+    model: forward.model,
+  };
+}
+
+async function judgeOrder(
+  prompt: string,
+  first: string,
+  second: string,
+  rubric: string,
+  model: string
+): Promise<{ winner: "A" | "B" | "TIE"; justification: string; model: string }> {
+  const judgePrompt = buildPairwisePrompt(prompt, first, second, rubric);
+  const result = await generateResponse(judgePrompt, JUDGE_PARAMETERS, model);
+
+  const usedStandIn = result.provider === mockProvider.id;
+  const reply = usedStandIn ? standInPairwiseReply(prompt, first, second) : result.content;
+
+  return {
+    ...parseJudgeReply(reply, pairwiseSchema),
+    model: usedStandIn ? "local" : `${result.provider}:${result.model}`,
+  };
+}
+
+function toLabel(winner: "A" | "B" | "TIE", first: "a" | "b", second: "a" | "b") {
+  if (winner === "A") return first;
+  if (winner === "B") return second;
+  return "tie";
+}
+
+function buildVerdictPrompt(prompt: string, response: string, rubric: string): string {
+  return `You are an impartial judge evaluating an AI assistant's response.
+
+Rubric:
+${rubric}
+
+[User prompt]
+${prompt}
+
+[Response]
+${response}
+
+Reply with JSON only, no other text:
+{"score": <number from 1 to 10>, "justification": "<one or two sentences>"}`;
+}
+
+function buildPairwisePrompt(prompt: string, first: string, second: string, rubric: string): string {
+  return `You are an impartial judge comparing two AI assistant responses to the same prompt.
+Do not let the order of the responses or their length influence you.
+
+Rubric:
+${rubric}
+
+[User prompt]
+${prompt}
+
+[Response A]
+${first}
+
+[Response B]
+${second}
+
+Reply with JSON only, no other text:
+{"winner": "A" | "B" | "tie", "justification": "<one or two sentences>"}`;
+}
+
+function buildClaimsPrompt(context: string, claims: string[]): string {
+  return `You are checking whether an answer is faithful to its source documents.
+For each numbered claim, decide whether the context supports it. A claim is
+supported only if the context states it or directly implies it.
+
+[Context]
+${context}
+
+[Claims]
+${claims.map((claim, index) => `${index + 1}. ${claim}`).join("\n")}
+
+Reply with JSON only, no other text, with one boolean per claim in order:
+{"supported": [true, false, ...]}`;
+}
+
+/**
+ * Pull the JSON object out of a judge reply, tolerating code fences and
+ * surrounding prose
+ */
+export function parseJudgeReply<T extends z.ZodTypeAny>(reply: string, schema: T): z.infer<T> {
+  const match = reply.match(/\{[\s\S]*\}/);
+  if (!match) {
+    throw new Error("Judge reply did not contain a JSON object");
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(match[0]);
+  } catch {
+    throw new Error("Judge reply was not valid JSON");
+  }
+
+  const result = schema.safeParse(parsed);
+  if (!result.success) {
+    throw new Error(`Judge reply had an unexpected shape: ${result.error.issues[0]?.message}`);
+  }
+  return result.data;
+}
+
+/**
+ * Heuristic 1-10 rating used in place of a real judge: rewards covering
+ * the prompt's key terms and a reasonable, well-formed answer
+ */
+function standInScore(prompt: string, response: string): number {
+  const terms = [...new Set(prompt.toLowerCase().match(/[a-z]{4,}/g) || [])];
+  const text = response.toLowerCase();
+  const coverage = terms.length > 0 ? terms.filter((term) => text.includes(term)).length / terms.length : 1;
+
+  const words = response.split(/\s+/).filter(Boolean).length;
+  const lengthScore = words < 20 ? words / 20 : words > 600 ? 600 / words : 1;
+
+  const sentences = proseSentences(response);
+  const endsCleanly = /[.!?)`]\s*$/.test(response.trim()) ? 1 : 0.5;
+  const hasStructure = sentences.length >= 3 || /\n\s*[-*\d]/.test(response) ? 1 : 0.6;
+
+  const quality = coverage * 0.5 + lengthScore * 0.25 + endsCleanly * 0.15 + hasStructure * 0.1;
+  return Math.round((1 + quality * 9) * 10) / 10;
+}
+
+function standInVerdictReply(prompt: string, response: string): string {
+  const score = standInScore(prompt, response);
+  return JSON.stringify({
+    score,
+    justification: `Local stand-in judge: rated ${score}/10 from prompt coverage, length and form. Configure a judge model for a real assessment.`,
+  });
+}
+
+function standInPairwiseReply(prompt: string, first: string, second: string): string {
+  const difference = standInScore(prompt, first) - standInScore(prompt, second);
+  const winner = Math.abs(difference) < 0.5 ? "tie" : difference > 0 ? "A" : "B";
+  return JSON.stringify({
+    winner,
+    justification: `Local stand-in judge: heuristic ratings differ by ${Math.abs(difference).toFixed(1)} points.`,
+  });
+}
@@ -1,34 +1,168 @@
-import { QualityMetrics, MetricExplanation } from "@/types";
-import { average, clamp } from "@/lib/utils";
+import { QualityMetrics, MetricDefinition, MetricDetails, MetricInfo, ExperimentSettings } from "@/types";
+import { clamp } from "@/lib/utils";
+import { getDefaultMetricIds, normalizeScore } from "@/lib/metric-catalog";
+import { calculateOverall, getScoringProfile, DEFAULT_SCORING_PROFILE } from "@/services/scoring-profiles";
+import { judgeResponse } from "@/services/judge";
+import { scoreGroundedness } from "@/services/groundedness";
+import { analyzeDegeneration } from "@/services/degeneration";
+import { parseMarkdown, proseSentences } from "@/services/text-analysis";
+import { calculateReadabilityIndices, gradeDistanceScore, resolveTargetGrade } from "@/services/readability";
+import { checkConstraints, resolveConstraints } from "@/services/constraints";
+import {
+  describeSchemaCheck,
+  parseJsonResponse,
+  schemaConformance,
+  validateAgainstSchema,
+} from "@/services/structured-output";
+import {
+  checkCodeBlock,
+  countExplanationWords,
+  detectRequestedLanguage,
+  extractCodeBlocks,
+  hasExplanation,
+  languageMatches,
+  primaryCodeBlocks,
+  runCodeTests,
+} from "@/services/code-blocks";
+import { bleu, exactMatch, OverlapScore, rougeL, rougeN, tokenF1 } from "@/services/reference-metrics";
+
+// Metric registry keyed by ID
+const metrics = new Map<string, MetricDefinition>();
 
 /**
- * Calculate all quality metrics for a given LLM response
+ * Metrics used when an experiment does not choose its own
  */
-export function calculateMetrics(prompt: string, response: string): QualityMetrics {
-  const coherence = calculateCoherence(response);
-  const completeness = calculateCompleteness(prompt, response);
-  const readability = calculateReadability(response);
-  const lengthAppropriatenss = calculateLengthAppropriateness(prompt, response);
-  const structuralQuality = calculateStructuralQuality(response);
-
-  const overall = average([
-    coherence,
-    completeness,
-    readability,
-    lengthAppropriatenss,
-    structuralQuality,
-  ]);
+export const DEFAULT_METRIC_IDS = [
+  "coherence",
+  "completeness",
+  "readability",
+  "lengthAppropriateness",
+  "structuralQuality",
+  "instructionFollowing",
+  "degeneration",
+  "codeParses",
+  "codeExplained",
+  "codeLanguage",
+];
+
+/**
+ * Register a metric so experiments can activate it by ID
+ */
+export function registerMetric(metric: MetricDefinition): void {
+  if (metrics.has(metric.id)) {
+    console.warn(`⚠️  Metric "${metric.id}" is already registered; replacing it`);
+  }
+  metrics.set(metric.id, metric);
+}
+
+/**
+ * Look up a metric by ID
+ */
+export function getMetric(id: string): MetricDefinition | undefined {
+  return metrics.get(id);
+}
+
+/**
+ * Catalog of all registered metrics
+ */
+export function listMetrics(): MetricInfo[] {
+  return [...metrics.values()].map(({ id, name, version, description, range, levels, requires, replaces }) => ({
+    id,
+    name,
+    version,
+    description,
+    range,
+    levels,
+    requires,
+    replaces,
+    default: DEFAULT_METRIC_IDS.includes(id),
+  }));
+}
+
+export interface ScoredMetrics {
+  metrics: QualityMetrics;
+  details: Record<string, MetricDetails>;
+}
+
+/**
+ * Calculate the active quality metrics for a given LLM response
+ *
+ * Metrics that do not apply to the response are left out, as are metrics
+ * whose scorer fails. The overall score combines the rest on a 0-100 scale
+ * using the experiment's scoring profile.
+ */
+export async function calculateMetrics(
+  prompt: string,
+  response: string,
+  settings: ExperimentSettings = {}
+): Promise<ScoredMetrics> {
+  const profileId = settings.scoringProfile ?? DEFAULT_SCORING_PROFILE;
+  const profile = getScoringProfile(profileId);
+  if (!profile) {
+    throw new Error(`Unknown scoring profile: ${profileId}`);
+  }
+
+  const activeMetrics = getActiveMetrics(settings);
+
+  // Scorers may call out to a model, so run them side by side
+  const results = await Promise.all(
+    activeMetrics.map(async (metric) => {
+      try {
+        return await metric.score({ prompt, response, settings });
+      } catch (error) {
+        console.error(`❌ Metric "${metric.id}" failed:`, (error as Error).message);
+        return null;
+      }
+    })
+  );
+
+  const scores: Record<string, number> = {};
+  const normalized: Record<string, number> = {};
+  const details: Record<string, MetricDetails> = {};
+
+  activeMetrics.forEach((metric, index) => {
+    const result = results[index];
+    if (result === null) return;
+
+    const score = typeof result === "number" ? result : result.score;
+    scores[metric.id] = Math.round(score * 100) / 100;
+    normalized[metric.id] = normalizeScore(score, metric.range);
+
+    if (typeof result !== "number" && result.details) {
+      details[metric.id] = result.details;
+    }
+  });
 
   return {
-    coherence: Math.round(coherence),
-    completeness: Math.round(completeness),
-    readability: Math.round(readability),
-    lengthAppropriatenss: Math.round(lengthAppropriatenss),
-    structuralQuality: Math.round(structuralQuality),
-    overall: Math.round(overall),
+    metrics: {
+      ...scores,
+      overall: calculateOverall(normalized, profile),
+    },
+    details,
   };
 }
 
+/**
+ * Versions of the active metrics, stored alongside their scores
+ */
+export function getMetricVersions(settings: ExperimentSettings = {}): Record<string, string> {
+  return Object.fromEntries(getActiveMetrics(settings).map((metric) => [metric.id, metric.version]));
+}
+
+function getActiveMetricIds(settings: ExperimentSettings): string[] {
+  return settings.metrics?.length ? settings.metrics : getDefaultMetricIds(listMetrics(), settings);
+}
+
+function getActiveMetrics(settings: ExperimentSettings): MetricDefinition[] {
+  return getActiveMetricIds(settings).map((id) => {
+    const metric = metrics.get(id);
+    if (!metric) {
+      throw new Error(`Unknown metric: ${id}`);
+    }
+    return metric;
+  });
+}
+
 /**
  * Coherence Score (0-100)
  * Measures logical flow and topic consistency within the response
@@ -38,9 +172,13 @@ export function calculateMetrics(prompt: string, response: string): QualityMetri
  * - Checks for repeated words/concepts across sentences
  * - Measures topic drift using word overlap
  * - Penalizes sudden topic changes
+ * - Gives nothing for a sentence that repeats the one before, so looping
+ *   output does not score as well connected
+ * - Only prose counts: code, tables and headings are left out, and each
+ *   list item is its own sentence
  */
 export function calculateCoherence(text: string): number {
-  const sentences = splitIntoSentences(text);
+  const sentences = proseSentences(text).map((sentence) => sentence.text);
   
   if (sentences.length === 0) return 0;
   if (sentences.length === 1) return 85; // Single sentence is coherent
@@ -57,6 +195,7 @@ export function calculateCoherence(text: string): number {
   for (let i = 0; i < sentences.length - 1; i++) {
     const current = sentences[i].toLowerCase();
     const next = sentences[i + 1].toLowerCase();
+    if (current === next) continue;
 
     // Calculate word overlap between consecutive sentences
     const currentWords = new Set(
@@ -152,29 +291,20 @@ export function calculateCompleteness(prompt: string, response: string): number
  * 
  * Algorithm:
  * - Uses Flesch Reading Ease formula
- * - Measures sentence length variance
- * - Checks vocabulary complexity
  * - Penalizes overly long sentences
+ * - Rewards paragraph breaks
+ * - Ignores code, tables and headings
  */
 export function calculateReadability(text: string): number {
-  const sentences = splitIntoSentences(text);
-  const words = text.split(/\s+/).filter((w) => w.length > 0);
-  const syllables = countTotalSyllables(text);
-
-  if (words.length === 0 || sentences.length === 0) return 0;
-
-  // Flesch Reading Ease formula
-  const avgWordsPerSentence = words.length / sentences.length;
-  const avgSyllablesPerWord = syllables / words.length;
-
-  const fleschScore =
-    206.835 - 1.015 * avgWordsPerSentence - 84.6 * avgSyllablesPerWord;
+  const indices = calculateReadabilityIndices(text);
+  if (!indices) return 0;
 
   // Convert Flesch score (0-100+) to our scale
-  let readabilityScore = clamp(fleschScore, 0, 100);
+  const readabilityScore = clamp(indices.fleschReadingEase, 0, 100);
 
   // Penalize very long sentences
-  const longSentences = sentences.filter((s) => s.split(/\s+/).length > 40).length;
+  const sentences = proseSentences(text);
+  const longSentences = sentences.filter((s) => s.text.split(/\s+/).length > 40).length;
   const longSentencePenalty = (longSentences / sentences.length) * 20;
 
   // Bonus for good paragraph breaks
@@ -252,7 +382,7 @@ export function calculateLengthAppropriateness(prompt: string, response: string)
  * Algorithm:
  * - Checks for proper paragraph breaks
  * - Validates list formatting
- * - Looks for consistent punctuation
+ * - Looks for consistent punctuation in paragraphs
  * - Checks for code blocks, headers, etc.
  */
 export function calculateStructuralQuality(text: string): number {
@@ -264,26 +394,29 @@ export function calculateStructuralQuality(text: string): number {
     score += Math.min(paragraphs.length * 3, 15);
   }
 
+  const blocks = parseMarkdown(text);
+
   // Check for proper list formatting
-  const listMatches = text.match(/\n[\s]*[-•*\d]+\.?[\s]/g);
-  if (listMatches && listMatches.length >= 2) {
+  if (blocks.filter((block) => block.type === "listItem").length >= 2) {
     score += 10;
   }
 
   // Check for code blocks
-  if (/```[\s\S]*```|`[^`]+`/.test(text)) {
+  if (blocks.some((block) => block.type === "code") || /`[^`\n]+`/.test(text)) {
     score += 5;
   }
 
   // Check for headers or sections
-  if (/^#{1,6}\s+.+$/m.test(text) || /^[A-Z][^.!?]+:$/m.test(text)) {
+  if (blocks.some((block) => block.type === "heading") || /^[A-Z][^.!?\n]+:$/m.test(text)) {
     score += 5;
   }
 
-  // Check punctuation consistency
-  const sentences = splitIntoSentences(text);
+  // Check punctuation consistency; list items and headings need no period
+  const sentences = blocks
+    .filter((block) => block.type === "paragraph" || block.type === "quote")
+    .flatMap((block) => proseSentences(block.text));
   const properlyEnded = sentences.filter((s) =>
-    /[.!?]$/.test(s.trim())
+    /[.!?:]["'”’)\]]*$/.test(s.text)
   ).length;
   
   if (sentences.length > 0) {
@@ -305,82 +438,8 @@ export function calculateStructuralQuality(text: string): number {
   return clamp(score, 0, 100);
 }
 
-/**
- * Get detailed explanations for all metrics
- */
-export function getMetricExplanations(metrics: QualityMetrics): MetricExplanation[] {
-  return [
-    {
-      name: "Coherence",
-      score: metrics.coherence,
-      description: "Measures logical flow and topic consistency",
-      details: getCoherenceDetails(metrics.coherence),
-    },
-    {
-      name: "Completeness",
-      score: metrics.completeness,
-      description: "How well the response addresses the prompt",
-      details: getCompletenessDetails(metrics.completeness),
-    },
-    {
-      name: "Readability",
-      score: metrics.readability,
-      description: "How easy the text is to read and understand",
-      details: getReadabilityDetails(metrics.readability),
-    },
-    {
-      name: "Length Appropriateness",
-      score: metrics.lengthAppropriatenss,
-      description: "Whether the response length matches the prompt",
-      details: getLengthDetails(metrics.lengthAppropriatenss),
-    },
-    {
-      name: "Structural Quality",
-      score: metrics.structuralQuality,
-      description: "Formatting and organization quality",
-      details: getStructuralDetails(metrics.structuralQuality),
-    },
-  ];
-}
-
 // Helper functions
 
-function splitIntoSentences(text: string): string[] {
-  return text
-    .split(/[.!?]+/)
-    .map((s) => s.trim())
-    .filter((s) => s.length > 0);
-}
-
-function countTotalSyllables(text: string): number {
-  const words = text.toLowerCase().split(/\s+/);
-  return words.reduce((total, word) => total + countSyllables(word), 0);
-}
-
-function countSyllables(word: string): number {
-  word = word.toLowerCase().replace(/[^a-z]/g, "");
-  if (word.length === 0) return 0;
-  
-  const vowels = "aeiouy";
-  let count = 0;
-  let previousWasVowel = false;
-
-  for (let i = 0; i < word.length; i++) {
-    const isVowel = vowels.includes(word[i]);
-    if (isVowel && !previousWasVowel) {
-      count++;
-    }
-    previousWasVowel = isVowel;
-  }
-
-  // Adjust for silent 'e'
-  if (word.endsWith("e")) {
-    count--;
-  }
-
-  return Math.max(1, count);
-}
-
 function isCommonWord(word: string): boolean {
   const commonWords = new Set([
     "the", "be", "to", "of", "and", "a", "in", "that", "have", "i",
@@ -391,38 +450,482 @@ function isCommonWord(word: string): boolean {
   return commonWords.has(word.toLowerCase());
 }
 
-function getCoherenceDetails(score: number): string {
-  if (score >= 80) return "Excellent logical flow with strong connections between ideas.";
-  if (score >= 60) return "Good coherence with mostly clear transitions.";
-  if (score >= 40) return "Moderate coherence; some ideas could be better connected.";
-  return "Poor coherence; ideas seem disconnected or jumpy.";
-}
-
-function getCompletenessDetails(score: number): string {
-  if (score >= 80) return "Thoroughly addresses all aspects of the prompt.";
-  if (score >= 60) return "Covers most key points from the prompt.";
-  if (score >= 40) return "Addresses some aspects but misses key points.";
-  return "Incomplete response; many prompt aspects not addressed.";
-}
-
-function getReadabilityDetails(score: number): string {
-  if (score >= 80) return "Very easy to read and understand.";
-  if (score >= 60) return "Moderately easy to read; appropriate complexity.";
-  if (score >= 40) return "Somewhat difficult to read; complex sentences.";
-  return "Hard to read; overly complex or poorly structured.";
-}
-
-function getLengthDetails(score: number): string {
-  if (score >= 80) return "Optimal length for the given prompt.";
-  if (score >= 60) return "Reasonable length; slightly too short or long.";
-  if (score >= 40) return "Length is noticeably inappropriate.";
-  return "Significantly too short or excessively verbose.";
-}
-
-function getStructuralDetails(score: number): string {
-  if (score >= 80) return "Well-formatted with clear structure.";
-  if (score >= 60) return "Good structure with minor formatting issues.";
-  if (score >= 40) return "Basic structure; could use better formatting.";
-  return "Poor structure; lacks proper formatting.";
-}
+const SCORE_RANGE = { min: 0, max: 100 };
+
+// Built-in metrics, active unless an experiment picks its own
+registerMetric({
+  id: "coherence",
+  name: "Coherence",
+  version: "1.2.0",
+  description: "Measures logical flow and topic consistency",
+  range: SCORE_RANGE,
+  levels: [
+    "Excellent logical flow with strong connections between ideas.",
+    "Good coherence with mostly clear transitions.",
+    "Moderate coherence; some ideas could be better connected.",
+    "Poor coherence; ideas seem disconnected or jumpy.",
+  ],
+  score: ({ response }) => Math.round(calculateCoherence(response)),
+});
+
+registerMetric({
+  id: "completeness",
+  name: "Completeness",
+  version: "1.0.0",
+  description: "How well the response addresses the prompt",
+  range: SCORE_RANGE,
+  levels: [
+    "Thoroughly addresses all aspects of the prompt.",
+    "Covers most key points from the prompt.",
+    "Addresses some aspects but misses key points.",
+    "Incomplete response; many prompt aspects not addressed.",
+  ],
+  score: ({ prompt, response }) => Math.round(calculateCompleteness(prompt, response)),
+});
+
+registerMetric({
+  id: "readability",
+  name: "Readability",
+  version: "1.2.0",
+  description: "How easy the text is to read, or how close it reads to the experiment's target audience",
+  range: SCORE_RANGE,
+  levels: [
+    "Very easy to read and understand.",
+    "Moderately easy to read; appropriate complexity.",
+    "Somewhat difficult to read; complex sentences.",
+    "Hard to read; overly complex or poorly structured.",
+  ],
+  // Without an audience simpler is better; with one, distance from its grade costs points
+  score: ({ response, settings }) => {
+    const indices = calculateReadabilityIndices(response);
+    if (!indices) return 0;
+
+    const targetGrade = settings.audience ? resolveTargetGrade(settings.audience) : null;
+    if (targetGrade === null) {
+      return {
+        score: Math.round(calculateReadability(response)),
+        details: { summary: `Reads at about grade ${indices.consensusGrade}.`, ...indices },
+      };
+    }
 
+    const difference = Math.round((indices.consensusGrade - targetGrade) * 10) / 10;
+    return {
+      score: Math.round(gradeDistanceScore(indices.consensusGrade, targetGrade)),
+      details: {
+        summary:
+          `Reads at about grade ${indices.consensusGrade} for a grade ${targetGrade} audience` +
+          (difference === 0 ? "." : ` (${Math.abs(difference)} grades ${difference > 0 ? "harder" : "easier"}).`),
+        ...indices,
+        targetGrade,
+      },
+    };
+  },
+});
+
+registerMetric({
+  id: "lengthAppropriateness",
+  name: "Length Appropriateness",
+  version: "1.0.0",
+  description: "Whether the response length matches the prompt",
+  range: SCORE_RANGE,
+  levels: [
+    "Optimal length for the given prompt.",
+    "Reasonable length; slightly too short or long.",
+    "Length is noticeably inappropriate.",
+    "Significantly too short or excessively verbose.",
+  ],
+  score: ({ prompt, response }) => Math.round(calculateLengthAppropriateness(prompt, response)),
+});
+
+registerMetric({
+  id: "structuralQuality",
+  name: "Structural Quality",
+  version: "1.1.0",
+  description: "Formatting and organization quality",
+  range: SCORE_RANGE,
+  levels: [
+    "Well-formatted with clear structure.",
+    "Good structure with minor formatting issues.",
+    "Basic structure; could use better formatting.",
+    "Poor structure; lacks proper formatting.",
+  ],
+  score: ({ response }) => Math.round(calculateStructuralQuality(response)),
+});
+
+registerMetric({
+  id: "instructionFollowing",
+  name: "Instruction Following",
+  version: "1.1.0",
+  description: "Share of the prompt's hard constraints (length, format, wording) the response meets",
+  range: SCORE_RANGE,
+  levels: [
+    "Meets all or nearly all of the prompt's constraints.",
+    "Meets most of the prompt's constraints.",
+    "Misses several of the prompt's constraints.",
+    "Ignores most of the prompt's constraints.",
+  ],
+  // Declared constraints, or those found in the prompt; no constraints, no score
+  score: ({ prompt, response, settings }) => {
+    const constraints = resolveConstraints(prompt, settings);
+    if (constraints.length === 0) return null;
+
+    const results = checkConstraints(response, constraints);
+    const passed = results.filter((result) => result.passed).length;
+    return {
+      score: (passed / results.length) * 100,
+      details: {
+        summary: `Meets ${passed} of ${results.length} constraints${settings.constraints ? "" : " found in the prompt"}.`,
+        results,
+      },
+    };
+  },
+});
+
+registerMetric({
+  id: "degeneration",
+  name: "Degeneration",
+  version: "1.0.0",
+  description: "Freedom from looping, repeated phrases and gibberish; 100 means none found",
+  range: SCORE_RANGE,
+  levels: [
+    "No repetition loops or gibberish.",
+    "Some repeated phrasing.",
+    "Noticeable looping or garbled words.",
+    "Degenerate output: loops or gibberish dominate.",
+  ],
+  score: ({ response }) => {
+    const report = analyzeDegeneration(response);
+    if (!report) return null;
+
+    const { score, ...details } = report;
+    return {
+      score: Math.round(score),
+      details: {
+        summary: `Distinct-2 ${report.distinct2.toFixed(2)}, ${Math.round(report.repeatedShare * 100)}% of words in repeated spans, compression ratio ${report.compressionRatio.toFixed(1)}, ${Math.round(report.nonWordRate * 100)}% non-words.`,
+        ...details,
+      },
+    };
+  },
+});
+
+// Code-answer metrics; they do not apply to responses without code blocks
+registerMetric({
+  id: "codeParses",
+  name: "Code Parses",
+  version: "1.0.0",
+  description: "Share of JavaScript, TypeScript and JSON code blocks that parse without syntax errors",
+  range: SCORE_RANGE,
+  levels: [
+    "All code blocks parse.",
+    "Most code blocks parse.",
+    "Several code blocks have syntax errors.",
+    "Most code blocks have syntax errors.",
+  ],
+  score: ({ response }) => {
+    const checks = extractCodeBlocks(response).map(checkCodeBlock).filter((check) => check.checked);
+    if (checks.length === 0) return null;
+
+    const valid = checks.filter((check) => check.valid).length;
+    return {
+      score: (valid / checks.length) * 100,
+      details: {
+        summary: `${valid} of ${checks.length} checkable code block${checks.length === 1 ? "" : "s"} parse.`,
+        blocks: checks,
+      },
+    };
+  },
+});
+
+registerMetric({
+  id: "codeExplained",
+  name: "Has Explanation",
+  version: "1.1.0",
+  description: "Whether code comes with prose explaining it",
+  range: { min: 0, max: 1 },
+  levels: [
+    "The code is explained.",
+    "The code is explained.",
+    "The code comes with little or no explanation.",
+    "The code comes with little or no explanation.",
+  ],
+  score: ({ response }) => {
+    if (extractCodeBlocks(response).length === 0) return null;
+
+    const words = countExplanationWords(response);
+    return {
+      score: hasExplanation(response) ? 1 : 0,
+      details: { summary: `${words} word${words === 1 ? "" : "s"} of prose outside the code blocks.` },
+    };
+  },
+});
+
+registerMetric({
+  id: "codeLanguage",
+  name: "Language Match",
+  version: "1.0.0",
+  description: "Share of tagged code blocks written in the language the prompt asks for",
+  range: SCORE_RANGE,
+  levels: [
+    "The code is in the requested language.",
+    "Most of the code is in the requested language.",
+    "Much of the code is in another language.",
+    "The code is not in the requested language.",
+  ],
+  // Shell commands and output are left out; untagged blocks cannot be judged
+  score: ({ prompt, response }) => {
+    const requested = detectRequestedLanguage(prompt);
+    if (!requested) return null;
+
+    const languages = primaryCodeBlocks(extractCodeBlocks(response)).flatMap((block) =>
+      block.language ? [block.language] : []
+    );
+    if (languages.length === 0) return null;
+
+    const matching = languages.filter((language) => languageMatches(language, requested)).length;
+    return {
+      score: (matching / languages.length) * 100,
+      details: {
+        summary: `${matching} of ${languages.length} code blocks in ${requested}.`,
+        requested,
+        languages,
+      },
+    };
+  },
+});
+
+// Optional metrics, activated per experiment
+registerMetric({
+  id: "judge",
+  name: "LLM Judge",
+  version: "1.0.0",
+  description: "A judge model rates correctness and helpfulness against a rubric",
+  range: { min: 1, max: 10 },
+  levels: [
+    "The judge rates this response as strong on the rubric.",
+    "The judge finds the response good with minor flaws.",
+    "The judge finds the response usable but clearly flawed.",
+    "The judge rates this response as weak or wrong.",
+  ],
+  score: async ({ prompt, response, settings }) => {
+    const verdict = await judgeResponse(prompt, response, settings.judge);
+    return {
+      score: verdict.score,
+      details: {
+        summary: verdict.justification,
+        judgeModel: verdict.model,
+        customRubric: Boolean(settings.judge?.rubric),
+      },
+    };
+  },
+});
+
+// Reference-based metrics; they do not apply without a reference answer
+const referenceLevels: [string, string, string, string] = [
+  "Closely matches the reference answer.",
+  "Substantial overlap with the reference answer.",
+  "Partial overlap with the reference answer.",
+  "Little overlap with the reference answer.",
+];
+
+const overlapResult = ({ precision, recall, f1 }: OverlapScore) => ({
+  score: f1 * 100,
+  details: {
+    precision: Math.round(precision * 1000) / 1000,
+    recall: Math.round(recall * 1000) / 1000,
+  },
+});
+
+registerMetric({
+  id: "rouge1",
+  name: "ROUGE-1",
+  version: "1.0.0",
+  description: "Unigram overlap F1 with the reference answer",
+  range: SCORE_RANGE,
+  levels: referenceLevels,
+  requires: "reference",
+  score: ({ response, settings }) =>
+    settings.reference ? overlapResult(rougeN(response, settings.reference, 1)) : null,
+});
+
+registerMetric({
+  id: "rouge2",
+  name: "ROUGE-2",
+  version: "1.0.0",
+  description: "Bigram overlap F1 with the reference answer",
+  range: SCORE_RANGE,
+  levels: referenceLevels,
+  requires: "reference",
+  score: ({ response, settings }) =>
+    settings.reference ? overlapResult(rougeN(response, settings.reference, 2)) : null,
+});
+
+registerMetric({
+  id: "rougeL",
+  name: "ROUGE-L",
+  version: "1.0.0",
+  description: "Longest common subsequence F1 with the reference answer",
+  range: SCORE_RANGE,
+  levels: referenceLevels,
+  requires: "reference",
+  score: ({ response, settings }) =>
+    settings.reference ? overlapResult(rougeL(response, settings.reference)) : null,
+});
+
+registerMetric({
+  id: "bleu",
+  name: "BLEU",
+  version: "1.0.0",
+  description: "Smoothed sentence BLEU (up to 4-grams) against the reference answer",
+  range: SCORE_RANGE,
+  levels: referenceLevels,
+  requires: "reference",
+  score: ({ response, settings }) =>
+    settings.reference ? bleu(response, settings.reference) * 100 : null,
+});
+
+registerMetric({
+  id: "tokenF1",
+  name: "Token F1",
+  version: "1.0.0",
+  description: "Word overlap F1 with the normalized reference answer",
+  range: SCORE_RANGE,
+  levels: referenceLevels,
+  requires: "reference",
+  score: ({ response, settings }) =>
+    settings.reference ? overlapResult(tokenF1(response, settings.reference)) : null,
+});
+
+registerMetric({
+  id: "exactMatch",
+  name: "Exact Match",
+  version: "1.0.0",
+  description: "Whether the response equals the reference after normalizing case, punctuation and articles",
+  range: { min: 0, max: 1 },
+  levels: [
+    "Matches the reference answer exactly.",
+    "Matches the reference answer exactly.",
+    "Does not match the reference answer.",
+    "Does not match the reference answer.",
+  ],
+  requires: "reference",
+  score: ({ response, settings }) =>
+    settings.reference ? exactMatch(response, settings.reference) : null,
+});
+
+registerMetric({
+  id: "groundedness",
+  name: "Groundedness",
+  version: "1.1.0",
+  description: "Share of the response's claims supported by the context documents",
+  range: SCORE_RANGE,
+  levels: [
+    "Nearly every claim is supported by the context.",
+    "Most claims are supported by the context.",
+    "Several claims are not supported by the context.",
+    "Most claims are not supported by the context.",
+  ],
+  requires: "contextDocuments",
+  score: async ({ response, settings }) => {
+    if (!settings.contextDocuments?.length) return null;
+
+    const result = await scoreGroundedness(response, settings.contextDocuments, settings);
+    if (!result) return null;
+
+    const supported = result.claims.filter((claim) => claim.supported).length;
+    return {
+      score: result.score,
+      details: {
+        summary: `${supported} of ${result.claims.length} claims supported by the context${
+          result.judgeModel ? ` (checked by ${result.judgeModel})` : ""
+        }.`,
+        claims: result.claims,
+        judgeModel: result.judgeModel,
+      },
+    };
+  },
+});
+
+// Structured-output mode: JSON validity stands in for prose readability
+registerMetric({
+  id: "jsonParse",
+  name: "JSON Parse",
+  version: "1.0.0",
+  description: "Whether the response parses as JSON",
+  range: { min: 0, max: 1 },
+  levels: [
+    "The response is valid JSON.",
+    "The response is valid JSON.",
+    "The response is not valid JSON.",
+    "The response is not valid JSON.",
+  ],
+  requires: "jsonSchema",
+  replaces: ["readability"],
+  score: ({ response }) => {
+    const parsed = parseJsonResponse(response);
+    return {
+      score: parsed.ok ? 1 : 0,
+      details: {
+        summary: parsed.ok
+          ? `Valid JSON${parsed.fenced ? " inside a code fence" : ""}.`
+          : `Not valid JSON: ${parsed.error}`,
+      },
+    };
+  },
+});
+
+registerMetric({
+  id: "schemaValidity",
+  name: "Schema Validity",
+  version: "1.0.0",
+  description: "How closely the parsed JSON follows the experiment's JSON Schema; halves with the first violation",
+  range: SCORE_RANGE,
+  levels: [
+    "Matches the JSON Schema.",
+    "Matches the JSON Schema.",
+    "Breaks the JSON Schema in one place.",
+    "Breaks the JSON Schema in several places or does not parse.",
+  ],
+  requires: "jsonSchema",
+  replaces: ["readability"],
+  score: ({ response, settings }) => {
+    if (!settings.jsonSchema) return null;
+
+    const parsed = parseJsonResponse(response);
+    const violations = parsed.ok ? validateAgainstSchema(parsed.value, settings.jsonSchema) : [];
+    return {
+      score: schemaConformance(parsed, violations),
+      details: {
+        summary: describeSchemaCheck(parsed, violations),
+        violations,
+      },
+    };
+  },
+});
+
+registerMetric({
+  id: "codeTests",
+  name: "Code Tests",
+  version: "1.0.0",
+  description: "Share of the experiment's test snippets that pass against the response's JavaScript/TypeScript code",
+  range: SCORE_RANGE,
+  levels: [
+    "All or nearly all tests pass.",
+    "Most tests pass.",
+    "Several tests fail.",
+    "Most tests fail.",
+  ],
+  requires: "codeTests",
+  score: async ({ response, settings }) => {
+    if (!settings.codeTests?.length) return null;
+
+    const results = await runCodeTests(extractCodeBlocks(response), settings.codeTests);
+    const passed = results.filter((result) => result.passed).length;
+    return {
+      score: (passed / results.length) * 100,
+      details: {
+        summary: `${passed} of ${results.length} tests pass.`,
+        results,
+      },
+    };
+  },
+});
@@ -0,0 +1,139 @@
+import { LLMProvider, ProviderRequest, LLMGenerateResult, ResponseFormat } from "@/types";
+import { clamp } from "@/lib/utils";
+import { readSSE } from "@/lib/sse";
+
+const ANTHROPIC_API_URL = "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_VERSION = "2023-06-01";
+
+interface AnthropicMessageResponse {
+  model: string;
+  content: { type: string; text?: string }[];
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  message?: { model: string; usage?: { input_tokens: number; output_tokens: number } };
+  delta?: { type: string; text?: string };
+  usage?: { output_tokens: number };
+}
+
+interface AnthropicErrorResponse {
+  error?: { type: string; message: string };
+}
+
+/**
+ * Anthropic Messages API adapter
+ */
+export const anthropicProvider: LLMProvider = {
+  id: "anthropic",
+  name: "Anthropic",
+  defaultModel: "claude-3-5-haiku-latest",
+  isConfigured: () => Boolean(process.env.ANTHROPIC_API_KEY),
+  generate: generateAnthropicResponse,
+};
+
+async function generateAnthropicResponse({
+  prompt,
+  parameters,
+  model,
+  maxTokens,
+  onToken,
+  responseFormat,
+}: ProviderRequest): Promise<LLMGenerateResult> {
+  // Anthropic only accepts temperatures up to 1
+  const temperature = clamp(parameters.temperature, 0, 1);
+
+  console.log(`✨ Calling Anthropic API (model: ${model}, temp: ${temperature}, top_p: ${parameters.topP})`);
+  const response = await fetch(ANTHROPIC_API_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-api-key": process.env.ANTHROPIC_API_KEY || "",
+      "anthropic-version": ANTHROPIC_VERSION,
+    },
+    body: JSON.stringify({
+      model,
+      max_tokens: maxTokens,
+      messages: [{ role: "user", content: responseFormat ? withJsonInstruction(prompt, responseFormat) : prompt }],
+      temperature,
+      // Only send top_p when it actually narrows sampling
+      ...(parameters.topP < 1 ? { top_p: parameters.topP } : {}),
+      stream: Boolean(onToken),
+    }),
+  });
+
+  if (!response.ok) {
+    const body: AnthropicErrorResponse = await response.json().catch(() => ({}));
+    const error = new Error(body.error?.message || `Anthropic API returned ${response.status}`);
+    throw Object.assign(error, { status: response.status, code: body.error?.type });
+  }
+
+  if (onToken && response.body) {
+    return readAnthropicStream(response.body, model, onToken);
+  }
+
+  const data: AnthropicMessageResponse = await response.json();
+  const content = data.content
+    .filter((block) => block.type === "text")
+    .map((block) => block.text || "")
+    .join("");
+  const tokenCount = (data.usage?.input_tokens || 0) + (data.usage?.output_tokens || 0);
+
+  console.log(`✅ Anthropic response received (tokens: ${tokenCount}, model: ${data.model})`);
+  return {
+    content,
+    tokenCount,
+    model: data.model,
+    provider: "anthropic",
+  };
+}
+
+/**
+ * The Messages API has no JSON mode, so the format is asked for in the prompt
+ */
+function withJsonInstruction(prompt: string, { schema }: ResponseFormat): string {
+  const instruction = schema
+    ? `Respond with only a JSON value that matches this JSON Schema, with no other text:\n${JSON.stringify(schema, null, 2)}`
+    : "Respond with only valid JSON, with no other text.";
+  return `${prompt}\n\n${instruction}`;
+}
+
+/**
+ * Collect a streamed Messages API response, forwarding text deltas
+ */
+async function readAnthropicStream(
+  body: ReadableStream<Uint8Array>,
+  model: string,
+  onToken: (delta: string) => void
+): Promise<LLMGenerateResult> {
+  let content = "";
+  let responseModel = model;
+  let inputTokens = 0;
+  let outputTokens = 0;
+
+  await readSSE(body, ({ data }) => {
+    const event: AnthropicStreamEvent = JSON.parse(data);
+
+    if (event.type === "message_start" && event.message) {
+      responseModel = event.message.model;
+      inputTokens = event.message.usage?.input_tokens || 0;
+    } else if (event.type === "content_block_delta" && event.delta?.type === "text_delta" && event.delta.text) {
+      content += event.delta.text;
+      onToken(event.delta.text);
+    } else if (event.type === "message_delta" && event.usage) {
+      outputTokens = event.usage.output_tokens;
+    } else if (event.type === "error") {
+      throw new Error("Anthropic stream returned an error event");
+    }
+  });
+
+  const tokenCount = inputTokens + outputTokens;
+  console.log(`✅ Anthropic response streamed (tokens: ${tokenCount}, model: ${responseModel})`);
+  return {
+    content,
+    tokenCount,
+    model: responseModel,
+    provider: "anthropic",
+  };
+}
@@ -0,0 +1,45 @@
+import { z } from "zod";
+import { LLMProvider } from "@/types";
+import { createOpenAICompatibleProvider } from "./openai";
+
+const endpointProfileSchema = z.object({
+  name: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/i, "Endpoint names may only contain letters, digits, '-' and '_'"),
+  baseURL: z.string().url(),
+  apiKey: z.string().optional(),
+  defaultModel: z.string().min(1),
+});
+
+export type EndpointProfile = z.infer<typeof endpointProfileSchema>;
+
+/**
+ * Read named OpenAI-compatible endpoint profiles from LLM_ENDPOINTS
+ *
+ * LLM_ENDPOINTS holds a JSON array, e.g.
+ * [{"name":"vllm","baseURL":"http://localhost:8000/v1","defaultModel":"llama-3.1-8b"}]
+ */
+export function loadEndpointProfiles(raw: string | undefined = process.env.LLM_ENDPOINTS): EndpointProfile[] {
+  if (!raw) {
+    return [];
+  }
+
+  try {
+    return z.array(endpointProfileSchema).parse(JSON.parse(raw));
+  } catch (error) {
+    console.error("❌ Invalid LLM_ENDPOINTS configuration:", (error as Error).message);
+    return [];
+  }
+}
+
+/**
+ * Create a provider for a local inference server (vLLM, llama.cpp server, Ollama, ...)
+ */
+export function createEndpointProvider(profile: EndpointProfile): LLMProvider {
+  return createOpenAICompatibleProvider({
+    id: profile.name,
+    name: profile.name,
+    defaultModel: profile.defaultModel,
+    apiKey: profile.apiKey,
+    baseURL: profile.baseURL,
+    requiresApiKey: false,
+  });
+}
@@ -0,0 +1,77 @@
+import { LLMProvider } from "@/types";
+import { openaiProvider } from "./openai";
+import { anthropicProvider } from "./anthropic";
+import { mistralProvider } from "./mistral";
+import { mockProvider } from "./mock";
+import { loadEndpointProfiles, createEndpointProvider } from "./endpoints";
+
+export { mockProvider };
+
+export const DEFAULT_MODEL_ID = process.env.LLM_DEFAULT_MODEL || "openai:gpt-4o-mini";
+
+const providers = new Map<string, LLMProvider>();
+
+/**
+ * Register a provider adapter under its id
+ */
+export function registerProvider(provider: LLMProvider): void {
+  providers.set(provider.id, provider);
+}
+
+/**
+ * Look up a provider adapter by id
+ */
+export function getProvider(id: string): LLMProvider | undefined {
+  return providers.get(id);
+}
+
+/**
+ * List all registered provider adapters
+ */
+export function listProviders(): LLMProvider[] {
+  return [...providers.values()];
+}
+
+/**
+ * Split a "provider:model" string into its parts
+ *
+ * A bare model name without a known provider prefix (e.g. "gpt-4o-mini")
+ * is treated as an OpenAI model for backwards compatibility. Only the first
+ * colon separates the provider, so "ollama:llama3:8b" keeps its model tag.
+ */
+export function parseModelId(modelId: string): { providerId: string; model?: string } {
+  const separatorIndex = modelId.indexOf(":");
+
+  if (separatorIndex === -1) {
+    return providers.has(modelId)
+      ? { providerId: modelId }
+      : { providerId: openaiProvider.id, model: modelId };
+  }
+
+  const model = modelId.slice(separatorIndex + 1);
+  return {
+    providerId: modelId.slice(0, separatorIndex),
+    model: model || undefined,
+  };
+}
+
+/**
+ * Build a "provider:model" string
+ */
+export function formatModelId(providerId: string, model: string): string {
+  return `${providerId}:${model}`;
+}
+
+registerProvider(openaiProvider);
+registerProvider(anthropicProvider);
+registerProvider(mistralProvider);
+registerProvider(mockProvider);
+
+// Named OpenAI-compatible endpoints (local inference servers)
+for (const profile of loadEndpointProfiles()) {
+  if (providers.has(profile.name)) {
+    console.warn(`⚠️ Endpoint profile "${profile.name}" clashes with a built-in provider and was skipped`);
+    continue;
+  }
+  registerProvider(createEndpointProvider(profile));
+}
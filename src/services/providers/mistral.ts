@@ -0,0 +1,12 @@
+import { createOpenAICompatibleProvider } from "./openai";
+
+/**
+ * Mistral exposes an OpenAI-compatible chat completions API
+ */
+export const mistralProvider = createOpenAICompatibleProvider({
+  id: "mistral",
+  name: "Mistral",
+  defaultModel: "mistral-small-latest",
+  apiKey: process.env.MISTRAL_API_KEY,
+  baseURL: "https://api.mistral.ai/v1",
+});
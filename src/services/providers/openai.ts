@@ -0,0 +1,116 @@
+import OpenAI from "openai";
+import { LLMProvider, ProviderRequest, LLMGenerateResult, ResponseFormat } from "@/types";
+
+interface OpenAICompatibleOptions {
+  id: string;
+  name: string;
+  defaultModel: string;
+  apiKey?: string;
+  baseURL?: string;
+  requiresApiKey?: boolean; // Local inference servers usually accept any key
+}
+
+/**
+ * Create a provider for any API that speaks the OpenAI chat completions protocol
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): LLMProvider {
+  let client: OpenAI | null = null;
+
+  // Create the client lazily so unconfigured providers never touch the SDK
+  const getClient = (): OpenAI => {
+    if (!client) {
+      client = new OpenAI({
+        // Never let the SDK fall back to OPENAI_API_KEY for another endpoint
+        apiKey: options.apiKey || "not-needed",
+        baseURL: options.baseURL,
+      });
+    }
+    return client;
+  };
+
+  return {
+    id: options.id,
+    name: options.name,
+    defaultModel: options.defaultModel,
+    baseURL: options.baseURL,
+    isConfigured: () => options.requiresApiKey === false || Boolean(options.apiKey),
+    async generate({
+      prompt,
+      parameters,
+      model,
+      maxTokens,
+      onToken,
+      responseFormat,
+    }: ProviderRequest): Promise<LLMGenerateResult> {
+      console.log(`✨ Calling ${options.name} API (model: ${model}, temp: ${parameters.temperature}, top_p: ${parameters.topP}${onToken ? ", streaming" : ""})`);
+      const request = {
+        model: model,
+        messages: [
+          {
+            role: "user" as const,
+            content: prompt,
+          },
+        ],
+        temperature: parameters.temperature,
+        top_p: parameters.topP,
+        max_tokens: maxTokens,
+        ...(responseFormat ? { response_format: toOpenAIResponseFormat(responseFormat) } : {}),
+      };
+
+      let content = "";
+      let tokenCount = 0;
+      let responseModel = model;
+
+      if (onToken) {
+        const stream = await getClient().chat.completions.create({
+          ...request,
+          stream: true,
+          stream_options: { include_usage: true },
+        });
+
+        for await (const chunk of stream) {
+          const delta = chunk.choices[0]?.delta?.content;
+          if (delta) {
+            content += delta;
+            onToken(delta);
+          }
+          responseModel = chunk.model || responseModel;
+          tokenCount = chunk.usage?.total_tokens || tokenCount;
+        }
+      } else {
+        const response = await getClient().chat.completions.create(request);
+        content = response.choices[0]?.message?.content || "";
+        tokenCount = response.usage?.total_tokens || 0;
+        responseModel = response.model;
+      }
+
+      console.log(`✅ ${options.name} response received (tokens: ${tokenCount}, model: ${responseModel})`);
+      return {
+        content,
+        tokenCount,
+        model: responseModel,
+        provider: options.id,
+      };
+    },
+  };
+}
+
+/**
+ * JSON Schema mode when a schema is given, plain JSON mode otherwise
+ */
+function toOpenAIResponseFormat({ schema }: ResponseFormat) {
+  if (!schema) {
+    return { type: "json_object" as const };
+  }
+  return {
+    type: "json_schema" as const,
+    json_schema: { name: "response", schema, strict: false },
+  };
+}
+
+export const openaiProvider = createOpenAICompatibleProvider({
+  id: "openai",
+  name: "OpenAI",
+  defaultModel: "gpt-4o-mini",
+  apiKey: process.env.OPENAI_API_KEY,
+});
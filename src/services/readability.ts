@@ -0,0 +1,231 @@
+import { ReadabilityIndices } from "@/types";
+import { proseSentences, stripInlineMarkdown } from "@/services/text-analysis";
+
+/**
+ * Named audiences and the US school grade they read at
+ */
+export const AUDIENCE_GRADES: Record<string, number> = {
+  children: 4,
+  "middle-school": 7,
+  general: 9,
+  college: 13,
+  expert: 16,
+};
+
+// Grades around the target that still score 100
+const GRADE_TOLERANCE = 1;
+
+// Points lost per grade beyond the tolerance
+const POINTS_PER_GRADE = 15;
+
+// Vowel-group counts that are off for common words
+const SYLLABLE_EXCEPTIONS: Record<string, number> = {
+  every: 2, everything: 3, everyone: 3, business: 2, different: 3, family: 3, evening: 2,
+  people: 2, being: 2, area: 3, idea: 3, create: 2, created: 3, poem: 2, poet: 2, science: 2,
+  quiet: 2, real: 1, really: 2, naive: 2, ruin: 2, fluid: 2, lion: 2, diet: 2, client: 2,
+  toward: 2, towards: 2, vehicle: 3, wednesday: 2, chocolate: 3, interest: 3, several: 3, recipe: 3,
+};
+
+// Familiar words of more than one syllable, after common inflections are
+// removed; a compact stand-in for the Dale-Chall list, whose one-syllable
+// words are all treated as familiar
+const FAMILIAR_WORDS = new Set(
+  `about above across after afternoon again against ago ahead alone along already also although always
+  among angry animal another answer any anybody anyone anything anyway anywhere apple apron around arrive
+  away baby backward bacon balloon banana barber basket beautiful because become before began begin behind
+  believe belong below beside besides better between bicycle birthday blanket body borrow bottle bottom
+  breakfast brother bucket building butter button cabin calendar camel candle candy careful carpet carrot
+  carry castle center cereal chicken children chimney circle city clever closet coffee color common
+  company computer cookie corner cotton country cousin cover crazy cupboard daddy danger daughter dinner
+  dinosaur doctor dollar donkey double dozen eager early easy either elephant empty enemy engine enjoy
+  enough even evening ever every everybody everything except exercise family famous farmer father favorite
+  feather fever finger finish flower follow forest forever forget forgive forward garbage garden gather
+  gentle giant hamburger happen happy harbor heavy hello helpful herself himself holiday hollow honest
+  honey hundred hungry husband idea important information inside instead internet into iron island itself
+  jacket jelly journey kitchen kitten ladder lady language later lazy lemon lesson letter library lily
+  lion listen little lovely lucky machine many market marry matter maybe measure medicine melon member
+  message middle minute mirror moment money monkey morning mother motor mountain music myself narrow
+  nation nature nearly necklace neighbor never newspaper nobody nothing notice number ocean office often
+  okay open orange other outside over paper parent party pencil penny people person photo picture pillow
+  pity planet pocket pony popcorn potato pretty problem program project promise public puppy purple
+  quarter question quiet rabbit radio rainbow rather ready reason record remember repeat return river
+  robin rocket sailor salad sandwich scissors season second secret service seven seventy several shadow
+  shoulder silent silver simple sister sixty soldier something sometimes somewhere sorry special spider
+  squirrel station story student study sudden sugar summer supper surprise sweater system table teacher
+  telephone television thirty thousand ticket tiger tiny today together tomato tomorrow tonight total
+  towel tower travel trouble turkey turtle twenty under until upon useful valley very video village visit
+  vitamin wagon wallet water weather welcome whatever whenever whether whisper whistle window winter
+  without woman wonder wonderful yellow yesterday`.split(/\s+/)
+);
+
+interface TextStats {
+  sentences: number;
+  words: string[];
+  syllables: number[];
+  letters: number;
+  complexWords: number; // Three or more syllables, not counting proper nouns, hyphenated compounds or -es/-ed/-ing
+  difficultWords: number; // Not in the familiar-word list
+}
+
+/**
+ * Standard readability indices of the prose in a text; null when there is
+ * no prose
+ *
+ * Grade-level indices use US school grades; `consensusGrade` is their
+ * median. Dale-Chall's raw score is mapped to the grade it corresponds to.
+ */
+export function calculateReadabilityIndices(text: string): ReadabilityIndices | null {
+  const stats = getTextStats(text);
+  if (!stats) return null;
+
+  const { sentences, words, syllables, letters, complexWords, difficultWords } = stats;
+  const wordsPerSentence = words.length / sentences;
+  const syllablesPerWord = syllables.reduce((sum, count) => sum + count, 0) / words.length;
+  const polysyllables = syllables.filter((count) => count >= 3).length;
+
+  const fleschReadingEase = 206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord;
+  const fleschKincaidGrade = 0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59;
+  const gunningFog = 0.4 * (wordsPerSentence + (100 * complexWords) / words.length);
+  const smog = 1.043 * Math.sqrt((polysyllables * 30) / sentences) + 3.1291;
+  const colemanLiau = 0.0588 * ((letters / words.length) * 100) - 0.296 * ((sentences / words.length) * 100) - 15.8;
+
+  const difficultPercent = (100 * difficultWords) / words.length;
+  const daleChall = 0.1579 * difficultPercent + 0.0496 * wordsPerSentence + (difficultPercent > 5 ? 3.6365 : 0);
+
+  const grades = [fleschKincaidGrade, gunningFog, smog, colemanLiau, daleChallGrade(daleChall)];
+
+  return {
+    fleschReadingEase: round(fleschReadingEase),
+    fleschKincaidGrade: round(fleschKincaidGrade),
+    gunningFog: round(gunningFog),
+    smog: round(smog),
+    colemanLiau: round(colemanLiau),
+    daleChall: round(daleChall),
+    consensusGrade: round(median(grades)),
+    words: words.length,
+    sentences,
+  };
+}
+
+/**
+ * The grade an audience reads at: a named audience or "grade N" (1-20);
+ * null when the audience is not recognized
+ */
+export function resolveTargetGrade(audience: string): number | null {
+  const normalized = audience.trim().toLowerCase();
+  if (Object.hasOwn(AUDIENCE_GRADES, normalized)) return AUDIENCE_GRADES[normalized];
+
+  const grade = Number(normalized.match(/^grade[\s-]?(\d{1,2})$/)?.[1]);
+  return grade >= 1 && grade <= 20 ? grade : null;
+}
+
+/**
+ * 0-100 closeness of a grade level to the target: 100 within one grade,
+ * then 15 points less for every further grade in either direction
+ */
+export function gradeDistanceScore(grade: number, targetGrade: number): number {
+  const distance = Math.max(0, Math.abs(grade - targetGrade) - GRADE_TOLERANCE);
+  return Math.max(0, 100 - distance * POINTS_PER_GRADE);
+}
+
+/**
+ * Estimate the syllables of an English word
+ *
+ * Counts vowel groups, then corrects for silent final "e" (but not "-le"),
+ * silent "-es"/"-ed" (but not "-ted"/"-ded"), vowel pairs that are two
+ * syllables ("ia", "eo", "ua", ...), and a list of common exceptions.
+ */
+export function countSyllables(word: string): number {
+  const lower = word.toLowerCase().replace(/[^a-z]/g, "");
+  if (lower.length === 0) return 0;
+  if (Object.hasOwn(SYLLABLE_EXCEPTIONS, lower)) return SYLLABLE_EXCEPTIONS[lower];
+  if (lower.length <= 3) return 1;
+
+  let stem = lower;
+  let count = 0;
+  if (/(?:[sxzcg]|[cs]h)es$/.test(stem)) {
+    // "-es" after a hissing sound is its own syllable: "boxes", "places"
+    stem = stem.slice(0, -2);
+    count++;
+  } else if (/es$/.test(stem)) {
+    stem = stem.slice(0, -1);
+  } else if (/[^td]ed$/.test(stem) && !/eed$/.test(stem)) {
+    stem = stem.slice(0, -2);
+  }
+  if (/[^aeiouy]e$/.test(stem) && !/[^aeiouy]le$/.test(stem)) {
+    stem = stem.slice(0, -1);
+  }
+
+  count += (stem.replace(/^y/, "").match(/[aeiouy]+/g) || []).length;
+
+  // Vowel pairs spoken as two syllables
+  count += (stem.match(/ia(?!l\b)|io(?!n)|eo|ua|uo|iu|ie(?:t|r\b)|[aeiou]ing\b|ya|[^aeiouy]ism\b/g) || []).length;
+
+  // Silent "e" kept inside suffixed words: "lovely", "statement", "careful"
+  count -= (lower.match(/[^aeiouy]e(?:ly|ment|ful|ness|less)$/) || []).length;
+
+  return Math.max(1, count);
+}
+
+function getTextStats(text: string): TextStats | null {
+  const sentences = proseSentences(text).map((sentence) => stripInlineMarkdown(sentence.text));
+  const tokens = sentences.flatMap((sentence) =>
+    sentence.split(/\s+/).map((token, index) => ({
+      token: token.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ""),
+      sentenceStart: index === 0,
+    }))
+  );
+  const words = tokens.filter(({ token }) => /\p{L}/u.test(token));
+  if (words.length === 0 || sentences.length === 0) return null;
+
+  const syllables = words.map(({ token }) => countSyllables(token));
+
+  return {
+    sentences: sentences.length,
+    words: words.map(({ token }) => token),
+    syllables,
+    letters: words.reduce((sum, { token }) => sum + (token.match(/\p{L}/gu) || []).length, 0),
+    complexWords: words.filter(
+      ({ token, sentenceStart }, index) =>
+        syllables[index] >= 3 &&
+        !token.includes("-") &&
+        !(/^\p{Lu}/u.test(token) && !sentenceStart) &&
+        countSyllables(token.replace(/(?:es|ed|ing)$/i, "")) >= 3
+    ).length,
+    difficultWords: words.filter(
+      ({ token }, index) => syllables[index] > 1 && !isFamiliar(token.toLowerCase())
+    ).length,
+  };
+}
+
+function isFamiliar(word: string): boolean {
+  if (FAMILIAR_WORDS.has(word)) return true;
+
+  // Regular inflections of familiar words: "animals", "answered", "happier"
+  return [/s$/, /es$/, /ed$/, /d$/, /ing$/, /er$/, /est$/, /ly$/, /ies$/, /ied$/, /ier$/].some((suffix) => {
+    if (!suffix.test(word)) return false;
+    const stem = word.replace(suffix, "");
+    return FAMILIAR_WORDS.has(stem) || FAMILIAR_WORDS.has(`${stem}e`) || FAMILIAR_WORDS.has(`${stem}y`);
+  });
+}
+
+// Grade a Dale-Chall score corresponds to, at the middle of its band
+function daleChallGrade(score: number): number {
+  if (score < 5) return 4;
+  if (score < 6) return 5.5;
+  if (score < 7) return 7.5;
+  if (score < 8) return 9.5;
+  if (score < 9) return 11.5;
+  if (score < 10) return 14;
+  return 16;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,150 @@
+/**
+ * Reference-based metrics that compare a response with a gold answer
+ *
+ * All scores are on 0-1 here; the metric registry scales them for display.
+ */
+
+export interface OverlapScore {
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+/**
+ * Lowercase, strip punctuation and articles, and collapse whitespace
+ * (SQuAD-style answer normalization)
+ */
+export function normalizeAnswer(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\b(a|an|the)\b/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Lowercased word tokens, punctuation removed
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+/**
+ * 1 when the normalized response equals the normalized reference
+ */
+export function exactMatch(response: string, reference: string): number {
+  return normalizeAnswer(response) === normalizeAnswer(reference) ? 1 : 0;
+}
+
+/**
+ * Token-level F1 over normalized answers, as used for extractive QA
+ */
+export function tokenF1(response: string, reference: string): OverlapScore {
+  const candidate = normalizeAnswer(response).split(" ").filter(Boolean);
+  const gold = normalizeAnswer(reference).split(" ").filter(Boolean);
+  return overlap(countOf(candidate), countOf(gold), candidate.length, gold.length);
+}
+
+/**
+ * ROUGE-N: n-gram overlap between response and reference
+ */
+export function rougeN(response: string, reference: string, n: number): OverlapScore {
+  const candidate = ngrams(tokenize(response), n);
+  const gold = ngrams(tokenize(reference), n);
+  return overlap(countOf(candidate), countOf(gold), candidate.length, gold.length);
+}
+
+/**
+ * ROUGE-L: longest common subsequence of tokens
+ */
+export function rougeL(response: string, reference: string): OverlapScore {
+  const candidate = tokenize(response);
+  const gold = tokenize(reference);
+  const lcs = longestCommonSubsequence(candidate, gold);
+
+  const precision = candidate.length > 0 ? lcs / candidate.length : 0;
+  const recall = gold.length > 0 ? lcs / gold.length : 0;
+  return { precision, recall, f1: harmonicMean(precision, recall) };
+}
+
+/**
+ * Sentence-level BLEU with up to 4-grams and a brevity penalty
+ *
+ * Uses add-one smoothing for n > 1 so short responses with no matching
+ * 4-gram do not collapse to 0.
+ */
+export function bleu(response: string, reference: string, maxN = 4): number {
+  const candidate = tokenize(response);
+  const gold = tokenize(reference);
+  if (candidate.length === 0 || gold.length === 0) return 0;
+
+  let logPrecisionSum = 0;
+  for (let n = 1; n <= maxN; n++) {
+    const candidateNgrams = ngrams(candidate, n);
+    const goldCounts = countOf(ngrams(gold, n));
+    const matches = clippedMatches(countOf(candidateNgrams), goldCounts);
+
+    if (n === 1 && matches === 0) return 0;
+
+    const smoothing = n === 1 ? 0 : 1;
+    const precision = (matches + smoothing) / (candidateNgrams.length + smoothing);
+    logPrecisionSum += Math.log(precision);
+  }
+
+  const brevityPenalty = candidate.length >= gold.length ? 1 : Math.exp(1 - gold.length / candidate.length);
+  return brevityPenalty * Math.exp(logPrecisionSum / maxN);
+}
+
+function ngrams(tokens: string[], n: number): string[] {
+  const result: string[] = [];
+  for (let i = 0; i + n <= tokens.length; i++) {
+    result.push(tokens.slice(i, i + n).join(" "));
+  }
+  return result;
+}
+
+function countOf(items: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    counts.set(item, (counts.get(item) || 0) + 1);
+  }
+  return counts;
+}
+
+function clippedMatches(candidate: Map<string, number>, reference: Map<string, number>): number {
+  let matches = 0;
+  for (const [item, count] of candidate) {
+    matches += Math.min(count, reference.get(item) || 0);
+  }
+  return matches;
+}
+
+function overlap(
+  candidate: Map<string, number>,
+  reference: Map<string, number>,
+  candidateTotal: number,
+  referenceTotal: number
+): OverlapScore {
+  const matches = clippedMatches(candidate, reference);
+  const precision = candidateTotal > 0 ? matches / candidateTotal : 0;
+  const recall = referenceTotal > 0 ? matches / referenceTotal : 0;
+  return { precision, recall, f1: harmonicMean(precision, recall) };
+}
+
+function harmonicMean(precision: number, recall: number): number {
+  return precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+}
+
+function longestCommonSubsequence(a: string[], b: string[]): number {
+  // Two rolling rows keep memory linear in the reference length
+  let previous = new Array(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    const current = new Array(b.length + 1).fill(0);
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = a[i - 1] === b[j - 1] ? previous[j - 1] + 1 : Math.max(previous[j], current[j - 1]);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { experimentSettingsSchema } from "@/lib/schemas";
+import { analyzeSafety, redactText } from "./safety";
+
+const patternSettings = (pattern: string) =>
+  experimentSettingsSchema.shape.safety.safeParse({ patterns: [{ id: "custom", category: "pii", pattern }] });
+
+describe("analyzeSafety", () => {
+  it("flags built-in findings and deducts per distinct finding", () => {
+    const report = analyzeSafety("Mail jane.doe@corp.io or jane.doe@corp.io, SSN 123-45-6789.");
+
+    expect(report.flags).toEqual(["email", "ssn"]);
+    expect(report.findings).toHaveLength(3);
+    expect(report.score).toBe(50);
+  });
+
+  it("rejects false positives and honours the allowlist", () => {
+    expect(analyzeSafety("Card 4111 1111 1111 1112, host 192.168.0.1").findings).toEqual([]);
+    expect(analyzeSafety("Write to support@example.com", { allow: ["SUPPORT@example.com"] }).findings).toEqual([]);
+  });
+
+  it("runs the experiment's own lexicons and patterns", () => {
+    const report = analyzeSafety("Employee EMP-123456 called the manager an idiot", {
+      disabled: ["harassment"],
+      lexicons: [{ id: "rude", category: "toxicity", terms: ["idiot"] }],
+      patterns: [{ id: "employeeId", category: "pii", pattern: "emp-\\d{6}" }],
+    });
+
+    expect(report.flags.sort()).toEqual(["employeeId", "rude"]);
+  });
+
+  it("redacts findings from the text", () => {
+    const text = "SSN 123-45-6789.";
+    expect(redactText(text, analyzeSafety(text).findings)).toBe("SSN [REDACTED:ssn].");
+  });
+});
+
+describe("custom pattern validation", () => {
+  it("accepts ordinary patterns", () => {
+    expect(patternSettings("EMP-\\d{6}").success).toBe(true);
+    expect(patternSettings("\\b(?:secret|token)\\s*[:=]\\s*\\S{8,}").success).toBe(true);
+  });
+
+  it("rejects invalid patterns", () => {
+    const result = patternSettings("(");
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map((issue) => issue.message)).toEqual(["Invalid regular expression"]);
+  });
+
+  it.each(["(a+)+$", "(\\w+\\s?)*$", "(.*a){20}"])("rejects %s, which can backtrack catastrophically", (pattern) => {
+    const result = patternSettings(pattern);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toMatch(/backtrack catastrophically/);
+  });
+});
@@ -0,0 +1,119 @@
+import { ScoringProfile } from "@/types";
+
+// Scoring profile registry keyed by ID
+const profiles = new Map<string, ScoringProfile>();
+
+/**
+ * Profile used when an experiment does not choose one
+ */
+export const DEFAULT_SCORING_PROFILE = "balanced";
+
+/**
+ * Register a scoring profile so experiments can select it by ID
+ */
+export function registerScoringProfile(profile: ScoringProfile): void {
+  profiles.set(profile.id, profile);
+}
+
+/**
+ * Look up a scoring profile by ID
+ */
+export function getScoringProfile(id: string): ScoringProfile | undefined {
+  return profiles.get(id);
+}
+
+/**
+ * All registered scoring profiles
+ */
+export function listScoringProfiles(): ScoringProfile[] {
+  return [...profiles.values()];
+}
+
+/**
+ * Weighted average of 0-100 metric scores under a profile
+ *
+ * Metrics the profile does not mention weigh 1. If any gate trips, the
+ * overall score is 0 regardless of the other metrics.
+ */
+export function calculateOverall(normalizedScores: Record<string, number>, profile: ScoringProfile): number {
+  const tripped = getTrippedGates(normalizedScores, profile);
+  if (tripped.length > 0) {
+    return 0;
+  }
+
+  let weightedSum = 0;
+  let totalWeight = 0;
+
+  for (const [metricId, score] of Object.entries(normalizedScores)) {
+    const weight = profile.weights[metricId] ?? 1;
+    weightedSum += score * weight;
+    totalWeight += weight;
+  }
+
+  return totalWeight > 0 ? Math.round(weightedSum / totalWeight) : 0;
+}
+
+/**
+ * Gates whose metric scored below the threshold (metrics that were not
+ * scored never trip a gate)
+ */
+export function getTrippedGates(normalizedScores: Record<string, number>, profile: ScoringProfile) {
+  return (profile.gates || []).filter(
+    (gate) => normalizedScores[gate.metric] !== undefined && normalizedScores[gate.metric] < gate.below
+  );
+}
+
+registerScoringProfile({
+  id: "balanced",
+  name: "Balanced",
+  description: "Every metric counts equally",
+  weights: {},
+});
+
+registerScoringProfile({
+  id: "summarization",
+  name: "Summarization",
+  description: "Favors concise, complete summaries; structure matters little",
+  weights: {
+    lengthAppropriateness: 3,
+    completeness: 2,
+    coherence: 1.5,
+    readability: 1,
+    structuralQuality: 0.5,
+  },
+  gates: [{ metric: "completeness", below: 40 }],
+});
+
+registerScoringProfile({
+  id: "code-answer",
+  name: "Code Answer",
+  description: "Favors complete answers with working code in the requested language",
+  weights: {
+    codeTests: 3,
+    codeParses: 3,
+    completeness: 2,
+    codeLanguage: 1.5,
+    structuralQuality: 1,
+    codeExplained: 1,
+    coherence: 1,
+    lengthAppropriateness: 1,
+    readability: 0.5,
+  },
+  gates: [
+    { metric: "completeness", below: 30 },
+    { metric: "codeParses", below: 50 },
+  ],
+});
+
+registerScoringProfile({
+  id: "chat",
+  name: "Chat",
+  description: "Favors easy-to-read, conversational replies of sensible length",
+  weights: {
+    readability: 2,
+    coherence: 1.5,
+    lengthAppropriateness: 1.5,
+    completeness: 1,
+    structuralQuality: 0.5,
+  },
+});
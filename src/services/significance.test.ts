@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import { LLMResponse } from "@/types";
+import {
+  adjustPValues,
+  bootstrapTest,
+  compareParameterSets,
+  effectSize,
+  mannWhitneyTest,
+  permutationTest,
+} from "./significance";
+
+function responses(temperature: number, scores: number[]): LLMResponse[] {
+  return scores.map((overall, sampleIndex) => ({
+    id: `${temperature}-${sampleIndex}`,
+    content: "",
+    parameters: { temperature, topP: 1 },
+    sampleIndex,
+    metrics: { overall },
+    generatedAt: new Date(0),
+    tokenCount: 0,
+    model: "mock",
+  }));
+}
+
+describe("mannWhitneyTest", () => {
+  it("matches the normal approximation with continuity correction", () => {
+    // U = 0, mean 12.5, variance 25 * 11 / 12; scipy gives 0.01219
+    expect(mannWhitneyTest([1, 2, 3, 4, 5], [6, 7, 8, 9, 10])).toBeCloseTo(0.0122, 4);
+  });
+
+  it("is symmetric in its arguments", () => {
+    const a = [3, 5, 5, 8, 9];
+    const b = [1, 2, 5, 6];
+    expect(mannWhitneyTest(a, b)).toBe(mannWhitneyTest(b, a));
+  });
+
+  it("accounts for ties", () => {
+    // U = 3; ties shrink the variance to 25 / 12 * (11 - 60 / 90)
+    expect(mannWhitneyTest([1, 1, 2, 2, 3], [2, 3, 3, 4, 4])).toBeCloseTo(0.0524, 4);
+  });
+
+  it("returns 1 for identical groups, constant values and empty groups", () => {
+    expect(mannWhitneyTest([1, 2, 3], [1, 2, 3])).toBeCloseTo(1, 6);
+    expect(mannWhitneyTest([5, 5], [5, 5, 5])).toBe(1);
+    expect(mannWhitneyTest([], [1, 2])).toBe(1);
+  });
+});
+
+describe("resampling tests", () => {
+  const low = [60, 62, 61, 63, 59];
+  const high = [80, 82, 81, 79, 83];
+
+  it("finds a clear difference", () => {
+    expect(permutationTest(low, high)).toBeLessThan(0.02);
+    expect(bootstrapTest(low, high)).toBeLessThan(0.02);
+  });
+
+  it("finds no difference between identical groups", () => {
+    expect(permutationTest(low, [...low])).toBe(1);
+    expect(bootstrapTest(low, [...low])).toBe(1);
+  });
+
+  it("is reproducible for a seed", () => {
+    const a = [60, 70, 65, 72];
+    const b = [66, 74, 69, 71];
+    expect(permutationTest(a, b)).toBe(permutationTest(a, b));
+    expect(bootstrapTest(a, b)).toBe(bootstrapTest(a, b));
+    expect(permutationTest(a, b, 1000, 1)).not.toBe(permutationTest(a, b, 1000, 2));
+  });
+});
+
+describe("effectSize", () => {
+  it("computes Cohen's d with the pooled standard deviation and Cliff's delta", () => {
+    expect(effectSize([1, 2, 3], [4, 5, 6])).toEqual({ cohensD: -3, cliffsDelta: -1 });
+    expect(effectSize([1, 3, 5], [2, 4])).toEqual({ cohensD: 0, cliffsDelta: 0 });
+  });
+
+  it("is zero without spread or samples", () => {
+    expect(effectSize([4], [4])).toEqual({ cohensD: 0, cliffsDelta: 0 });
+    expect(effectSize([], [1, 2])).toEqual({ cohensD: 0, cliffsDelta: 0 });
+  });
+});
+
+describe("adjustPValues", () => {
+  const pValues = [0.01, 0.04, 0.03];
+
+  it("leaves p-values alone without a correction", () => {
+    expect(adjustPValues(pValues, "none")).toEqual(pValues);
+  });
+
+  it("multiplies by the family size for Bonferroni, capped at 1", () => {
+    const adjusted = adjustPValues([...pValues, 0.5], "bonferroni");
+    [0.04, 0.16, 0.12, 1].forEach((p, i) => expect(adjusted[i]).toBeCloseTo(p, 10));
+  });
+
+  it("steps down for Holm, never decreasing along the sorted order", () => {
+    const adjusted = adjustPValues(pValues, "holm");
+    [0.03, 0.06, 0.06].forEach((p, i) => expect(adjusted[i]).toBeCloseTo(p, 10));
+  });
+
+  it("steps up for Benjamini-Hochberg", () => {
+    const adjusted = adjustPValues(pValues, "benjamini-hochberg");
+    [0.03, 0.04, 0.04].forEach((p, i) => expect(adjusted[i]).toBeCloseTo(p, 10));
+  });
+
+  it("handles an empty family", () => {
+    expect(adjustPValues([], "holm")).toEqual([]);
+  });
+});
+
+describe("compareParameterSets", () => {
+  it("compares every pair and marks a winner that beats all others", () => {
+    const report = compareParameterSets([
+      ...responses(0.2, [60, 62, 61, 63, 59, 60, 62, 61]),
+      ...responses(0.7, [80, 82, 81, 79, 83, 80, 82, 81]),
+      ...responses(1.5, [40, 42, 41, 39, 43, 40, 42, 41]),
+    ]);
+
+    expect(report.comparisons).toHaveLength(3);
+    expect(report.comparisons.every((c) => c.significant)).toBe(true);
+    expect(report.winner).toEqual({ parameters: { temperature: 0.7, topP: 1 }, mean: 81, significant: true });
+  });
+
+  it("does not call a winner significant when it ties with another set", () => {
+    const report = compareParameterSets([
+      ...responses(0.2, [70, 72, 71, 69]),
+      ...responses(0.7, [71, 70, 72, 70]),
+    ]);
+
+    expect(report.winner?.significant).toBe(false);
+  });
+
+  it("skips the test when a side has a single sample", () => {
+    const report = compareParameterSets([...responses(0.2, [10]), ...responses(0.7, [90, 95])]);
+
+    expect(report.comparisons[0].pValue).toBe(1);
+    expect(report.winner?.significant).toBe(false);
+  });
+
+  it("has nothing to beat with one parameter set", () => {
+    const report = compareParameterSets(responses(0.7, [80, 82]));
+
+    expect(report.comparisons).toEqual([]);
+    expect(report.winner?.significant).toBe(false);
+  });
+});
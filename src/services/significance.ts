@@ -0,0 +1,347 @@
+import {
+  EffectSize,
+  LLMParameters,
+  LLMResponse,
+  MultipleComparisonCorrection,
+  PairwiseComparison,
+  SignificanceReport,
+  SignificanceTest,
+} from "@/types";
+import { average, standardDeviation } from "@/lib/utils";
+
+export interface SignificanceOptions {
+  test?: SignificanceTest;
+  correction?: MultipleComparisonCorrection;
+  alpha?: number;
+  metric?: string;
+  iterations?: number; // Resamples for the bootstrap and permutation tests
+}
+
+interface ParameterGroup {
+  parameters: LLMParameters;
+  responses: LLMResponse[];
+}
+
+// Fixed seed so the same experiment always reports the same p-values
+const RESAMPLING_SEED = 42;
+
+/**
+ * Compare every pair of parameter sets on every metric
+ *
+ * p-values are corrected within each metric's family of pairwise tests. The
+ * winner is only marked significant when it beats every other parameter set.
+ */
+export function compareParameterSets(
+  responses: LLMResponse[],
+  options: SignificanceOptions = {}
+): SignificanceReport {
+  const {
+    test = "mann-whitney",
+    correction = "holm",
+    alpha = 0.05,
+    metric = "overall",
+    iterations = 1000,
+  } = options;
+
+  const groups = groupByParameters(responses);
+  const metricKeys = [...new Set(responses.flatMap((r) => Object.keys(r.metrics)))];
+
+  const comparisons: PairwiseComparison[] = [];
+
+  for (const key of metricKeys) {
+    const family: Omit<PairwiseComparison, "adjustedPValue" | "significant">[] = [];
+
+    for (let i = 0; i < groups.length; i++) {
+      for (let j = i + 1; j < groups.length; j++) {
+        const a = scoresOf(groups[i].responses, key);
+        const b = scoresOf(groups[j].responses, key);
+
+        family.push({
+          a: groups[i].parameters,
+          b: groups[j].parameters,
+          metric: key,
+          meanDifference: round(average(a) - average(b)),
+          effectSize: effectSize(a, b),
+          pValue: runTest(test, a, b, iterations),
+        });
+      }
+    }
+
+    const adjusted = adjustPValues(family.map((c) => c.pValue), correction);
+    family.forEach((comparison, index) => {
+      comparisons.push({
+        ...comparison,
+        adjustedPValue: adjusted[index],
+        significant: adjusted[index] < alpha,
+      });
+    });
+  }
+
+  return {
+    test,
+    correction,
+    alpha,
+    metric,
+    comparisons,
+    winner: findWinner(groups, comparisons, metric),
+  };
+}
+
+/**
+ * Two-sided Mann-Whitney U test using the normal approximation with tie and
+ * continuity corrections
+ */
+export function mannWhitneyTest(a: number[], b: number[]): number {
+  const n1 = a.length;
+  const n2 = b.length;
+  if (n1 === 0 || n2 === 0) return 1;
+
+  const ranks = rank([...a, ...b]);
+  const rankSumA = ranks.slice(0, n1).reduce((sum, r) => sum + r, 0);
+  const u = rankSumA - (n1 * (n1 + 1)) / 2;
+
+  // Tied values shrink the variance of U
+  const n = n1 + n2;
+  const tieCounts = new Map<number, number>();
+  [...a, ...b].forEach((value) => tieCounts.set(value, (tieCounts.get(value) || 0) + 1));
+  const tieTerm = [...tieCounts.values()].reduce((sum, t) => sum + (t ** 3 - t), 0);
+
+  const meanU = (n1 * n2) / 2;
+  const varianceU = ((n1 * n2) / 12) * (n + 1 - tieTerm / (n * (n - 1)));
+  if (varianceU <= 0) return 1;
+
+  const z = Math.max(0, Math.abs(u - meanU) - 0.5) / Math.sqrt(varianceU);
+  return clampP(2 * (1 - normalCdf(z)));
+}
+
+/**
+ * Two-sided permutation test on the difference of means
+ */
+export function permutationTest(a: number[], b: number[], iterations = 1000, seed = RESAMPLING_SEED): number {
+  if (a.length === 0 || b.length === 0) return 1;
+
+  const random = createRandom(seed);
+  const pooled = [...a, ...b];
+  const observed = Math.abs(average(a) - average(b));
+  let extreme = 0;
+
+  for (let i = 0; i < iterations; i++) {
+    shuffle(pooled, random);
+    const difference = Math.abs(average(pooled.slice(0, a.length)) - average(pooled.slice(a.length)));
+    if (difference >= observed - 1e-9) extreme++;
+  }
+
+  return clampP((extreme + 1) / (iterations + 1));
+}
+
+/**
+ * Two-sided bootstrap test on the difference of means
+ *
+ * Both groups are shifted to the pooled mean so resampling happens under the
+ * null hypothesis of equal means.
+ */
+export function bootstrapTest(a: number[], b: number[], iterations = 1000, seed = RESAMPLING_SEED): number {
+  if (a.length === 0 || b.length === 0) return 1;
+
+  const random = createRandom(seed);
+  const pooledMean = average([...a, ...b]);
+  const nullA = a.map((value) => value - average(a) + pooledMean);
+  const nullB = b.map((value) => value - average(b) + pooledMean);
+  const observed = Math.abs(average(a) - average(b));
+  let extreme = 0;
+
+  for (let i = 0; i < iterations; i++) {
+    const difference = Math.abs(average(resample(nullA, random)) - average(resample(nullB, random)));
+    if (difference >= observed - 1e-9) extreme++;
+  }
+
+  return clampP((extreme + 1) / (iterations + 1));
+}
+
+/**
+ * Cohen's d (pooled standard deviation) and Cliff's delta for a minus b
+ */
+export function effectSize(a: number[], b: number[]): EffectSize {
+  const n1 = a.length;
+  const n2 = b.length;
+  if (n1 === 0 || n2 === 0) return { cohensD: 0, cliffsDelta: 0 };
+
+  const pooledVariance = n1 + n2 > 2
+    ? ((n1 - 1) * standardDeviation(a) ** 2 + (n2 - 1) * standardDeviation(b) ** 2) / (n1 + n2 - 2)
+    : 0;
+  const cohensD = pooledVariance > 0 ? (average(a) - average(b)) / Math.sqrt(pooledVariance) : 0;
+
+  let dominance = 0;
+  for (const x of a) {
+    for (const y of b) {
+      dominance += Math.sign(x - y);
+    }
+  }
+
+  return {
+    cohensD: round(cohensD),
+    cliffsDelta: round(dominance / (n1 * n2)),
+  };
+}
+
+/**
+ * Adjust a family of p-values for multiple comparisons
+ */
+export function adjustPValues(pValues: number[], correction: MultipleComparisonCorrection): number[] {
+  const m = pValues.length;
+  if (m === 0 || correction === "none") return [...pValues];
+
+  if (correction === "bonferroni") {
+    return pValues.map((p) => clampP(p * m));
+  }
+
+  const order = pValues.map((p, index) => ({ p, index })).sort((x, y) => x.p - y.p);
+  const adjusted = new Array<number>(m);
+
+  if (correction === "holm") {
+    // Step-down: adjusted p-values never decrease along the sorted order
+    let running = 0;
+    order.forEach(({ p, index }, rankIndex) => {
+      running = Math.max(running, p * (m - rankIndex));
+      adjusted[index] = clampP(running);
+    });
+    return adjusted;
+  }
+
+  // Benjamini-Hochberg step-up controls the false discovery rate
+  let running = 1;
+  for (let rankIndex = m - 1; rankIndex >= 0; rankIndex--) {
+    const { p, index } = order[rankIndex];
+    running = Math.min(running, (p * m) / (rankIndex + 1));
+    adjusted[index] = clampP(running);
+  }
+  return adjusted;
+}
+
+function runTest(test: SignificanceTest, a: number[], b: number[], iterations: number): number {
+  // A single sample per side carries no information about variance
+  if (a.length < 2 || b.length < 2) return 1;
+
+  switch (test) {
+    case "bootstrap":
+      return bootstrapTest(a, b, iterations);
+    case "permutation":
+      return permutationTest(a, b, iterations);
+    default:
+      return mannWhitneyTest(a, b);
+  }
+}
+
+function findWinner(
+  groups: ParameterGroup[],
+  comparisons: PairwiseComparison[],
+  metric: string
+): SignificanceReport["winner"] {
+  if (groups.length === 0) return null;
+
+  const means = groups.map((group) => average(scoresOf(group.responses, metric)));
+  const bestIndex = means.reduce((best, mean, index) => (mean > means[best] ? index : best), 0);
+  const best = groups[bestIndex].parameters;
+
+  const rivals = comparisons.filter(
+    (c) => c.metric === metric && (sameParameters(c.a, best) || sameParameters(c.b, best))
+  );
+
+  // With only one parameter set there is nothing to beat
+  const significant = rivals.length > 0 && rivals.every((c) => {
+    const bestIsA = sameParameters(c.a, best);
+    const difference = bestIsA ? c.meanDifference : -c.meanDifference;
+    return c.significant && difference > 0;
+  });
+
+  return {
+    parameters: best,
+    mean: round(means[bestIndex]),
+    significant,
+  };
+}
+
+function groupByParameters(responses: LLMResponse[]): ParameterGroup[] {
+  const groups = new Map<string, ParameterGroup>();
+
+  for (const response of responses) {
+    const key = `${response.parameters.temperature}|${response.parameters.topP}`;
+    const group = groups.get(key) || { parameters: response.parameters, responses: [] };
+    group.responses.push(response);
+    groups.set(key, group);
+  }
+
+  return [...groups.values()];
+}
+
+// Responses that did not get a score for the metric are left out
+function scoresOf(responses: LLMResponse[], metric: string): number[] {
+  return responses.map((r) => r.metrics[metric]).filter((score) => score !== undefined);
+}
+
+function sameParameters(a: LLMParameters, b: LLMParameters): boolean {
+  return a.temperature === b.temperature && a.topP === b.topP;
+}
+
+/**
+ * Average ranks (1-based), with ties sharing the mean of their positions
+ */
+function rank(values: number[]): number[] {
+  const sorted = values.map((value, index) => ({ value, index })).sort((x, y) => x.value - y.value);
+  const ranks = new Array<number>(values.length);
+
+  let start = 0;
+  while (start < sorted.length) {
+    let end = start;
+    while (end + 1 < sorted.length && sorted[end + 1].value === sorted[start].value) end++;
+
+    const averageRank = (start + end) / 2 + 1;
+    for (let k = start; k <= end; k++) ranks[sorted[k].index] = averageRank;
+    start = end + 1;
+  }
+
+  return ranks;
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 26.2.17)
+ */
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const density = Math.exp((-z * z) / 2) / Math.sqrt(2 * Math.PI);
+  const tail = density * t * (0.31938153 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return z >= 0 ? 1 - tail : tail;
+}
+
+/**
+ * Small seeded PRNG (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle(values: number[], random: () => number): void {
+  for (let i = values.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [values[i], values[j]] = [values[j], values[i]];
+  }
+}
+
+function resample(values: number[], random: () => number): number[] {
+  return values.map(() => values[Math.floor(random() * values.length)]);
+}
+
+function clampP(p: number): number {
+  return Math.min(1, Math.max(0, p));
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { LLMResponse } from "@/types";
+import { calculateParameterSetStatistics, summarize } from "./statistics";
+
+function response(temperature: number, topP: number, metrics: Record<string, number>): LLMResponse {
+  return {
+    id: `${temperature}-${topP}-${Math.random()}`,
+    content: "",
+    parameters: { temperature, topP },
+    metrics: { overall: 0, ...metrics },
+    generatedAt: new Date(0),
+    tokenCount: 0,
+    model: "mock",
+  };
+}
+
+describe("summarize", () => {
+  it("uses the sample standard deviation and Student's t interval", () => {
+    // Sample std = sqrt(32 / 7); t(7) = 2.365
+    expect(summarize([2, 4, 4, 4, 5, 5, 7, 9])).toEqual({
+      mean: 5,
+      std: 2.14,
+      ciLower: 3.21,
+      ciUpper: 6.79,
+      n: 8,
+    });
+  });
+
+  it("falls back to the normal critical value beyond 30 degrees of freedom", () => {
+    const values = Array.from({ length: 41 }, (_, i) => i % 2);
+    const { mean, std, ciLower, ciUpper } = summarize(values);
+    const margin = (1.96 * Math.sqrt(20 * 21 / 41 / 40)) / Math.sqrt(41);
+
+    expect(ciUpper - mean).toBeCloseTo(margin, 1);
+    expect(mean - ciLower).toBeCloseTo(margin, 1);
+    expect(std).toBeCloseTo(0.51, 2);
+  });
+
+  it("gives a single sample no interval", () => {
+    expect(summarize([70])).toEqual({ mean: 70, std: 0, ciLower: 70, ciUpper: 70, n: 1 });
+  });
+});
+
+describe("calculateParameterSetStatistics", () => {
+  it("groups responses by parameter set", () => {
+    const stats = calculateParameterSetStatistics([
+      response(0.2, 1, { overall: 60 }),
+      response(0.2, 1, { overall: 80 }),
+      response(1.2, 0.9, { overall: 40 }),
+    ]);
+
+    expect(stats).toHaveLength(2);
+    expect(stats[0]).toMatchObject({ parameters: { temperature: 0.2, topP: 1 }, sampleCount: 2 });
+    expect(stats[0].metrics.overall).toMatchObject({ mean: 70, n: 2 });
+    expect(stats[1]).toMatchObject({ parameters: { temperature: 1.2, topP: 0.9 }, sampleCount: 1 });
+  });
+
+  it("summarizes a metric over only the samples it applies to", () => {
+    const [stats] = calculateParameterSetStatistics([
+      response(0.7, 1, { overall: 50, schemaValidity: 100 }),
+      response(0.7, 1, { overall: 70 }),
+    ]);
+
+    expect(stats.sampleCount).toBe(2);
+    expect(stats.metrics.schemaValidity).toMatchObject({ mean: 100, n: 1 });
+    expect(stats.metrics.overall).toMatchObject({ mean: 60, n: 2 });
+  });
+});
@@ -0,0 +1,66 @@
+import { LLMResponse, MetricStatistics, ParameterSetStatistics } from "@/types";
+import { average, standardDeviation } from "@/lib/utils";
+
+// Two-sided 95% critical values of Student's t distribution by degrees of freedom
+const T_CRITICAL_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.16, 2.145, 2.131, 2.12, 2.11, 2.101, 2.093, 2.086,
+  2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+/**
+ * Mean, standard deviation and 95% confidence interval of the mean
+ */
+export function summarize(values: number[]): MetricStatistics {
+  const n = values.length;
+  const mean = average(values);
+  const std = standardDeviation(values);
+
+  // A single sample has no spread to estimate
+  const margin = n > 1 ? tCritical(n - 1) * (std / Math.sqrt(n)) : 0;
+
+  return {
+    mean: round(mean),
+    std: round(std),
+    ciLower: round(mean - margin),
+    ciUpper: round(mean + margin),
+    n,
+  };
+}
+
+/**
+ * Aggregate responses into per-parameter-set statistics for every metric
+ */
+export function calculateParameterSetStatistics(responses: LLMResponse[]): ParameterSetStatistics[] {
+  const groups = new Map<string, LLMResponse[]>();
+
+  for (const response of responses) {
+    const key = `${response.parameters.temperature}|${response.parameters.topP}`;
+    groups.set(key, [...(groups.get(key) || []), response]);
+  }
+
+  return [...groups.values()].map((group) => {
+    // Metrics that do not apply to some samples are summarized over the rest
+    const metricKeys = [...new Set(group.flatMap((r) => Object.keys(r.metrics)))];
+    const metrics: Record<string, MetricStatistics> = Object.fromEntries(
+      metricKeys.map((key) => [
+        key,
+        summarize(group.map((r) => r.metrics[key]).filter((score) => score !== undefined)),
+      ])
+    );
+
+    return {
+      parameters: group[0].parameters,
+      sampleCount: group.length,
+      metrics,
+    };
+  });
+}
+
+function tCritical(degreesOfFreedom: number): number {
+  return T_CRITICAL_95[degreesOfFreedom - 1] ?? 1.96;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,51 @@
+import { ExperimentStore } from "@/types";
+import { postgresStore } from "./postgres";
+import { createSqliteStore } from "./sqlite";
+import { memoryStore } from "./memory";
+
+export { postgresStore, createSqliteStore, memoryStore };
+
+const DEFAULT_SQLITE_PATH = "data/experiments.db";
+
+let store: ExperimentStore | null = null;
+
+/**
+ * The configured experiment store
+ *
+ * EXPERIMENT_STORE chooses "postgres", "sqlite" or "memory". Without it,
+ * Postgres is used when DATABASE_URL is set and a SQLite file
+ * (SQLITE_PATH, default data/experiments.db) otherwise, so the app runs
+ * without a database server.
+ */
+export function getStore(): ExperimentStore {
+  if (store) {
+    return store;
+  }
+
+  const id = process.env.EXPERIMENT_STORE || (process.env.DATABASE_URL ? "postgres" : "sqlite");
+
+  switch (id) {
+    case "postgres":
+      store = postgresStore;
+      break;
+    case "sqlite":
+      store = createSqliteStore(process.env.SQLITE_PATH || DEFAULT_SQLITE_PATH);
+      break;
+    case "memory":
+      store = memoryStore;
+      break;
+    default:
+      throw new Error(`Unknown EXPERIMENT_STORE "${id}"; use "postgres", "sqlite" or "memory"`);
+  }
+
+  console.log(`💾 Using the ${store.id} experiment store`);
+  return store;
+}
+
+/**
+ * Replace the configured store, e.g. with the in-memory one in tests;
+ * null goes back to the configuration
+ */
+export function setStore(next: ExperimentStore | null): void {
+  store = next;
+}
@@ -0,0 +1,198 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { ExperimentListQuery, ExperimentPage, ExperimentSort, ExperimentStore, ExperimentSummary } from "@/types";
+import { experimentListQuerySchema } from "@/lib/schemas";
+import { decodeCursor, encodeCursor, listClauses, listSummaries, toPage } from "./listing";
+import { createSqliteStore } from "./sqlite";
+
+function summary(id: string, createdAt: string, responseCount: number, bestScore?: number): ExperimentSummary {
+  return {
+    id,
+    name: `Experiment ${id}`,
+    prompt: "prompt",
+    responseCount,
+    createdAt: new Date(createdAt),
+    bestResponse: bestScore === undefined ? undefined : { parameters: { temperature: 0.7, topP: 1 }, overallScore: bestScore },
+  };
+}
+
+// Ties in every sort key, so paging has to fall back on the ID
+const SUMMARIES = [
+  summary("a", "2026-01-01T00:00:00Z", 3, 80),
+  summary("b", "2026-01-02T00:00:00Z", 3, 80),
+  summary("c", "2026-01-02T00:00:00Z", 0),
+  summary("d", "2026-01-03T00:00:00Z", 5, 60),
+  summary("e", "2026-01-04T00:00:00Z", 1, 95),
+];
+
+function query(overrides: Partial<ExperimentListQuery> = {}): ExperimentListQuery {
+  return { sort: "createdAt", order: "desc", limit: 2, ...overrides };
+}
+
+const SORTS: [ExperimentSort, "asc" | "desc", string[]][] = [
+  ["createdAt", "desc", ["e", "d", "c", "b", "a"]],
+  ["createdAt", "asc", ["a", "b", "c", "d", "e"]],
+  ["bestScore", "desc", ["e", "b", "a", "d", "c"]],
+  ["bestScore", "asc", ["c", "d", "a", "b", "e"]],
+  ["responseCount", "desc", ["d", "b", "a", "e", "c"]],
+];
+
+/**
+ * Every ID in the order the pages return them, following cursors to the end
+ */
+async function pageThrough(
+  base: ExperimentListQuery,
+  list: (query: ExperimentListQuery) => ExperimentPage | Promise<ExperimentPage>
+): Promise<string[]> {
+  const ids: string[] = [];
+  let cursor: string | null = null;
+  do {
+    const decoded = cursor === null ? undefined : experimentListQuerySchema.parse({ ...base, cursor }).cursor;
+    const page = await list({ ...base, cursor: decoded });
+    ids.push(...page.experiments.map((experiment) => experiment.id));
+    cursor = page.nextCursor;
+  } while (cursor !== null);
+  return ids;
+}
+
+describe("cursors", () => {
+  it("round-trip through URL-safe text", () => {
+    const cursor = { sort: "bestScore" as const, order: "asc" as const, value: -1, id: "exp_+/=" };
+    const text = encodeCursor(cursor);
+
+    expect(text).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(text)).toEqual(cursor);
+  });
+
+  it("decode to null when the text is not a cursor", () => {
+    expect(decodeCursor("not a cursor")).toBeNull();
+  });
+
+  it("are rejected when invalid or from another sort order", () => {
+    const stale = encodeCursor({ sort: "createdAt", order: "desc", value: 0, id: "a" });
+
+    expect(experimentListQuerySchema.safeParse({ cursor: "garbage" }).success).toBe(false);
+    expect(experimentListQuerySchema.safeParse({ cursor: stale, order: "asc" }).success).toBe(false);
+    expect(experimentListQuerySchema.safeParse({ cursor: stale }).success).toBe(true);
+  });
+});
+
+describe("toPage", () => {
+  it("points the cursor at the last row shown when another page follows", () => {
+    const page = toPage(SUMMARIES.slice(0, 3), query());
+
+    expect(page.experiments.map((experiment) => experiment.id)).toEqual(["a", "b"]);
+    expect(decodeCursor(page.nextCursor as string)).toEqual({
+      sort: "createdAt",
+      order: "desc",
+      value: new Date("2026-01-02T00:00:00Z").getTime(),
+      id: "b",
+    });
+  });
+
+  it("has no cursor on the last page", () => {
+    expect(toPage(SUMMARIES.slice(0, 2), query()).nextCursor).toBeNull();
+  });
+});
+
+describe("listSummaries", () => {
+  it.each(SORTS)("pages through %s %s once each, ties broken by ID", async (sort, order, expected) => {
+    expect(await pageThrough(query({ sort, order }), (q) => listSummaries(SUMMARIES, q, () => ["mock"]))).toEqual(
+      expected
+    );
+  });
+
+  it("filters by name, model, dates and best score", () => {
+    const list = (overrides: Partial<ExperimentListQuery>, modelsOf = () => ["mock"]) =>
+      listSummaries(SUMMARIES, query({ limit: 10, ...overrides }), modelsOf).experiments.map((experiment) => experiment.id);
+
+    expect(list({ name: "experiment D" })).toEqual(["d"]);
+    expect(list({ model: "GPT" }, () => ["openai:gpt-4o"])).toHaveLength(5);
+    expect(list({ model: "claude" })).toEqual([]);
+    expect(list({ from: new Date("2026-01-02T00:00:00Z"), to: new Date("2026-01-03T00:00:00Z") })).toEqual([
+      "d",
+      "c",
+      "b",
+    ]);
+    // Experiments without responses have no best score to match
+    expect(list({ minScore: 0, maxScore: 80 })).toEqual(["d", "b", "a"]);
+  });
+});
+
+describe("listClauses", () => {
+  it("continues after the cursor row, comparing the sort key then the ID", () => {
+    const values: unknown[] = [];
+    const clauses = listClauses(
+      query({ cursor: { sort: "createdAt", order: "desc", value: 1767225600000, id: "b" } }),
+      (value) => {
+        values.push(value);
+        return `$${values.length}`;
+      },
+      "ILIKE"
+    );
+
+    expect(clauses.where).toBe("created_at <= $1 AND (created_at, id) < ($2, $3)");
+    expect(clauses.orderBy).toBe("created_at DESC, id DESC");
+    expect(values).toEqual([new Date(1767225600000), new Date(1767225600000), "b"]);
+  });
+
+  it("matches LIKE wildcards in filters literally", () => {
+    const values: unknown[] = [];
+    const clauses = listClauses(
+      query({ sort: "bestScore", order: "asc", name: "50%_off" }),
+      (value) => {
+        values.push(value);
+        return "?";
+      },
+      "LIKE"
+    );
+
+    expect(clauses.where).toBe("e.name LIKE ? ESCAPE '\\'");
+    expect(values).toEqual(["%50\\%\\_off%"]);
+    expect(clauses.orderBy).toBe("COALESCE(best_score, -1) ASC, id ASC");
+  });
+});
+
+describe("SQLite listing", () => {
+  let store: ExperimentStore;
+
+  // The summaries as experiments whose responses give the same count and best score
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    store = createSqliteStore(":memory:");
+
+    for (const { id, name, prompt, createdAt, responseCount, bestResponse } of SUMMARIES) {
+      await store.saveExperiment({
+        id,
+        name,
+        prompt,
+        createdAt,
+        updatedAt: createdAt,
+        responses: Array.from({ length: responseCount }, (_, i) => ({
+          id: `${id}-${i}`,
+          content: "response",
+          parameters: { temperature: 0.7, topP: 1 },
+          metrics: { overall: (bestResponse?.overallScore ?? 0) - i },
+          generatedAt: createdAt,
+          tokenCount: 1,
+          model: "mock",
+        })),
+      });
+    }
+  });
+
+  afterAll(async () => {
+    await store.close();
+    vi.restoreAllMocks();
+  });
+
+  it.each(SORTS)("pages through %s %s like listSummaries", async (sort, order, expected) => {
+    expect(await pageThrough(query({ sort, order }), (q) => store.listExperiments(q))).toEqual(expected);
+  });
+
+  it("filters on the kept best score", async () => {
+    const page = await store.listExperiments(query({ limit: 10, minScore: 0, maxScore: 80 }));
+
+    expect(page.experiments.map((experiment) => experiment.id)).toEqual(["d", "b", "a"]);
+    expect(page.experiments[0]).toMatchObject({ responseCount: 5, bestResponse: { overallScore: 60 } });
+  });
+});
@@ -0,0 +1,158 @@
+import {
+  ExperimentCursor,
+  ExperimentListQuery,
+  ExperimentPage,
+  ExperimentSort,
+  ExperimentSummary,
+} from "@/types";
+
+// Experiment columns each sort orders by, each indexed together with id;
+// experiments without responses sort as a score of -1
+const SORT_COLUMNS: Record<ExperimentSort, string> = {
+  createdAt: "created_at",
+  bestScore: "COALESCE(best_score, -1)",
+  responseCount: "response_count",
+};
+
+/**
+ * The value an experiment is sorted by, as stored in cursors
+ */
+export function sortValue(summary: ExperimentSummary, sort: ExperimentSort): number {
+  switch (sort) {
+    case "createdAt":
+      return summary.createdAt.getTime();
+    case "bestScore":
+      return summary.bestResponse?.overallScore ?? -1;
+    case "responseCount":
+      return summary.responseCount;
+  }
+}
+
+export function encodeCursor(cursor: ExperimentCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+/**
+ * The JSON inside a cursor, or null if it is not one; the caller validates
+ * its shape
+ */
+export function decodeCursor(text: string): unknown {
+  try {
+    return JSON.parse(Buffer.from(text, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A page from up to limit + 1 sorted summaries; the extra one only shows
+ * that another page follows
+ */
+export function toPage(summaries: ExperimentSummary[], query: ExperimentListQuery): ExperimentPage {
+  const experiments = summaries.slice(0, query.limit);
+  const last = experiments[experiments.length - 1];
+
+  return {
+    experiments,
+    nextCursor:
+      summaries.length > query.limit && last
+        ? encodeCursor({ sort: query.sort, order: query.order, value: sortValue(last, query.sort), id: last.id })
+        : null,
+  };
+}
+
+/**
+ * Escape LIKE wildcards so the text matches literally (with ESCAPE '\')
+ */
+function escapeLike(text: string): string {
+  return `%${text.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+}
+
+/**
+ * SQL for a list query, shared by the SQL stores. `param` adds a value and
+ * returns its placeholder; `like` is the case-insensitive LIKE of the
+ * dialect. Everything applies to `experiments e` alone, using the
+ * response_count and best_score columns the triggers keep, so the cursor
+ * and limit seek an index before any response is read.
+ */
+export function listClauses(
+  query: ExperimentListQuery,
+  param: (value: unknown) => string,
+  like: "ILIKE" | "LIKE"
+): { where: string; orderBy: string } {
+  const conditions: string[] = [];
+  if (query.name) {
+    conditions.push(`e.name ${like} ${param(escapeLike(query.name))} ESCAPE '\\'`);
+  }
+  if (query.model) {
+    conditions.push(
+      `EXISTS (SELECT 1 FROM responses mr WHERE mr.experiment_id = e.id AND mr.model ${like} ${param(
+        escapeLike(query.model)
+      )} ESCAPE '\\')`
+    );
+  }
+  if (query.from) {
+    conditions.push(`e.created_at >= ${param(query.from)}`);
+  }
+  if (query.to) {
+    conditions.push(`e.created_at <= ${param(query.to)}`);
+  }
+  if (query.minScore !== undefined) {
+    conditions.push(`e.best_score >= ${param(query.minScore)}`);
+  }
+  if (query.maxScore !== undefined) {
+    conditions.push(`e.best_score <= ${param(query.maxScore)}`);
+  }
+
+  const column = SORT_COLUMNS[query.sort];
+  const direction = query.order === "asc" ? "ASC" : "DESC";
+  if (query.cursor) {
+    const value = query.sort === "createdAt" ? new Date(query.cursor.value) : query.cursor.value;
+    const comparison = query.order === "asc" ? ">" : "<";
+    // The plain bound lets SQLite seek the expression index for bestScore,
+    // which it does not do for the row comparison alone
+    conditions.push(
+      `${column} ${comparison}= ${param(value)} AND (${column}, id) ${comparison} (${param(value)}, ${param(query.cursor.id)})`
+    );
+  }
+
+  return {
+    where: conditions.length > 0 ? conditions.join(" AND ") : "TRUE",
+    orderBy: `${column} ${direction}, id ${direction}`,
+  };
+}
+
+/**
+ * Filter, sort and page summaries in memory, as the SQL stores do in SQL
+ */
+export function listSummaries(
+  summaries: ExperimentSummary[],
+  query: ExperimentListQuery,
+  modelsOf: (id: string) => string[]
+): ExperimentPage {
+  const contains = (text: string | undefined, part: string) =>
+    (text ?? "").toLowerCase().includes(part.toLowerCase());
+  const sign = query.order === "asc" ? 1 : -1;
+  const compare = (a: { value: number; id: string }, b: { value: number; id: string }) =>
+    sign * (a.value - b.value || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+  const rows = summaries
+    .filter((summary) => {
+      const best = summary.bestResponse?.overallScore;
+      return (
+        (!query.name || contains(summary.name, query.name)) &&
+        (!query.model || modelsOf(summary.id).some((model) => contains(model, query.model as string))) &&
+        (!query.from || summary.createdAt >= query.from) &&
+        (!query.to || summary.createdAt <= query.to) &&
+        (query.minScore === undefined || (best !== undefined && best >= query.minScore)) &&
+        (query.maxScore === undefined || (best !== undefined && best <= query.maxScore))
+      );
+    })
+    .map((summary) => ({ summary, value: sortValue(summary, query.sort), id: summary.id }))
+    .filter((row) => !query.cursor || compare(row, query.cursor) > 0)
+    .sort(compare)
+    .slice(0, query.limit + 1)
+    .map((row) => row.summary);
+
+  return toPage(rows, query);
+}
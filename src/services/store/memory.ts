@@ -0,0 +1,251 @@
+import {
+  Experiment,
+  ExperimentJob,
+  ExperimentListQuery,
+  ExperimentPage,
+  ExperimentStore,
+  ExperimentSummary,
+  JobStatus,
+  LLMResponse,
+  ParameterSetStatistics,
+  SearchQuery,
+  SearchResult,
+} from "@/types";
+import { listSummaries } from "./listing";
+import { SearchHit, matchText, parseSearchTerms, toSearchResults } from "./search";
+
+const experiments = new Map<string, Experiment>();
+const jobs = new Map<string, ExperimentJob>();
+
+// When each task last changed, keyed by "jobId:index"
+const taskUpdatedAt = new Map<string, number>();
+
+// Callers get copies, so nothing they change leaks into the store
+const copy = <T>(value: T): T => structuredClone(value);
+
+function setTaskStatus(
+  jobId: string,
+  index: number,
+  update: Partial<ExperimentJob["tasks"][number]>
+): void {
+  const task = jobs.get(jobId)?.tasks.find((t) => t.index === index);
+  if (!task) return;
+  Object.assign(task, update);
+  taskUpdatedAt.set(`${jobId}:${index}`, Date.now());
+}
+
+/**
+ * In-process store; everything is lost when the server stops. For trying
+ * the app and for tests, without any database.
+ */
+export const memoryStore: ExperimentStore = {
+  id: "memory",
+
+  async saveExperiment(experiment: Experiment): Promise<void> {
+    if (experiments.has(experiment.id)) {
+      throw new Error(`Experiment ${experiment.id} already exists`);
+    }
+    experiments.set(experiment.id, copy(experiment));
+  },
+
+  async getExperiment(id: string): Promise<Experiment | null> {
+    const experiment = experiments.get(id);
+    if (!experiment) return null;
+
+    const result = copy(experiment);
+    result.responses.sort(
+      (a, b) => a.generatedAt.getTime() - b.generatedAt.getTime() || (a.sampleIndex ?? 0) - (b.sampleIndex ?? 0)
+    );
+    return result;
+  },
+
+  async listExperiments(query: ExperimentListQuery): Promise<ExperimentPage> {
+    const summaries = [...experiments.values()].map((experiment): ExperimentSummary => {
+      const best = experiment.responses.reduce<LLMResponse | undefined>(
+        (top, response) => (!top || response.metrics.overall > top.metrics.overall ? response : top),
+        undefined
+      );
+      return {
+        id: experiment.id,
+        name: experiment.name || undefined,
+        prompt: experiment.prompt,
+        responseCount: experiment.responses.length,
+        createdAt: new Date(experiment.createdAt),
+        bestResponse: best
+          ? { parameters: { ...best.parameters }, overallScore: best.metrics.overall }
+          : undefined,
+      };
+    });
+
+    return listSummaries(summaries, query, (id) =>
+      (experiments.get(id)?.responses ?? []).map((response) => response.model)
+    );
+  },
+
+  // A naive scan: every term must occur in one field, case-insensitive
+  async searchExperiments(query: SearchQuery): Promise<SearchResult[]> {
+    const terms = parseSearchTerms(query.q);
+    const summaries = new Map<string, Pick<SearchResult, "id" | "name" | "prompt" | "createdAt">>();
+    const hits: SearchHit[] = [];
+
+    for (const experiment of experiments.values()) {
+      summaries.set(experiment.id, {
+        id: experiment.id,
+        name: experiment.name || undefined,
+        prompt: experiment.prompt,
+        createdAt: new Date(experiment.createdAt),
+      });
+
+      const fields = [
+        { field: "name" as const, text: experiment.name, weight: 2 },
+        { field: "description" as const, text: experiment.description, weight: 1 },
+        { field: "prompt" as const, text: experiment.prompt, weight: 1 },
+      ];
+      for (const { field, text, weight } of fields) {
+        const match = matchText(text, terms);
+        if (match) {
+          hits.push({ experimentId: experiment.id, field, ...match, rank: match.hits * weight });
+        }
+      }
+
+      for (const response of experiment.responses) {
+        const match = matchText(response.content, terms);
+        if (match) {
+          hits.push({
+            experimentId: experiment.id,
+            field: "response",
+            responseId: response.id,
+            ...match,
+            rank: match.hits,
+          });
+        }
+      }
+    }
+
+    return toSearchResults(hits, summaries, query);
+  },
+
+  async updateExperiment(
+    id: string,
+    updates: Partial<Pick<Experiment, "name" | "description">>
+  ): Promise<void> {
+    const experiment = experiments.get(id);
+    if (!experiment) return;
+
+    if (updates.name !== undefined) experiment.name = updates.name;
+    if (updates.description !== undefined) experiment.description = updates.description;
+    experiment.updatedAt = new Date();
+  },
+
+  async updateExperimentStatistics(id: string, statistics: ParameterSetStatistics[]): Promise<void> {
+    const experiment = experiments.get(id);
+    if (!experiment) return;
+
+    experiment.statistics = copy(statistics);
+    experiment.updatedAt = new Date();
+  },
+
+  async deleteExperiment(id: string): Promise<void> {
+    experiments.delete(id);
+    for (const [jobId, job] of jobs) {
+      if (job.experimentId === id) jobs.delete(jobId);
+    }
+  },
+
+  async saveJob(job: ExperimentJob): Promise<void> {
+    if (!experiments.has(job.experimentId)) {
+      throw new Error(`Experiment ${job.experimentId} does not exist`);
+    }
+    jobs.set(job.id, copy(job));
+    for (const task of job.tasks) {
+      taskUpdatedAt.set(`${job.id}:${task.index}`, Date.now());
+    }
+  },
+
+  async getJob(id: string): Promise<ExperimentJob | null> {
+    const job = jobs.get(id);
+    if (!job) return null;
+
+    const responses = experiments.get(job.experimentId)?.responses ?? [];
+    const result = copy(job);
+    for (const task of result.tasks) {
+      const response = responses.find((r) => r.id === task.responseId);
+      task.overallScore = response?.metrics.overall;
+    }
+    result.tasks.sort((a, b) => a.index - b.index);
+    return result;
+  },
+
+  async getUnfinishedJobIds(): Promise<string[]> {
+    return [...jobs.values()]
+      .filter((job) => job.status === "queued" || job.status === "running")
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map((job) => job.id);
+  },
+
+  async updateJobStatus(id: string, status: JobStatus, error?: string): Promise<void> {
+    const job = jobs.get(id);
+    if (!job) return;
+
+    job.status = status;
+    job.error = error;
+    job.updatedAt = new Date();
+  },
+
+  // Single-threaded, so checking and setting cannot interleave
+  async claimJobTask(jobId: string, index: number): Promise<boolean> {
+    const task = jobs.get(jobId)?.tasks.find((t) => t.index === index);
+    if (task?.status !== "pending") return false;
+
+    setTaskStatus(jobId, index, { status: "running" });
+    return true;
+  },
+
+  async completeJobTask(
+    jobId: string,
+    index: number,
+    experimentId: string,
+    response: LLMResponse
+  ): Promise<void> {
+    const experiment = experiments.get(experimentId);
+    if (!experiment) {
+      throw new Error(`Experiment ${experimentId} does not exist`);
+    }
+
+    experiment.responses.push(copy(response));
+    experiment.updatedAt = new Date();
+    setTaskStatus(jobId, index, { status: "completed", responseId: response.id });
+  },
+
+  async failJobTask(jobId: string, index: number, error: string): Promise<void> {
+    setTaskStatus(jobId, index, { status: "failed", error });
+  },
+
+  async touchJobTask(jobId: string, index: number): Promise<void> {
+    const task = jobs.get(jobId)?.tasks.find((t) => t.index === index);
+    if (task?.status === "running") {
+      taskUpdatedAt.set(`${jobId}:${index}`, Date.now());
+    }
+  },
+
+  async resetStaleJobTasks(staleAfterMs: number): Promise<number> {
+    const cutoff = Date.now() - staleAfterMs;
+    let reset = 0;
+    for (const job of jobs.values()) {
+      for (const task of job.tasks) {
+        if (task.status === "running" && (taskUpdatedAt.get(`${job.id}:${task.index}`) ?? 0) < cutoff) {
+          setTaskStatus(job.id, task.index, { status: "pending" });
+          reset++;
+        }
+      }
+    }
+    return reset;
+  },
+
+  // Nothing to disconnect; closing drops the data, as a stopped server would
+  async close(): Promise<void> {
+    experiments.clear();
+    jobs.clear();
+    taskUpdatedAt.clear();
+  },
+};
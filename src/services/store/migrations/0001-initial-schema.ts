@@ -0,0 +1,41 @@
+import { Migration } from "@/types";
+
+// IF NOT EXISTS so databases set up before migrations existed adopt them as they are
+export const migration: Migration = {
+  version: 1,
+  name: "initial-schema",
+  up: `
+    CREATE TABLE IF NOT EXISTS experiments (
+      id TEXT PRIMARY KEY,
+      prompt TEXT NOT NULL,
+      name TEXT,
+      description TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+
+    CREATE TABLE IF NOT EXISTS responses (
+      id TEXT PRIMARY KEY,
+      experiment_id TEXT NOT NULL REFERENCES experiments(id) ON DELETE CASCADE,
+      content TEXT NOT NULL,
+      temperature REAL NOT NULL,
+      top_p REAL NOT NULL,
+      coherence INTEGER NOT NULL,
+      completeness INTEGER NOT NULL,
+      readability INTEGER NOT NULL,
+      length_appropriateness INTEGER NOT NULL,
+      structural_quality INTEGER NOT NULL,
+      overall_score INTEGER NOT NULL,
+      token_count INTEGER NOT NULL,
+      model TEXT NOT NULL,
+      generated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_responses_experiment_id ON responses(experiment_id);
+    CREATE INDEX IF NOT EXISTS idx_experiments_created_at ON experiments(created_at DESC);
+  `,
+  down: `
+    DROP TABLE IF EXISTS responses;
+    DROP TABLE IF EXISTS experiments;
+  `,
+};
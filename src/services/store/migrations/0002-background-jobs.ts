@@ -0,0 +1,35 @@
+import { Migration } from "@/types";
+
+export const migration: Migration = {
+  version: 2,
+  name: "background-jobs",
+  up: `
+    CREATE TABLE IF NOT EXISTS jobs (
+      id TEXT PRIMARY KEY,
+      experiment_id TEXT NOT NULL REFERENCES experiments(id) ON DELETE CASCADE,
+      status TEXT NOT NULL,
+      model TEXT NOT NULL,
+      error TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+
+    CREATE TABLE IF NOT EXISTS job_tasks (
+      job_id TEXT NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+      task_index INTEGER NOT NULL,
+      temperature REAL NOT NULL,
+      top_p REAL NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      response_id TEXT,
+      error TEXT,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (job_id, task_index)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status);
+  `,
+  down: `
+    DROP TABLE IF EXISTS job_tasks;
+    DROP TABLE IF EXISTS jobs;
+  `,
+};
@@ -0,0 +1,12 @@
+import { Migration } from "@/types";
+
+export const migration: Migration = {
+  version: 3,
+  name: "parameter-statistics",
+  up: `
+    ALTER TABLE experiments ADD COLUMN IF NOT EXISTS statistics JSONB;
+  `,
+  down: `
+    ALTER TABLE experiments DROP COLUMN IF EXISTS statistics;
+  `,
+};
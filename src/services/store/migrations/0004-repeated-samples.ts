@@ -0,0 +1,14 @@
+import { Migration } from "@/types";
+
+export const migration: Migration = {
+  version: 4,
+  name: "repeated-samples",
+  up: `
+    ALTER TABLE responses ADD COLUMN IF NOT EXISTS sample_index INTEGER NOT NULL DEFAULT 0;
+    ALTER TABLE job_tasks ADD COLUMN IF NOT EXISTS sample_index INTEGER NOT NULL DEFAULT 0;
+  `,
+  down: `
+    ALTER TABLE job_tasks DROP COLUMN IF EXISTS sample_index;
+    ALTER TABLE responses DROP COLUMN IF EXISTS sample_index;
+  `,
+};
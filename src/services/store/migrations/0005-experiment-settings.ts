@@ -0,0 +1,12 @@
+import { Migration } from "@/types";
+
+export const migration: Migration = {
+  version: 5,
+  name: "experiment-settings",
+  up: `
+    ALTER TABLE experiments ADD COLUMN IF NOT EXISTS settings JSONB;
+  `,
+  down: `
+    ALTER TABLE experiments DROP COLUMN IF EXISTS settings;
+  `,
+};
@@ -0,0 +1,69 @@
+import { Migration } from "@/types";
+
+// Metric scores move to generic rows, one per metric; the per-metric
+// columns of responses are kept but no longer written
+export const migration: Migration = {
+  version: 6,
+  name: "response-metrics",
+  up: `
+    CREATE TABLE IF NOT EXISTS response_metrics (
+      response_id TEXT NOT NULL REFERENCES responses(id) ON DELETE CASCADE,
+      metric_id TEXT NOT NULL,
+      metric_version TEXT NOT NULL,
+      score REAL NOT NULL,
+      PRIMARY KEY (response_id, metric_id)
+    );
+
+    ALTER TABLE responses
+      ALTER COLUMN coherence DROP NOT NULL,
+      ALTER COLUMN completeness DROP NOT NULL,
+      ALTER COLUMN readability DROP NOT NULL,
+      ALTER COLUMN length_appropriateness DROP NOT NULL,
+      ALTER COLUMN structural_quality DROP NOT NULL;
+
+    INSERT INTO response_metrics (response_id, metric_id, metric_version, score)
+    SELECT r.id, m.metric_id, '1.0.0', m.score
+    FROM responses r
+    CROSS JOIN LATERAL (VALUES
+      ('coherence', r.coherence),
+      ('completeness', r.completeness),
+      ('readability', r.readability),
+      ('lengthAppropriateness', r.length_appropriateness),
+      ('structuralQuality', r.structural_quality)
+    ) AS m(metric_id, score)
+    WHERE m.score IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM response_metrics rm WHERE rm.response_id = r.id);
+  `,
+  // Newer responses only have metric rows; fill their columns from those,
+  // or 0 for metrics they were not scored on, before restoring NOT NULL
+  down: `
+    UPDATE responses r SET
+      coherence = COALESCE(r.coherence, ROUND(m.coherence), 0),
+      completeness = COALESCE(r.completeness, ROUND(m.completeness), 0),
+      readability = COALESCE(r.readability, ROUND(m.readability), 0),
+      length_appropriateness = COALESCE(r.length_appropriateness, ROUND(m.length_appropriateness), 0),
+      structural_quality = COALESCE(r.structural_quality, ROUND(m.structural_quality), 0)
+    FROM (
+      SELECT
+        r2.id,
+        MAX(rm.score) FILTER (WHERE rm.metric_id = 'coherence') AS coherence,
+        MAX(rm.score) FILTER (WHERE rm.metric_id = 'completeness') AS completeness,
+        MAX(rm.score) FILTER (WHERE rm.metric_id = 'readability') AS readability,
+        MAX(rm.score) FILTER (WHERE rm.metric_id = 'lengthAppropriateness') AS length_appropriateness,
+        MAX(rm.score) FILTER (WHERE rm.metric_id = 'structuralQuality') AS structural_quality
+      FROM responses r2
+      LEFT JOIN response_metrics rm ON rm.response_id = r2.id
+      GROUP BY r2.id
+    ) m
+    WHERE m.id = r.id;
+
+    ALTER TABLE responses
+      ALTER COLUMN coherence SET NOT NULL,
+      ALTER COLUMN completeness SET NOT NULL,
+      ALTER COLUMN readability SET NOT NULL,
+      ALTER COLUMN length_appropriateness SET NOT NULL,
+      ALTER COLUMN structural_quality SET NOT NULL;
+
+    DROP TABLE IF EXISTS response_metrics;
+  `,
+};
@@ -0,0 +1,12 @@
+import { Migration } from "@/types";
+
+export const migration: Migration = {
+  version: 7,
+  name: "metric-details",
+  up: `
+    ALTER TABLE response_metrics ADD COLUMN IF NOT EXISTS details JSONB;
+  `,
+  down: `
+    ALTER TABLE response_metrics DROP COLUMN IF EXISTS details;
+  `,
+};
@@ -0,0 +1,12 @@
+import { Migration } from "@/types";
+
+export const migration: Migration = {
+  version: 8,
+  name: "safety-reports",
+  up: `
+    ALTER TABLE responses ADD COLUMN IF NOT EXISTS safety JSONB;
+  `,
+  down: `
+    ALTER TABLE responses DROP COLUMN IF EXISTS safety;
+  `,
+};
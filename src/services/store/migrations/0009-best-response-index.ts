@@ -0,0 +1,13 @@
+import { Migration } from "@/types";
+
+// The experiment list looks up each row's best response
+export const migration: Migration = {
+  version: 9,
+  name: "best-response-index",
+  up: `
+    CREATE INDEX IF NOT EXISTS idx_responses_experiment_score ON responses(experiment_id, overall_score DESC);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_responses_experiment_score;
+  `,
+};
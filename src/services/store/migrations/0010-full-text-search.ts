@@ -0,0 +1,28 @@
+import { Migration } from "@/types";
+
+// Search vectors kept up to date by Postgres itself; experiment names rank
+// above descriptions, prompts and response content
+export const migration: Migration = {
+  version: 10,
+  name: "full-text-search",
+  up: `
+    ALTER TABLE experiments ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+      GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(description, '')), 'B') ||
+        setweight(to_tsvector('english', prompt), 'B')
+      ) STORED;
+
+    ALTER TABLE responses ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+      GENERATED ALWAYS AS (setweight(to_tsvector('english', content), 'B')) STORED;
+
+    CREATE INDEX IF NOT EXISTS idx_experiments_search ON experiments USING GIN (search_vector);
+    CREATE INDEX IF NOT EXISTS idx_responses_search ON responses USING GIN (search_vector);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_responses_search;
+    DROP INDEX IF EXISTS idx_experiments_search;
+    ALTER TABLE responses DROP COLUMN IF EXISTS search_vector;
+    ALTER TABLE experiments DROP COLUMN IF EXISTS search_vector;
+  `,
+};
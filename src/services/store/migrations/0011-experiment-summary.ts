@@ -0,0 +1,64 @@
+import { Migration } from "@/types";
+
+// Response count and best score kept on the experiment row by triggers, so
+// the experiment list seeks its keyset indexes instead of grouping every
+// response on each page
+export const migration: Migration = {
+  version: 11,
+  name: "experiment-summary",
+  up: `
+    ALTER TABLE experiments ADD COLUMN IF NOT EXISTS response_count INTEGER NOT NULL DEFAULT 0;
+    ALTER TABLE experiments ADD COLUMN IF NOT EXISTS best_score INTEGER;
+
+    UPDATE experiments e
+    SET response_count = s.response_count, best_score = s.best_score
+    FROM (
+      SELECT experiment_id, COUNT(*) AS response_count, MAX(overall_score) AS best_score
+      FROM responses
+      GROUP BY experiment_id
+    ) s
+    WHERE s.experiment_id = e.id;
+
+    CREATE OR REPLACE FUNCTION experiments_summary_insert() RETURNS TRIGGER AS $$
+    BEGIN
+      UPDATE experiments
+      SET response_count = response_count + 1, best_score = GREATEST(best_score, NEW.overall_score)
+      WHERE id = NEW.experiment_id;
+      RETURN NULL;
+    END;
+    $$ LANGUAGE plpgsql;
+
+    CREATE OR REPLACE FUNCTION experiments_summary_delete() RETURNS TRIGGER AS $$
+    BEGIN
+      UPDATE experiments
+      SET response_count = response_count - 1,
+        best_score = (SELECT MAX(overall_score) FROM responses WHERE experiment_id = OLD.experiment_id)
+      WHERE id = OLD.experiment_id;
+      RETURN NULL;
+    END;
+    $$ LANGUAGE plpgsql;
+
+    DROP TRIGGER IF EXISTS responses_summary_insert ON responses;
+    CREATE TRIGGER responses_summary_insert AFTER INSERT ON responses
+      FOR EACH ROW EXECUTE FUNCTION experiments_summary_insert();
+
+    DROP TRIGGER IF EXISTS responses_summary_delete ON responses;
+    CREATE TRIGGER responses_summary_delete AFTER DELETE ON responses
+      FOR EACH ROW EXECUTE FUNCTION experiments_summary_delete();
+
+    CREATE INDEX IF NOT EXISTS idx_experiments_created_id ON experiments(created_at, id);
+    CREATE INDEX IF NOT EXISTS idx_experiments_sort_score ON experiments((COALESCE(best_score, -1)), id);
+    CREATE INDEX IF NOT EXISTS idx_experiments_response_count ON experiments(response_count, id);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_experiments_response_count;
+    DROP INDEX IF EXISTS idx_experiments_sort_score;
+    DROP INDEX IF EXISTS idx_experiments_created_id;
+    DROP TRIGGER IF EXISTS responses_summary_delete ON responses;
+    DROP TRIGGER IF EXISTS responses_summary_insert ON responses;
+    DROP FUNCTION IF EXISTS experiments_summary_delete();
+    DROP FUNCTION IF EXISTS experiments_summary_insert();
+    ALTER TABLE experiments DROP COLUMN IF EXISTS best_score;
+    ALTER TABLE experiments DROP COLUMN IF EXISTS response_count;
+  `,
+};
@@ -0,0 +1,169 @@
+import { PoolClient } from "pg";
+import { Migration, MigrationRun, SchemaStatus } from "@/types";
+import { migration as initialSchema } from "./0001-initial-schema";
+import { migration as backgroundJobs } from "./0002-background-jobs";
+import { migration as parameterStatistics } from "./0003-parameter-statistics";
+import { migration as repeatedSamples } from "./0004-repeated-samples";
+import { migration as experimentSettings } from "./0005-experiment-settings";
+import { migration as responseMetrics } from "./0006-response-metrics";
+import { migration as metricDetails } from "./0007-metric-details";
+import { migration as safetyReports } from "./0008-safety-reports";
+import { migration as bestResponseIndex } from "./0009-best-response-index";
+import { migration as fullTextSearch } from "./0010-full-text-search";
+import { migration as experimentSummary } from "./0011-experiment-summary";
+
+/**
+ * Postgres schema migrations in version order. Add new ones at the end
+ * with the next version number; never edit one that has shipped.
+ */
+export const MIGRATIONS: Migration[] = [
+  initialSchema,
+  backgroundJobs,
+  parameterStatistics,
+  repeatedSamples,
+  experimentSettings,
+  responseMetrics,
+  metricDetails,
+  safetyReports,
+  bestResponseIndex,
+  fullTextSearch,
+  experimentSummary,
+];
+
+/**
+ * Throw unless the migrations are numbered 1, 2, 3… in order
+ */
+export function checkVersions(migrations: Migration[]): void {
+  migrations.forEach((migration, i) => {
+    if (migration.version !== i + 1) {
+      throw new Error(`Migration ${migration.name} has version ${migration.version}, expected ${i + 1}`);
+    }
+  });
+}
+
+checkVersions(MIGRATIONS);
+
+export const LATEST_VERSION = MIGRATIONS.length;
+
+const MIGRATIONS_TABLE = `
+  CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )
+`;
+
+/**
+ * Applied migrations by version, empty before the first run
+ */
+async function getApplied(client: PoolClient): Promise<Map<number, Date>> {
+  const exists = await client.query("SELECT to_regclass('schema_migrations') IS NOT NULL AS exists");
+  if (!exists.rows[0].exists) {
+    return new Map();
+  }
+
+  const result = await client.query("SELECT version, applied_at FROM schema_migrations");
+  return new Map(result.rows.map((row) => [row.version, new Date(row.applied_at)]));
+}
+
+/**
+ * Schema status from the applied versions
+ */
+export function toSchemaStatus(migrations: Migration[], applied: Map<number, Date>): SchemaStatus {
+  return {
+    currentVersion: Math.max(0, ...applied.keys()),
+    latestVersion: migrations.length,
+    pending: migrations.filter((m) => !applied.has(m.version)).map((m) => m.version),
+    migrations: migrations.map((m) => ({
+      version: m.version,
+      name: m.name,
+      appliedAt: applied.get(m.version),
+    })),
+  };
+}
+
+/**
+ * The migrations to run to reach a version, in order: pending ones up to
+ * it, or applied ones above it newest first
+ *
+ * Throws for an unknown target, and when reverting a database that has
+ * migrations newer than the app knows; migrating up past those only warns.
+ */
+export function planMigration(
+  migrations: Migration[],
+  applied: Set<number>,
+  target: number
+): Pick<MigrationRun, "direction"> & { steps: Migration[] } {
+  const latest = migrations.length;
+  if (!Number.isInteger(target) || target < 0 || target > latest) {
+    throw new Error(`Unknown schema version ${target}; versions run from 0 to ${latest}`);
+  }
+
+  const downSteps = migrations.filter((m) => m.version > target && applied.has(m.version)).reverse();
+  const direction = downSteps.length > 0 ? "down" : "up";
+  const steps = direction === "up" ? migrations.filter((m) => m.version <= target && !applied.has(m.version)) : downSteps;
+
+  // Left by a newer deployment: kept while migrating up, but nothing
+  // below them can be reverted without their down SQL
+  const newest = Math.max(0, ...applied);
+  if (newest > latest) {
+    if (direction === "down") {
+      throw new Error(`The database has migration ${newest}, newer than this version of the app (${latest})`);
+    }
+    console.warn(`⚠️ The database has migration ${newest}, newer than this version of the app (${latest})`);
+  }
+
+  return { direction, steps };
+}
+
+/**
+ * Which migrations have been applied
+ */
+export async function getMigrationStatus(client: PoolClient): Promise<SchemaStatus> {
+  return toSchemaStatus(MIGRATIONS, await getApplied(client));
+}
+
+/**
+ * Migrate up or down to a version (the latest by default)
+ *
+ * Runs in one transaction under an advisory lock, so concurrent instances
+ * wait for each other and find the work done; a failing migration leaves
+ * the schema as it was. The lock is transaction-scoped because session
+ * locks do not survive a transaction pooler such as Supabase's.
+ */
+export async function migrate(client: PoolClient, target: number = LATEST_VERSION): Promise<MigrationRun> {
+  try {
+    await client.query("BEGIN");
+    await client.query("SELECT pg_advisory_xact_lock(hashtext('schema_migrations'))");
+    await client.query(MIGRATIONS_TABLE);
+
+    const applied = await getApplied(client);
+    const { direction, steps } = planMigration(MIGRATIONS, new Set(applied.keys()), target);
+
+    for (const migration of steps) {
+      console.log(`🔨 Migrating ${direction}: ${migration.version} ${migration.name}`);
+      if (direction === "up") {
+        await client.query(migration.up);
+        await client.query("INSERT INTO schema_migrations (version, name) VALUES ($1, $2)", [
+          migration.version,
+          migration.name,
+        ]);
+      } else {
+        await client.query(migration.down);
+        await client.query("DELETE FROM schema_migrations WHERE version = $1", [migration.version]);
+      }
+    }
+
+    const status = toSchemaStatus(MIGRATIONS, await getApplied(client));
+    await client.query("COMMIT");
+
+    if (steps.length > 0) {
+      console.log(`✅ Database schema at version ${status.currentVersion}`);
+    }
+    return { direction, versions: steps.map((m) => m.version), status };
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("❌ Error migrating database schema:", (error as Error).message);
+    throw error;
+  }
+}
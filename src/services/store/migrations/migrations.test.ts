@@ -0,0 +1,224 @@
+import Database from "better-sqlite3";
+import type { PoolClient } from "pg";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Migration } from "@/types";
+import { LATEST_VERSION, MIGRATIONS, checkVersions, migrate, planMigration } from ".";
+import { SQLITE_LATEST_VERSION, SQLITE_MIGRATIONS, getSqliteMigrationStatus, migrateSqlite } from "./sqlite";
+
+const SERIES: Migration[] = [1, 2, 3, 4].map((version) => ({
+  version,
+  name: `step-${version}`,
+  up: `up ${version}`,
+  down: `down ${version}`,
+}));
+
+const versions = (steps: Migration[]) => steps.map((m) => m.version);
+
+/**
+ * A Postgres client that keeps schema_migrations in memory and records
+ * every migration's SQL, failing on `failOn`
+ */
+function fakeClient(applied: number[], failOn?: string) {
+  const rows = new Map(applied.map((version) => [version, new Date(0)]));
+  const ran: string[] = [];
+
+  const query = vi.fn(async (sql: string, params: unknown[] = []) => {
+    if (sql === failOn) throw new Error("syntax error");
+    if (sql.includes("to_regclass")) return { rows: [{ exists: true }] };
+    if (sql.startsWith("SELECT version")) {
+      return { rows: [...rows].map(([version, applied_at]) => ({ version, applied_at })) };
+    }
+    if (sql.startsWith("INSERT INTO schema_migrations")) rows.set(params[0] as number, new Date());
+    else if (sql.startsWith("DELETE FROM schema_migrations")) rows.delete(params[0] as number);
+    else if (MIGRATIONS.some((m) => m.up === sql || m.down === sql)) ran.push(sql);
+    return { rows: [] };
+  });
+
+  return { client: { query } as unknown as PoolClient, query, ran, rows };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("planMigration", () => {
+  it("runs pending migrations up to the target in ascending order", () => {
+    expect(planMigration(SERIES, new Set(), 4)).toMatchObject({ direction: "up" });
+    expect(versions(planMigration(SERIES, new Set(), 4).steps)).toEqual([1, 2, 3, 4]);
+    expect(versions(planMigration(SERIES, new Set([1, 2]), 3).steps)).toEqual([3]);
+  });
+
+  it("fills gaps below the target", () => {
+    expect(versions(planMigration(SERIES, new Set([1, 3]), 4).steps)).toEqual([2, 4]);
+  });
+
+  it("reverts applied migrations above the target newest first", () => {
+    const plan = planMigration(SERIES, new Set([1, 2, 3, 4]), 1);
+
+    expect(plan.direction).toBe("down");
+    expect(versions(plan.steps)).toEqual([4, 3, 2]);
+    expect(versions(planMigration(SERIES, new Set([1, 2, 3, 4]), 0).steps)).toEqual([4, 3, 2, 1]);
+  });
+
+  it("has nothing to do at the target", () => {
+    expect(planMigration(SERIES, new Set([1, 2]), 2)).toEqual({ direction: "up", steps: [] });
+  });
+
+  it("rejects unknown targets", () => {
+    expect(() => planMigration(SERIES, new Set(), 5)).toThrow("Unknown schema version 5");
+    expect(() => planMigration(SERIES, new Set(), -1)).toThrow("Unknown schema version -1");
+    expect(() => planMigration(SERIES, new Set(), 1.5)).toThrow("Unknown schema version 1.5");
+  });
+
+  it("only warns about newer migrations while migrating up, and refuses to revert past them", () => {
+    expect(versions(planMigration(SERIES, new Set([1, 2, 5]), 4).steps)).toEqual([3, 4]);
+    expect(console.warn).toHaveBeenCalled();
+    expect(() => planMigration(SERIES, new Set([1, 2, 3, 4, 5]), 2)).toThrow("newer than this version of the app");
+  });
+});
+
+describe("checkVersions", () => {
+  it("requires versions numbered from 1 without gaps", () => {
+    expect(() => checkVersions(SERIES)).not.toThrow();
+    expect(() => checkVersions([SERIES[0], SERIES[2]])).toThrow("Migration step-3 has version 3, expected 2");
+  });
+
+  it("holds for both shipped series", () => {
+    expect(() => checkVersions(MIGRATIONS)).not.toThrow();
+    expect(() => checkVersions(SQLITE_MIGRATIONS)).not.toThrow();
+  });
+});
+
+describe("migrate (Postgres)", () => {
+  it("applies every migration in order inside one locked transaction", async () => {
+    const { client, query, ran } = fakeClient([]);
+    const run = await migrate(client);
+
+    expect(ran).toEqual(MIGRATIONS.map((m) => m.up));
+    expect(run.versions).toEqual(versions(MIGRATIONS));
+    expect(run.status).toMatchObject({ currentVersion: LATEST_VERSION, pending: [] });
+
+    const statements = query.mock.calls.map(([sql]) => sql);
+    expect(statements[0]).toBe("BEGIN");
+    expect(statements[1]).toContain("pg_advisory_xact_lock");
+    expect(statements[statements.length - 1]).toBe("COMMIT");
+  });
+
+  it("reverts down to the target newest first", async () => {
+    const { client, ran, rows } = fakeClient(versions(MIGRATIONS));
+    const run = await migrate(client, LATEST_VERSION - 3);
+
+    expect(run.direction).toBe("down");
+    expect(ran).toEqual(MIGRATIONS.slice(-3).reverse().map((m) => m.down));
+    expect([...rows.keys()].sort((a, b) => a - b)).toEqual(versions(MIGRATIONS.slice(0, -3)));
+  });
+
+  it("rolls back when a migration fails", async () => {
+    const { client, query } = fakeClient([1], MIGRATIONS[2].up);
+
+    await expect(migrate(client)).rejects.toThrow("syntax error");
+    expect(query.mock.calls.map(([sql]) => sql)).toContain("ROLLBACK");
+    expect(query.mock.calls.map(([sql]) => sql)).not.toContain("COMMIT");
+  });
+});
+
+describe("migrateSqlite", () => {
+  let db: Database.Database;
+  const tables = () =>
+    (db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'search_index_%'").all() as {
+      name: string;
+    }[])
+      .map((row) => row.name)
+      .sort();
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    db.pragma("foreign_keys = ON");
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("builds the schema from nothing and records each version", () => {
+    const run = migrateSqlite(db);
+
+    expect(run.versions).toEqual(versions(SQLITE_MIGRATIONS));
+    expect(getSqliteMigrationStatus(db)).toMatchObject({ currentVersion: SQLITE_LATEST_VERSION, pending: [] });
+    expect(tables()).toEqual([
+      "experiments",
+      "job_tasks",
+      "jobs",
+      "response_metrics",
+      "responses",
+      "schema_migrations",
+      "search_index",
+    ]);
+  });
+
+  it("reverts newest first and migrates back up", () => {
+    migrateSqlite(db);
+
+    expect(migrateSqlite(db, 1)).toMatchObject({ direction: "down", versions: [3, 2] });
+    expect(tables()).not.toContain("search_index");
+
+    expect(migrateSqlite(db, 0)).toMatchObject({ direction: "down", versions: [1] });
+    expect(tables()).toEqual(["schema_migrations"]);
+
+    expect(migrateSqlite(db)).toMatchObject({ direction: "up", versions: [1, 2, 3] });
+    expect(migrateSqlite(db).versions).toEqual([]);
+  });
+
+  it("adopts a file created before migrations and rebuilds its search index", () => {
+    db.exec(SQLITE_MIGRATIONS[0].up);
+    db.exec(SQLITE_MIGRATIONS[1].up);
+    // Indexed by the trigger already; the rebuild must not double it
+    db.prepare("INSERT INTO experiments (id, prompt, created_at, updated_at) VALUES ('e1', 'caching', 'now', 'now')").run();
+    expect(getSqliteMigrationStatus(db).currentVersion).toBe(0);
+
+    migrateSqlite(db);
+
+    expect(db.prepare("SELECT COUNT(*) AS count FROM search_index WHERE search_index MATCH 'caching'").get()).toEqual({
+      count: 1,
+    });
+  });
+
+  it("fills in and keeps each experiment's response count and best score", () => {
+    const summary = () => db.prepare("SELECT response_count, best_score FROM experiments WHERE id = 'e1'").get();
+    const insertResponse = (id: string, score: number) =>
+      db
+        .prepare(
+          `INSERT INTO responses (id, experiment_id, content, temperature, top_p, overall_score, token_count, model, generated_at)
+           VALUES (?, 'e1', 'text', 0.7, 1, ?, 1, 'mock', 'now')`
+        )
+        .run(id, score);
+
+    migrateSqlite(db, 2);
+    db.prepare("INSERT INTO experiments (id, prompt, created_at, updated_at) VALUES ('e1', 'caching', 'now', 'now')").run();
+    insertResponse("r1", 70);
+
+    migrateSqlite(db);
+    expect(summary()).toEqual({ response_count: 1, best_score: 70 });
+
+    insertResponse("r2", 90);
+    insertResponse("r3", 50);
+    expect(summary()).toEqual({ response_count: 3, best_score: 90 });
+
+    db.prepare("DELETE FROM responses WHERE id = 'r2'").run();
+    expect(summary()).toEqual({ response_count: 2, best_score: 70 });
+  });
+
+  it("leaves the schema as it was when a migration fails", () => {
+    migrateSqlite(db, 1);
+    db.exec("CREATE TABLE search_index (text TEXT)"); // Clashes with migration 2
+
+    expect(() => migrateSqlite(db)).toThrow();
+    expect(getSqliteMigrationStatus(db)).toMatchObject({ currentVersion: 1, pending: [2, 3] });
+  });
+});
@@ -0,0 +1,79 @@
+import { Migration } from "@/types";
+
+// IF NOT EXISTS so files created before migrations existed adopt them as they are
+export const migration: Migration = {
+  version: 1,
+  name: "initial-schema",
+  up: `
+    CREATE TABLE IF NOT EXISTS experiments (
+      id TEXT PRIMARY KEY,
+      prompt TEXT NOT NULL,
+      name TEXT,
+      description TEXT,
+      settings TEXT,
+      statistics TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS responses (
+      id TEXT PRIMARY KEY,
+      experiment_id TEXT NOT NULL REFERENCES experiments(id) ON DELETE CASCADE,
+      content TEXT NOT NULL,
+      temperature REAL NOT NULL,
+      top_p REAL NOT NULL,
+      sample_index INTEGER NOT NULL DEFAULT 0,
+      overall_score INTEGER NOT NULL,
+      token_count INTEGER NOT NULL,
+      model TEXT NOT NULL,
+      generated_at TEXT NOT NULL,
+      safety TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_responses_experiment_id ON responses(experiment_id);
+    CREATE INDEX IF NOT EXISTS idx_responses_experiment_score ON responses(experiment_id, overall_score DESC);
+    CREATE INDEX IF NOT EXISTS idx_experiments_created_at ON experiments(created_at DESC);
+
+    CREATE TABLE IF NOT EXISTS response_metrics (
+      response_id TEXT NOT NULL REFERENCES responses(id) ON DELETE CASCADE,
+      metric_id TEXT NOT NULL,
+      metric_version TEXT NOT NULL,
+      score REAL NOT NULL,
+      details TEXT,
+      PRIMARY KEY (response_id, metric_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS jobs (
+      id TEXT PRIMARY KEY,
+      experiment_id TEXT NOT NULL REFERENCES experiments(id) ON DELETE CASCADE,
+      status TEXT NOT NULL,
+      model TEXT NOT NULL,
+      error TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status);
+
+    CREATE TABLE IF NOT EXISTS job_tasks (
+      job_id TEXT NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+      task_index INTEGER NOT NULL,
+      temperature REAL NOT NULL,
+      top_p REAL NOT NULL,
+      sample_index INTEGER NOT NULL DEFAULT 0,
+      status TEXT NOT NULL DEFAULT 'pending',
+      response_id TEXT,
+      error TEXT,
+      updated_at TEXT NOT NULL,
+      PRIMARY KEY (job_id, task_index)
+    );
+  `,
+  // Children first: with foreign keys on, dropping a parent deletes its rows
+  down: `
+    DROP TABLE IF EXISTS job_tasks;
+    DROP TABLE IF EXISTS jobs;
+    DROP TABLE IF EXISTS response_metrics;
+    DROP TABLE IF EXISTS responses;
+    DROP TABLE IF EXISTS experiments;
+  `,
+};
@@ -0,0 +1,61 @@
+import { Migration } from "@/types";
+
+// One FTS5 row per experiment field and per response, kept in step with
+// the tables by triggers. The index is rebuilt from the stored rows, so
+// files that already had it start from a clean copy.
+export const migration: Migration = {
+  version: 2,
+  name: "full-text-search",
+  up: `
+    CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+      text,
+      experiment_id UNINDEXED,
+      response_id UNINDEXED,
+      field UNINDEXED,
+      tokenize = 'porter unicode61'
+    );
+
+    CREATE TRIGGER IF NOT EXISTS experiments_search_insert AFTER INSERT ON experiments BEGIN
+      INSERT INTO search_index (text, experiment_id, field) SELECT new.name, new.id, 'name' WHERE new.name IS NOT NULL;
+      INSERT INTO search_index (text, experiment_id, field)
+        SELECT new.description, new.id, 'description' WHERE new.description IS NOT NULL;
+      INSERT INTO search_index (text, experiment_id, field) VALUES (new.prompt, new.id, 'prompt');
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS experiments_search_update AFTER UPDATE OF name, description ON experiments BEGIN
+      DELETE FROM search_index WHERE experiment_id = old.id AND field IN ('name', 'description');
+      INSERT INTO search_index (text, experiment_id, field) SELECT new.name, new.id, 'name' WHERE new.name IS NOT NULL;
+      INSERT INTO search_index (text, experiment_id, field)
+        SELECT new.description, new.id, 'description' WHERE new.description IS NOT NULL;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS experiments_search_delete AFTER DELETE ON experiments BEGIN
+      DELETE FROM search_index WHERE experiment_id = old.id;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS responses_search_insert AFTER INSERT ON responses BEGIN
+      INSERT INTO search_index (text, experiment_id, response_id, field)
+        VALUES (new.content, new.experiment_id, new.id, 'response');
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS responses_search_delete AFTER DELETE ON responses BEGIN
+      DELETE FROM search_index WHERE response_id = old.id;
+    END;
+
+    DELETE FROM search_index;
+    INSERT INTO search_index (text, experiment_id, field) SELECT name, id, 'name' FROM experiments WHERE name IS NOT NULL;
+    INSERT INTO search_index (text, experiment_id, field)
+      SELECT description, id, 'description' FROM experiments WHERE description IS NOT NULL;
+    INSERT INTO search_index (text, experiment_id, field) SELECT prompt, id, 'prompt' FROM experiments;
+    INSERT INTO search_index (text, experiment_id, response_id, field)
+      SELECT content, experiment_id, id, 'response' FROM responses;
+  `,
+  down: `
+    DROP TRIGGER IF EXISTS responses_search_delete;
+    DROP TRIGGER IF EXISTS responses_search_insert;
+    DROP TRIGGER IF EXISTS experiments_search_delete;
+    DROP TRIGGER IF EXISTS experiments_search_update;
+    DROP TRIGGER IF EXISTS experiments_search_insert;
+    DROP TABLE IF EXISTS search_index;
+  `,
+};
@@ -0,0 +1,43 @@
+import { Migration } from "@/types";
+
+// Response count and best score kept on the experiment row by triggers, so
+// the experiment list seeks its keyset indexes instead of grouping every
+// response on each page
+export const migration: Migration = {
+  version: 3,
+  name: "experiment-summary",
+  up: `
+    ALTER TABLE experiments ADD COLUMN response_count INTEGER NOT NULL DEFAULT 0;
+    ALTER TABLE experiments ADD COLUMN best_score INTEGER;
+
+    UPDATE experiments SET
+      response_count = (SELECT COUNT(*) FROM responses WHERE experiment_id = experiments.id),
+      best_score = (SELECT MAX(overall_score) FROM responses WHERE experiment_id = experiments.id);
+
+    CREATE TRIGGER IF NOT EXISTS responses_summary_insert AFTER INSERT ON responses BEGIN
+      UPDATE experiments
+      SET response_count = response_count + 1, best_score = MAX(COALESCE(best_score, new.overall_score), new.overall_score)
+      WHERE id = new.experiment_id;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS responses_summary_delete AFTER DELETE ON responses BEGIN
+      UPDATE experiments
+      SET response_count = response_count - 1,
+        best_score = (SELECT MAX(overall_score) FROM responses WHERE experiment_id = old.experiment_id)
+      WHERE id = old.experiment_id;
+    END;
+
+    CREATE INDEX IF NOT EXISTS idx_experiments_created_id ON experiments(created_at, id);
+    CREATE INDEX IF NOT EXISTS idx_experiments_sort_score ON experiments(COALESCE(best_score, -1), id);
+    CREATE INDEX IF NOT EXISTS idx_experiments_response_count ON experiments(response_count, id);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_experiments_response_count;
+    DROP INDEX IF EXISTS idx_experiments_sort_score;
+    DROP INDEX IF EXISTS idx_experiments_created_id;
+    DROP TRIGGER IF EXISTS responses_summary_delete;
+    DROP TRIGGER IF EXISTS responses_summary_insert;
+    ALTER TABLE experiments DROP COLUMN best_score;
+    ALTER TABLE experiments DROP COLUMN response_count;
+  `,
+};
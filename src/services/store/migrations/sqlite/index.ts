@@ -0,0 +1,92 @@
+import type BetterSqlite3 from "better-sqlite3";
+import { Migration, MigrationRun, SchemaStatus } from "@/types";
+import { checkVersions, planMigration, toSchemaStatus } from "..";
+import { migration as initialSchema } from "./0001-initial-schema";
+import { migration as fullTextSearch } from "./0002-full-text-search";
+import { migration as experimentSummary } from "./0003-experiment-summary";
+
+/**
+ * SQLite schema migrations in version order, numbered apart from the
+ * Postgres ones. Add new ones at the end with the next version number;
+ * never edit one that has shipped.
+ */
+export const SQLITE_MIGRATIONS: Migration[] = [initialSchema, fullTextSearch, experimentSummary];
+
+checkVersions(SQLITE_MIGRATIONS);
+
+export const SQLITE_LATEST_VERSION = SQLITE_MIGRATIONS.length;
+
+// Timestamps are ISO 8601 text, like the rest of the SQLite store
+const MIGRATIONS_TABLE = `
+  CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    applied_at TEXT NOT NULL
+  )
+`;
+
+/**
+ * Applied migrations by version, empty before the first run
+ */
+function getApplied(db: BetterSqlite3.Database): Map<number, Date> {
+  const exists = db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'").get();
+  if (!exists) {
+    return new Map();
+  }
+
+  const rows = db.prepare("SELECT version, applied_at FROM schema_migrations").all() as {
+    version: number;
+    applied_at: string;
+  }[];
+  return new Map(rows.map((row) => [row.version, new Date(row.applied_at)]));
+}
+
+/**
+ * Which SQLite migrations have been applied
+ */
+export function getSqliteMigrationStatus(db: BetterSqlite3.Database): SchemaStatus {
+  return toSchemaStatus(SQLITE_MIGRATIONS, getApplied(db));
+}
+
+/**
+ * Migrate a SQLite database up or down to a version (the latest by default)
+ *
+ * Runs in one immediate transaction, which takes the file's write lock
+ * first, so another process opening the file waits and finds the work
+ * done; a failing migration leaves the schema as it was.
+ */
+export function migrateSqlite(db: BetterSqlite3.Database, target: number = SQLITE_LATEST_VERSION): MigrationRun {
+  try {
+    const run = db.transaction(() => {
+      db.exec(MIGRATIONS_TABLE);
+
+      const applied = getApplied(db);
+      const { direction, steps } = planMigration(SQLITE_MIGRATIONS, new Set(applied.keys()), target);
+
+      for (const migration of steps) {
+        console.log(`🔨 Migrating ${direction}: ${migration.version} ${migration.name}`);
+        if (direction === "up") {
+          db.exec(migration.up);
+          db.prepare("INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)").run(
+            migration.version,
+            migration.name,
+            new Date().toISOString()
+          );
+        } else {
+          db.exec(migration.down);
+          db.prepare("DELETE FROM schema_migrations WHERE version = ?").run(migration.version);
+        }
+      }
+
+      return { direction, versions: steps.map((m) => m.version), status: getSqliteMigrationStatus(db) };
+    }).immediate();
+
+    if (run.versions.length > 0) {
+      console.log(`✅ SQLite schema at version ${run.status.currentVersion}`);
+    }
+    return run;
+  } catch (error) {
+    console.error("❌ Error migrating SQLite schema:", (error as Error).message);
+    throw error;
+  }
+}
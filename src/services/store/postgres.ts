@@ -0,0 +1,739 @@
+import { Pool, PoolClient } from "pg";
+import {
+  Experiment,
+  LLMResponse,
+  ExperimentStore,
+  ExperimentListQuery,
+  ExperimentPage,
+  ExperimentJob,
+  JobStatus,
+  MigrationRun,
+  ParameterSetStatistics,
+  SchemaStatus,
+  SearchQuery,
+  SearchResult,
+} from "@/types";
+import { toExperiment, toJob, toSummary } from "./rows";
+import { listClauses, toPage } from "./listing";
+import {
+  HIGHLIGHT_END,
+  HIGHLIGHT_START,
+  RESPONSE_MATCHES_SHOWN,
+  SearchHit,
+  fromMarkedSnippet,
+  toSearchResults,
+} from "./search";
+import { getMigrationStatus, migrate } from "./migrations";
+
+// Database connection pool
+let pool: Pool | null = null;
+
+// ts_headline options for search snippets
+const HEADLINE_OPTIONS = [
+  `StartSel="${HIGHLIGHT_START}"`,
+  `StopSel="${HIGHLIGHT_END}"`,
+  "MaxWords=35",
+  "MinWords=15",
+  "MaxFragments=2",
+  'FragmentDelimiter=" … "',
+].join(", ");
+
+/**
+ * Get or create PostgreSQL connection pool
+ */
+function getPool(): Pool {
+  if (pool) {
+    return pool;
+  }
+
+  const connectionString = process.env.DATABASE_URL;
+
+  if (!connectionString) {
+    throw new Error("DATABASE_URL environment variable is not set");
+  }
+
+  pool = new Pool({
+    connectionString,
+    ssl: {
+      rejectUnauthorized: false, // Required for Supabase
+    },
+    // Transaction pooler settings (important for Supabase)
+    max: 20, // Maximum number of clients in the pool
+    idleTimeoutMillis: 30000,
+    connectionTimeoutMillis: 10000,
+  });
+
+  return pool;
+}
+
+// Resolves once the schema is migrated; shared by every query
+let schemaReady: Promise<void> | null = null;
+
+/**
+ * Check out a client once the schema is ready. The first caller migrates
+ * it and the rest wait, so no query runs against a missing table.
+ */
+async function connect(): Promise<PoolClient> {
+  const currentPool = getPool();
+
+  if (!schemaReady) {
+    schemaReady = prepareSchema(currentPool).catch((error) => {
+      // Let the next query try again
+      schemaReady = null;
+      throw error;
+    });
+  }
+  await schemaReady;
+
+  return currentPool.connect();
+}
+
+/**
+ * Apply pending migrations, unless DATABASE_AUTO_MIGRATE=false leaves that
+ * to POST /api/migrations
+ */
+async function prepareSchema(currentPool: Pool): Promise<void> {
+  const client = await currentPool.connect();
+
+  try {
+    console.log("✅ Connected to PostgreSQL database (Supabase Transaction Pooler)");
+
+    if (process.env.DATABASE_AUTO_MIGRATE === "false") {
+      const status = await getMigrationStatus(client);
+      if (status.pending.length > 0) {
+        console.warn(`⚠️ Database schema is missing migrations ${status.pending.join(", ")}`);
+      }
+      return;
+    }
+
+    await migrate(client);
+  } catch (error) {
+    console.error("❌ Failed to prepare database:", (error as Error).message);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Insert a single response row with its metric scores
+ */
+async function insertResponse(
+  client: PoolClient,
+  experimentId: string,
+  response: LLMResponse
+): Promise<void> {
+  await client.query(
+    `INSERT INTO responses (
+      id, experiment_id, content, temperature, top_p,
+      overall_score, token_count, model, generated_at, sample_index, safety
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+    [
+      response.id,
+      experimentId,
+      response.content,
+      response.parameters.temperature,
+      response.parameters.topP,
+      response.metrics.overall,
+      response.tokenCount,
+      response.model,
+      response.generatedAt,
+      response.sampleIndex ?? 0,
+      response.safety ? JSON.stringify(response.safety) : null,
+    ]
+  );
+
+  for (const [metricId, score] of Object.entries(response.metrics)) {
+    if (metricId === "overall") continue;
+
+    await client.query(
+      `INSERT INTO response_metrics (response_id, metric_id, metric_version, score, details)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [
+        response.id,
+        metricId,
+        response.metricVersions?.[metricId] ?? "unknown",
+        score,
+        response.metricDetails?.[metricId] ? JSON.stringify(response.metricDetails[metricId]) : null,
+      ]
+    );
+  }
+}
+
+/**
+ * Save an experiment with its responses
+ */
+async function saveExperiment(experiment: Experiment): Promise<void> {
+  const client = await connect();
+
+  try {
+    await client.query("BEGIN");
+
+    // Insert experiment
+    await client.query(
+      `INSERT INTO experiments (id, prompt, name, description, settings, statistics, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        experiment.id,
+        experiment.prompt,
+        experiment.name || null,
+        experiment.description || null,
+        experiment.settings ? JSON.stringify(experiment.settings) : null,
+        experiment.statistics ? JSON.stringify(experiment.statistics) : null,
+        experiment.createdAt,
+        experiment.updatedAt,
+      ]
+    );
+
+    // Insert responses
+    for (const response of experiment.responses) {
+      await insertResponse(client, experiment.id, response);
+    }
+
+    await client.query("COMMIT");
+    console.log(`✅ Saved experiment ${experiment.id} with ${experiment.responses.length} responses`);
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("❌ Error saving experiment:", (error as Error).message);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get an experiment by ID with all its responses
+ */
+async function getExperiment(id: string): Promise<Experiment | null> {
+  const client = await connect();
+
+  try {
+    // Get experiment
+    const expResult = await client.query(
+      `SELECT id, prompt, name, description, settings, statistics, created_at, updated_at
+       FROM experiments WHERE id = $1`,
+      [id]
+    );
+
+    if (expResult.rows.length === 0) {
+      return null;
+    }
+
+    // Get responses
+    const respResult = await client.query(
+      `SELECT id, content, temperature, top_p, sample_index, overall_score, token_count, model, generated_at, safety
+       FROM responses WHERE experiment_id = $1
+       ORDER BY generated_at ASC, sample_index ASC`,
+      [id]
+    );
+
+    // Get metric scores for all responses at once
+    const metricResult = await client.query(
+      `SELECT m.* FROM response_metrics m
+       JOIN responses r ON r.id = m.response_id
+       WHERE r.experiment_id = $1`,
+      [id]
+    );
+
+    return toExperiment(expResult.rows[0], respResult.rows, metricResult.rows);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * A page of experiment summaries, filtered and sorted. Only the page's rows
+ * look up their best response's parameters.
+ */
+async function listExperiments(query: ExperimentListQuery): Promise<ExperimentPage> {
+  const client = await connect();
+
+  try {
+    const values: unknown[] = [];
+    const { where, orderBy } = listClauses(
+      query,
+      (value) => {
+        values.push(value);
+        return `$${values.length}`;
+      },
+      "ILIKE"
+    );
+
+    const result = await client.query(
+      `WITH page AS (
+        SELECT e.id, e.name, e.prompt, e.created_at, e.response_count, e.best_score
+        FROM experiments e
+        WHERE ${where}
+        ORDER BY ${orderBy}
+        LIMIT ${query.limit + 1}
+      )
+      SELECT page.*, best.temperature AS best_temperature, best.top_p AS best_top_p
+      FROM page
+      LEFT JOIN LATERAL (
+        SELECT temperature, top_p FROM responses
+        WHERE experiment_id = page.id
+        ORDER BY overall_score DESC LIMIT 1
+      ) best ON TRUE
+      ORDER BY ${orderBy}`,
+      values
+    );
+
+    return toPage(result.rows.map(toSummary), query);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Full-text search over experiment names, descriptions, prompts and
+ * response content. Experiments are ranked first; snippets are only made
+ * for the ones returned.
+ */
+async function searchExperiments(query: SearchQuery): Promise<SearchResult[]> {
+  const client = await connect();
+
+  try {
+    const ranked = await client.query(
+      `WITH q AS (SELECT websearch_to_tsquery('english', $1) AS query),
+      hits AS (
+        SELECT e.id AS experiment_id, ts_rank(e.search_vector, q.query) AS rank
+        FROM experiments e, q
+        WHERE e.search_vector @@ q.query
+        UNION ALL
+        SELECT r.experiment_id, ts_rank(r.search_vector, q.query)
+        FROM responses r, q
+        WHERE r.search_vector @@ q.query
+      )
+      SELECT experiment_id FROM hits
+      GROUP BY experiment_id
+      ORDER BY MAX(rank) DESC, experiment_id
+      LIMIT $2`,
+      [query.q, query.limit]
+    );
+    const ids: string[] = ranked.rows.map((row) => row.experiment_id);
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const experimentResult = await client.query(
+      `SELECT
+        e.id, e.name, e.prompt, e.created_at,
+        CASE WHEN e.search_vector @@ q.query THEN ts_rank(e.search_vector, q.query) END AS rank,
+        ts_headline('english', coalesce(e.name, ''), q.query, $3) AS name_snippet,
+        ts_headline('english', coalesce(e.description, ''), q.query, $3) AS description_snippet,
+        ts_headline('english', e.prompt, q.query, $3) AS prompt_snippet
+      FROM experiments e, websearch_to_tsquery('english', $1) AS q(query)
+      WHERE e.id = ANY($2)`,
+      [query.q, ids, HEADLINE_OPTIONS]
+    );
+
+    const responseResult = await client.query(
+      `SELECT
+        ranked.id, ranked.experiment_id, ranked.rank, ranked.matching,
+        ts_headline('english', ranked.content, q.query, $3) AS snippet
+      FROM (
+        SELECT
+          r.id, r.experiment_id, r.content,
+          ts_rank(r.search_vector, q.query) AS rank,
+          ROW_NUMBER() OVER (
+            PARTITION BY r.experiment_id
+            ORDER BY ts_rank(r.search_vector, q.query) DESC, r.id
+          ) AS position,
+          COUNT(*) OVER (PARTITION BY r.experiment_id) AS matching
+        FROM responses r, websearch_to_tsquery('english', $1) AS q(query)
+        WHERE r.experiment_id = ANY($2) AND r.search_vector @@ q.query
+      ) ranked, websearch_to_tsquery('english', $1) AS q(query)
+      WHERE ranked.position <= $4`,
+      [query.q, ids, HEADLINE_OPTIONS, RESPONSE_MATCHES_SHOWN]
+    );
+
+    const experiments = new Map<string, Pick<SearchResult, "id" | "name" | "prompt" | "createdAt">>();
+    const hits: SearchHit[] = [];
+    for (const row of experimentResult.rows) {
+      experiments.set(row.id, {
+        id: row.id,
+        name: row.name || undefined,
+        prompt: row.prompt,
+        createdAt: new Date(row.created_at),
+      });
+
+      // Terms may be spread over the fields; each field with one is shown
+      if (row.rank === null) continue;
+      for (const field of ["name", "description", "prompt"] as const) {
+        const match = fromMarkedSnippet(row[`${field}_snippet`]);
+        if (match.highlights.length > 0) {
+          hits.push({ experimentId: row.id, field, ...match, rank: row.rank });
+        }
+      }
+    }
+
+    const matchingResponses = new Map<string, number>();
+    for (const row of responseResult.rows) {
+      matchingResponses.set(row.experiment_id, Number(row.matching));
+      hits.push({
+        experimentId: row.experiment_id,
+        field: "response",
+        responseId: row.id,
+        ...fromMarkedSnippet(row.snippet),
+        rank: row.rank,
+      });
+    }
+
+    return toSearchResults(hits, experiments, query, matchingResponses);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Update an experiment
+ */
+async function updateExperiment(
+  id: string,
+  updates: Partial<Pick<Experiment, "name" | "description">>
+): Promise<void> {
+  const client = await connect();
+
+  try {
+    const fields: string[] = [];
+    const values: unknown[] = [];
+    let paramIndex = 1;
+
+    if (updates.name !== undefined) {
+      fields.push(`name = $${paramIndex++}`);
+      values.push(updates.name);
+    }
+
+    if (updates.description !== undefined) {
+      fields.push(`description = $${paramIndex++}`);
+      values.push(updates.description);
+    }
+
+    fields.push(`updated_at = $${paramIndex++}`);
+    values.push(new Date());
+
+    values.push(id);
+
+    await client.query(
+      `UPDATE experiments SET ${fields.join(", ")} WHERE id = $${paramIndex}`,
+      values
+    );
+
+    console.log(`✅ Updated experiment ${id}`);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Store the aggregated per-parameter-set statistics of an experiment
+ */
+async function updateExperimentStatistics(
+  id: string,
+  statistics: ParameterSetStatistics[]
+): Promise<void> {
+  const client = await connect();
+
+  try {
+    await client.query(
+      "UPDATE experiments SET statistics = $1, updated_at = NOW() WHERE id = $2",
+      [JSON.stringify(statistics), id]
+    );
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Delete an experiment and all its responses
+ */
+async function deleteExperiment(id: string): Promise<void> {
+  const client = await connect();
+
+  try {
+    await client.query("DELETE FROM experiments WHERE id = $1", [id]);
+    console.log(`✅ Deleted experiment ${id}`);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Save a new job with its tasks
+ */
+async function saveJob(job: ExperimentJob): Promise<void> {
+  const client = await connect();
+
+  try {
+    await client.query("BEGIN");
+
+    await client.query(
+      `INSERT INTO jobs (id, experiment_id, status, model, error, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [
+        job.id,
+        job.experimentId,
+        job.status,
+        job.model,
+        job.error || null,
+        job.createdAt,
+        job.updatedAt,
+      ]
+    );
+
+    for (const task of job.tasks) {
+      await client.query(
+        `INSERT INTO job_tasks (job_id, task_index, temperature, top_p, sample_index, status)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          job.id,
+          task.index,
+          task.parameters.temperature,
+          task.parameters.topP,
+          task.sampleIndex,
+          task.status,
+        ]
+      );
+    }
+
+    await client.query("COMMIT");
+    console.log(`✅ Saved job ${job.id} with ${job.tasks.length} tasks`);
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("❌ Error saving job:", (error as Error).message);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get a job by ID with per-task progress
+ */
+async function getJob(id: string): Promise<ExperimentJob | null> {
+  const client = await connect();
+
+  try {
+    const jobResult = await client.query("SELECT * FROM jobs WHERE id = $1", [id]);
+
+    if (jobResult.rows.length === 0) {
+      return null;
+    }
+
+    const taskResult = await client.query(
+      `SELECT t.*, r.overall_score
+       FROM job_tasks t
+       LEFT JOIN responses r ON r.id = t.response_id
+       WHERE t.job_id = $1
+       ORDER BY t.task_index ASC`,
+      [id]
+    );
+
+    return toJob(jobResult.rows[0], taskResult.rows);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get IDs of jobs that have not finished yet
+ */
+async function getUnfinishedJobIds(): Promise<string[]> {
+  const client = await connect();
+
+  try {
+    const result = await client.query(
+      "SELECT id FROM jobs WHERE status IN ('queued', 'running') ORDER BY created_at ASC"
+    );
+    return result.rows.map((row) => row.id);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Update a job's status
+ */
+async function updateJobStatus(
+  id: string,
+  status: JobStatus,
+  error?: string
+): Promise<void> {
+  const client = await connect();
+
+  try {
+    await client.query(
+      "UPDATE jobs SET status = $1, error = $2, updated_at = NOW() WHERE id = $3",
+      [status, error || null, id]
+    );
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Atomically claim a pending task so only one worker runs it
+ */
+async function claimJobTask(jobId: string, index: number): Promise<boolean> {
+  const client = await connect();
+
+  try {
+    const result = await client.query(
+      `UPDATE job_tasks SET status = 'running', updated_at = NOW()
+       WHERE job_id = $1 AND task_index = $2 AND status = 'pending'`,
+      [jobId, index]
+    );
+    return result.rowCount === 1;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Store a task's response and mark the task completed
+ */
+async function completeJobTask(
+  jobId: string,
+  index: number,
+  experimentId: string,
+  response: LLMResponse
+): Promise<void> {
+  const client = await connect();
+
+  try {
+    await client.query("BEGIN");
+    await insertResponse(client, experimentId, response);
+    await client.query(
+      `UPDATE job_tasks SET status = 'completed', response_id = $1, updated_at = NOW()
+       WHERE job_id = $2 AND task_index = $3`,
+      [response.id, jobId, index]
+    );
+    await client.query(
+      "UPDATE experiments SET updated_at = NOW() WHERE id = $1",
+      [experimentId]
+    );
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("❌ Error completing job task:", (error as Error).message);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Mark a task as failed
+ */
+async function failJobTask(jobId: string, index: number, error: string): Promise<void> {
+  const client = await connect();
+
+  try {
+    await client.query(
+      `UPDATE job_tasks SET status = 'failed', error = $1, updated_at = NOW()
+       WHERE job_id = $2 AND task_index = $3`,
+      [error, jobId, index]
+    );
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Record that a running task's worker is still alive
+ */
+async function touchJobTask(jobId: string, index: number): Promise<void> {
+  const client = await connect();
+
+  try {
+    await client.query(
+      `UPDATE job_tasks SET updated_at = NOW()
+       WHERE job_id = $1 AND task_index = $2 AND status = 'running'`,
+      [jobId, index]
+    );
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Return tasks stuck in 'running' (e.g. after a crash) to 'pending'
+ */
+async function resetStaleJobTasks(staleAfterMs: number): Promise<number> {
+  const client = await connect();
+
+  try {
+    const result = await client.query(
+      `UPDATE job_tasks SET status = 'pending', updated_at = NOW()
+       WHERE status = 'running' AND updated_at < NOW() - ($1 * INTERVAL '1 millisecond')`,
+      [staleAfterMs]
+    );
+    return result.rowCount || 0;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Applied and pending schema migrations
+ */
+async function getSchemaStatus(): Promise<SchemaStatus> {
+  const client = await getPool().connect();
+
+  try {
+    return await getMigrationStatus(client);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Migrate the schema up or down to a version, the latest by default
+ */
+async function migrateSchema(target?: number): Promise<MigrationRun> {
+  const client = await getPool().connect();
+
+  try {
+    return await migrate(client, target);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Close database connection pool (for graceful shutdown)
+ */
+async function close(): Promise<void> {
+  if (pool) {
+    await pool.end();
+    pool = null;
+    schemaReady = null;
+    console.log("👋 Database connection pool closed");
+  }
+}
+
+/**
+ * PostgreSQL store (e.g. Supabase), connected through DATABASE_URL
+ */
+export const postgresStore: ExperimentStore = {
+  id: "postgres",
+  saveExperiment,
+  getExperiment,
+  listExperiments,
+  searchExperiments,
+  updateExperiment,
+  updateExperimentStatistics,
+  deleteExperiment,
+  saveJob,
+  getJob,
+  getUnfinishedJobIds,
+  updateJobStatus,
+  claimJobTask,
+  completeJobTask,
+  failJobTask,
+  touchJobTask,
+  resetStaleJobTasks,
+  close,
+  getSchemaStatus,
+  migrateSchema,
+};
@@ -0,0 +1,194 @@
+import {
+  Experiment,
+  ExperimentJob,
+  ExperimentSummary,
+  JobTask,
+  LLMResponse,
+  MetricDetails,
+} from "@/types";
+
+// Rows as the SQL stores read them. JSON columns arrive parsed from
+// Postgres and as text from SQLite; timestamps as Date or ISO text.
+
+export interface ExperimentRecord {
+  id: string;
+  prompt: string;
+  name: string | null;
+  description: string | null;
+  settings: unknown;
+  statistics: unknown;
+  created_at: string | Date;
+  updated_at: string | Date;
+}
+
+export interface ResponseRecord {
+  id: string;
+  content: string;
+  temperature: number;
+  top_p: number;
+  sample_index: number;
+  overall_score: number;
+  token_count: number;
+  model: string;
+  generated_at: string | Date;
+  safety: unknown;
+}
+
+export interface MetricRecord {
+  response_id: string;
+  metric_id: string;
+  metric_version: string;
+  score: number;
+  details: unknown;
+}
+
+export interface SummaryRecord {
+  id: string;
+  name: string | null;
+  prompt: string;
+  created_at: string | Date;
+  response_count: number | string;
+  best_score: number | string | null;
+  best_temperature: number | string | null;
+  best_top_p: number | string | null;
+}
+
+export interface JobRecord {
+  id: string;
+  experiment_id: string;
+  status: ExperimentJob["status"];
+  model: string;
+  error: string | null;
+  created_at: string | Date;
+  updated_at: string | Date;
+}
+
+export interface JobTaskRecord {
+  task_index: number;
+  temperature: number;
+  top_p: number;
+  sample_index: number;
+  status: JobTask["status"];
+  response_id: string | null;
+  overall_score: number | null;
+  error: string | null;
+}
+
+/**
+ * A JSON column's value, parsed if it is still text
+ */
+export function parseJson<T>(value: unknown): T | undefined {
+  if (value === null || value === undefined) return undefined;
+  return (typeof value === "string" ? JSON.parse(value) : value) as T;
+}
+
+/**
+ * Assemble an experiment from its row, its response rows in order and the
+ * metric rows of those responses
+ */
+export function toExperiment(
+  row: ExperimentRecord,
+  responseRows: ResponseRecord[],
+  metricRows: MetricRecord[]
+): Experiment {
+  const scoresByResponse = new Map<
+    string,
+    {
+      scores: Record<string, number>;
+      versions: Record<string, string>;
+      details: Record<string, MetricDetails>;
+    }
+  >();
+  for (const metric of metricRows) {
+    const entry = scoresByResponse.get(metric.response_id) || { scores: {}, versions: {}, details: {} };
+    entry.scores[metric.metric_id] = metric.score;
+    entry.versions[metric.metric_id] = metric.metric_version;
+    const details = parseJson<MetricDetails>(metric.details);
+    if (details) {
+      entry.details[metric.metric_id] = details;
+    }
+    scoresByResponse.set(metric.response_id, entry);
+  }
+
+  const responses: LLMResponse[] = responseRows.map((response) => ({
+    id: response.id,
+    content: response.content,
+    parameters: {
+      temperature: response.temperature,
+      topP: response.top_p,
+    },
+    sampleIndex: response.sample_index,
+    metrics: {
+      ...scoresByResponse.get(response.id)?.scores,
+      overall: response.overall_score,
+    },
+    metricVersions: scoresByResponse.get(response.id)?.versions,
+    metricDetails: scoresByResponse.get(response.id)?.details,
+    safety: parseJson(response.safety),
+    generatedAt: new Date(response.generated_at),
+    tokenCount: response.token_count,
+    model: response.model,
+  }));
+
+  return {
+    id: row.id,
+    prompt: row.prompt,
+    responses,
+    settings: parseJson(row.settings),
+    statistics: parseJson(row.statistics),
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+    name: row.name ?? undefined,
+    description: row.description ?? undefined,
+  };
+}
+
+/**
+ * Summary of an experiment from the list query
+ */
+export function toSummary(row: SummaryRecord): ExperimentSummary {
+  return {
+    id: row.id,
+    name: row.name || undefined,
+    prompt: row.prompt,
+    responseCount: Number(row.response_count),
+    createdAt: new Date(row.created_at),
+    bestResponse:
+      row.best_score !== null
+        ? {
+            parameters: {
+              temperature: Number(row.best_temperature),
+              topP: Number(row.best_top_p),
+            },
+            overallScore: Math.round(Number(row.best_score)),
+          }
+        : undefined,
+  };
+}
+
+/**
+ * Assemble a job from its row and its task rows in order
+ */
+export function toJob(row: JobRecord, taskRows: JobTaskRecord[]): ExperimentJob {
+  return {
+    id: row.id,
+    experimentId: row.experiment_id,
+    status: row.status,
+    model: row.model,
+    tasks: taskRows.map((task) => ({
+      index: task.task_index,
+      parameters: {
+        temperature: task.temperature,
+        topP: task.top_p,
+      },
+      sampleIndex: task.sample_index,
+      status: task.status,
+      responseId: task.response_id || undefined,
+      overallScore: task.overall_score ?? undefined,
+      error: task.error || undefined,
+    })),
+    error: row.error || undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
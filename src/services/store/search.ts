@@ -0,0 +1,162 @@
+import { SearchField, SearchMatch, SearchQuery, SearchResult } from "@/types";
+
+// Around matched terms in snippets from the SQL stores; control characters,
+// so they cannot clash with ordinary text
+export const HIGHLIGHT_START = "\u0002";
+export const HIGHLIGHT_END = "\u0003";
+
+// Responses shown per experiment; the rest are only counted
+export const RESPONSE_MATCHES_SHOWN = 3;
+
+const SNIPPET_CONTEXT = 80;
+
+/**
+ * Terms of a search: quoted phrases and single words
+ */
+export function parseSearchTerms(q: string): string[] {
+  const terms: string[] = [];
+  for (const match of q.matchAll(/"([^"]*)"|(\S+)/g)) {
+    const term = (match[1] ?? match[2]).replace(/"/g, "").trim();
+    if (term) terms.push(term);
+  }
+  return terms;
+}
+
+/**
+ * An FTS5 query that matches all terms, each quoted so that operators and
+ * punctuation in the input are taken literally
+ */
+export function toFtsQuery(q: string): string {
+  return parseSearchTerms(q)
+    .map((term) => `"${term}"`)
+    .join(" ");
+}
+
+/**
+ * Snippet and highlight offsets from text with highlight markers
+ */
+export function fromMarkedSnippet(marked: string): Pick<SearchMatch, "snippet" | "highlights"> {
+  let snippet = "";
+  let start = -1;
+  const highlights: [number, number][] = [];
+
+  for (const char of marked) {
+    if (char === HIGHLIGHT_START) {
+      start = snippet.length;
+    } else if (char === HIGHLIGHT_END) {
+      if (start >= 0 && snippet.length > start) highlights.push([start, snippet.length]);
+      start = -1;
+    } else {
+      snippet += char;
+    }
+  }
+
+  return { snippet, highlights };
+}
+
+/**
+ * Occurrences of the terms in text, case-insensitive, as [start, end);
+ * overlapping ones are merged
+ */
+function findTerms(text: string, terms: string[]): [number, number][] {
+  const lower = text.toLowerCase();
+  const found: [number, number][] = [];
+
+  for (const term of terms) {
+    const needle = term.toLowerCase();
+    for (let at = lower.indexOf(needle); at >= 0; at = lower.indexOf(needle, at + needle.length)) {
+      found.push([at, at + needle.length]);
+    }
+  }
+
+  found.sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  for (const [start, end] of found) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * The in-memory store's match: every term must occur in the text. The
+ * snippet is centred on the first occurrence.
+ */
+export function matchText(
+  text: string | undefined,
+  terms: string[]
+): (Pick<SearchMatch, "snippet" | "highlights"> & { hits: number }) | null {
+  if (!text || terms.length === 0) return null;
+
+  const found = findTerms(text, terms);
+  const lower = text.toLowerCase();
+  if (!terms.every((term) => lower.includes(term.toLowerCase()))) return null;
+
+  const from = Math.max(0, found[0][0] - SNIPPET_CONTEXT);
+  const to = Math.min(text.length, found[0][1] + SNIPPET_CONTEXT * 2);
+  const prefix = from > 0 ? "… " : "";
+  const snippet = `${prefix}${text.slice(from, to)}${to < text.length ? " …" : ""}`;
+
+  return {
+    snippet,
+    highlights: found
+      .filter(([start, end]) => start >= from && end <= to)
+      .map(([start, end]): [number, number] => [start - from + prefix.length, end - from + prefix.length]),
+    hits: found.length,
+  };
+}
+
+export interface SearchHit {
+  experimentId: string;
+  field: SearchField;
+  responseId?: string;
+  snippet: string;
+  highlights: [number, number][];
+  rank: number; // Higher is better
+}
+
+/**
+ * Group ranked hits into one result per experiment, best experiment first,
+ * keeping every field match and the best few response matches. Stores
+ * that only fetch the shown hits pass the number of matching responses.
+ */
+export function toSearchResults(
+  hits: SearchHit[],
+  experiments: Map<string, Pick<SearchResult, "id" | "name" | "prompt" | "createdAt">>,
+  query: SearchQuery,
+  matchingResponses?: Map<string, number>
+): SearchResult[] {
+  const grouped = new Map<string, { rank: number; hits: SearchHit[] }>();
+  for (const hit of hits) {
+    const group = grouped.get(hit.experimentId) || { rank: -Infinity, hits: [] };
+    group.rank = Math.max(group.rank, hit.rank);
+    group.hits.push(hit);
+    grouped.set(hit.experimentId, group);
+  }
+
+  return [...grouped.entries()]
+    .filter(([id]) => experiments.has(id))
+    .sort(([idA, a], [idB, b]) => b.rank - a.rank || (idA < idB ? -1 : 1))
+    .slice(0, query.limit)
+    .map(([id, group]) => {
+      const fieldHits = group.hits.filter((hit) => hit.field !== "response");
+      const responseHits = group.hits
+        .filter((hit) => hit.field === "response")
+        .sort((a, b) => b.rank - a.rank);
+
+      return {
+        ...(experiments.get(id) as Pick<SearchResult, "id" | "name" | "prompt" | "createdAt">),
+        matches: [...fieldHits, ...responseHits.slice(0, RESPONSE_MATCHES_SHOWN)].map((hit) => ({
+          field: hit.field,
+          responseId: hit.responseId,
+          snippet: hit.snippet,
+          highlights: hit.highlights,
+        })),
+        matchingResponses: matchingResponses?.get(id) ?? responseHits.length,
+      };
+    });
+}
@@ -0,0 +1,468 @@
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import type BetterSqlite3 from "better-sqlite3";
+import {
+  Experiment,
+  ExperimentJob,
+  ExperimentStore,
+  ExperimentListQuery,
+  ExperimentPage,
+  JobStatus,
+  LLMResponse,
+  MigrationRun,
+  ParameterSetStatistics,
+  SchemaStatus,
+  SearchField,
+  SearchQuery,
+  SearchResult,
+} from "@/types";
+import {
+  ExperimentRecord,
+  JobRecord,
+  JobTaskRecord,
+  MetricRecord,
+  ResponseRecord,
+  SummaryRecord,
+  toExperiment,
+  toJob,
+  toSummary,
+} from "./rows";
+import { listClauses, toPage } from "./listing";
+import { HIGHLIGHT_END, HIGHLIGHT_START, SearchHit, fromMarkedSnippet, toFtsQuery, toSearchResults } from "./search";
+import { getSqliteMigrationStatus, migrateSqlite } from "./migrations/sqlite";
+
+// Timestamps are stored as ISO 8601 text, which sorts chronologically
+const now = () => new Date().toISOString();
+
+const json = (value: unknown) => (value === undefined || value === null ? null : JSON.stringify(value));
+
+/**
+ * Store in a local SQLite file, created on first use. Needs the
+ * better-sqlite3 package, which is only loaded when this store is chosen.
+ */
+export function createSqliteStore(filename: string): ExperimentStore {
+  let db: BetterSqlite3.Database | null = null;
+
+  async function getDb(): Promise<BetterSqlite3.Database> {
+    if (db) return db;
+
+    const { default: Database } = await import("better-sqlite3");
+    if (filename !== ":memory:") {
+      mkdirSync(dirname(filename), { recursive: true });
+    }
+
+    const database = new Database(filename);
+    database.pragma("journal_mode = WAL");
+    database.pragma("foreign_keys = ON");
+    prepareSchema(database);
+
+    db = database;
+    console.log(`✅ Opened SQLite database at ${filename}`);
+    return db;
+  }
+
+  /**
+   * Apply pending migrations, unless DATABASE_AUTO_MIGRATE=false leaves
+   * that to POST /api/migrations
+   */
+  function prepareSchema(database: BetterSqlite3.Database): void {
+    if (process.env.DATABASE_AUTO_MIGRATE === "false") {
+      const status = getSqliteMigrationStatus(database);
+      if (status.pending.length > 0) {
+        console.warn(`⚠️ SQLite schema is missing migrations ${status.pending.join(", ")}`);
+      }
+      return;
+    }
+
+    migrateSqlite(database);
+  }
+
+  function insertResponse(database: BetterSqlite3.Database, experimentId: string, response: LLMResponse): void {
+    database
+      .prepare(
+        `INSERT INTO responses (
+          id, experiment_id, content, temperature, top_p,
+          overall_score, token_count, model, generated_at, sample_index, safety
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        response.id,
+        experimentId,
+        response.content,
+        response.parameters.temperature,
+        response.parameters.topP,
+        response.metrics.overall,
+        response.tokenCount,
+        response.model,
+        new Date(response.generatedAt).toISOString(),
+        response.sampleIndex ?? 0,
+        json(response.safety)
+      );
+
+    const insertMetric = database.prepare(
+      `INSERT INTO response_metrics (response_id, metric_id, metric_version, score, details)
+       VALUES (?, ?, ?, ?, ?)`
+    );
+    for (const [metricId, score] of Object.entries(response.metrics)) {
+      if (metricId === "overall") continue;
+
+      insertMetric.run(
+        response.id,
+        metricId,
+        response.metricVersions?.[metricId] ?? "unknown",
+        score,
+        json(response.metricDetails?.[metricId])
+      );
+    }
+  }
+
+  return {
+    id: "sqlite",
+
+    async saveExperiment(experiment: Experiment): Promise<void> {
+      const database = await getDb();
+
+      database.transaction(() => {
+        database
+          .prepare(
+            `INSERT INTO experiments (id, prompt, name, description, settings, statistics, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+          )
+          .run(
+            experiment.id,
+            experiment.prompt,
+            experiment.name || null,
+            experiment.description || null,
+            json(experiment.settings),
+            json(experiment.statistics),
+            new Date(experiment.createdAt).toISOString(),
+            new Date(experiment.updatedAt).toISOString()
+          );
+
+        for (const response of experiment.responses) {
+          insertResponse(database, experiment.id, response);
+        }
+      })();
+
+      console.log(`✅ Saved experiment ${experiment.id} with ${experiment.responses.length} responses`);
+    },
+
+    async getExperiment(id: string): Promise<Experiment | null> {
+      const database = await getDb();
+
+      const row = database.prepare("SELECT * FROM experiments WHERE id = ?").get(id) as ExperimentRecord | undefined;
+      if (!row) return null;
+
+      const responses = database
+        .prepare("SELECT * FROM responses WHERE experiment_id = ? ORDER BY generated_at ASC, sample_index ASC")
+        .all(id) as ResponseRecord[];
+      const metrics = database
+        .prepare(
+          `SELECT m.* FROM response_metrics m
+           JOIN responses r ON r.id = m.response_id
+           WHERE r.experiment_id = ?`
+        )
+        .all(id) as MetricRecord[];
+
+      return toExperiment(row, responses, metrics);
+    },
+
+    async listExperiments(query: ExperimentListQuery): Promise<ExperimentPage> {
+      const database = await getDb();
+
+      const values: unknown[] = [];
+      const { where, orderBy } = listClauses(
+        query,
+        (value) => {
+          values.push(value instanceof Date ? value.toISOString() : value);
+          return "?";
+        },
+        "LIKE"
+      );
+
+      const rows = database
+        .prepare(
+          `WITH page AS (
+            SELECT e.id, e.name, e.prompt, e.created_at, e.response_count, e.best_score
+            FROM experiments e
+            WHERE ${where}
+            ORDER BY ${orderBy}
+            LIMIT ${query.limit + 1}
+          )
+          SELECT
+            page.*,
+            (SELECT temperature FROM responses
+             WHERE experiment_id = page.id
+             ORDER BY overall_score DESC LIMIT 1) AS best_temperature,
+            (SELECT top_p FROM responses
+             WHERE experiment_id = page.id
+             ORDER BY overall_score DESC LIMIT 1) AS best_top_p
+          FROM page
+          ORDER BY ${orderBy}`
+        )
+        .all(...values) as SummaryRecord[];
+
+      return toPage(rows.map(toSummary), query);
+    },
+
+    async searchExperiments(query: SearchQuery): Promise<SearchResult[]> {
+      const match = toFtsQuery(query.q);
+      if (!match) return [];
+
+      const database = await getDb();
+
+      // bm25 is lower for better matches; names count double. FTS5 does not
+      // allow it inside an aggregate, so experiments are ranked here.
+      const score = "bm25(search_index) * (CASE field WHEN 'name' THEN 2 ELSE 1 END)";
+      const scored = database
+        .prepare(`SELECT experiment_id, field, ${score} AS score FROM search_index WHERE search_index MATCH ?`)
+        .all(match) as { experiment_id: string; field: SearchField; score: number }[];
+
+      const byExperiment = new Map<string, { score: number; matching: number }>();
+      for (const row of scored) {
+        const entry = byExperiment.get(row.experiment_id) || { score: Infinity, matching: 0 };
+        entry.score = Math.min(entry.score, row.score);
+        if (row.field === "response") entry.matching++;
+        byExperiment.set(row.experiment_id, entry);
+      }
+      const ranked = [...byExperiment.entries()]
+        .sort(([idA, a], [idB, b]) => a.score - b.score || (idA < idB ? -1 : 1))
+        .slice(0, query.limit)
+        .map(([experiment_id, entry]) => ({ experiment_id, matching: entry.matching }));
+      if (ranked.length === 0) return [];
+
+      const ids = ranked.map((row) => row.experiment_id);
+      const placeholders = ids.map(() => "?").join(", ");
+      const rows = database
+        .prepare(
+          `SELECT
+            experiment_id, response_id, field,
+            snippet(search_index, 0, ?, ?, '…', 24) AS snippet,
+            -${score} AS rank
+          FROM search_index
+          WHERE search_index MATCH ? AND experiment_id IN (${placeholders})`
+        )
+        .all(HIGHLIGHT_START, HIGHLIGHT_END, match, ...ids) as {
+        experiment_id: string;
+        response_id: string | null;
+        field: SearchField;
+        snippet: string;
+        rank: number;
+      }[];
+      const experimentRows = database
+        .prepare(`SELECT id, name, prompt, created_at FROM experiments WHERE id IN (${placeholders})`)
+        .all(...ids) as Pick<ExperimentRecord, "id" | "name" | "prompt" | "created_at">[];
+
+      const experiments = new Map(
+        experimentRows.map((row) => [
+          row.id,
+          { id: row.id, name: row.name || undefined, prompt: row.prompt, createdAt: new Date(row.created_at) },
+        ])
+      );
+      const hits: SearchHit[] = rows.map((row) => ({
+        experimentId: row.experiment_id,
+        field: row.field,
+        responseId: row.response_id ?? undefined,
+        ...fromMarkedSnippet(row.snippet),
+        rank: row.rank,
+      }));
+
+      return toSearchResults(
+        hits,
+        experiments,
+        query,
+        new Map(ranked.map((row) => [row.experiment_id, row.matching]))
+      );
+    },
+
+    async updateExperiment(
+      id: string,
+      updates: Partial<Pick<Experiment, "name" | "description">>
+    ): Promise<void> {
+      const database = await getDb();
+
+      database
+        .prepare(
+          `UPDATE experiments SET
+            name = CASE WHEN @setName THEN @name ELSE name END,
+            description = CASE WHEN @setDescription THEN @description ELSE description END,
+            updated_at = @updatedAt
+          WHERE id = @id`
+        )
+        .run({
+          id,
+          setName: updates.name !== undefined ? 1 : 0,
+          name: updates.name ?? null,
+          setDescription: updates.description !== undefined ? 1 : 0,
+          description: updates.description ?? null,
+          updatedAt: now(),
+        });
+
+      console.log(`✅ Updated experiment ${id}`);
+    },
+
+    async updateExperimentStatistics(id: string, statistics: ParameterSetStatistics[]): Promise<void> {
+      const database = await getDb();
+      database
+        .prepare("UPDATE experiments SET statistics = ?, updated_at = ? WHERE id = ?")
+        .run(json(statistics), now(), id);
+    },
+
+    async deleteExperiment(id: string): Promise<void> {
+      const database = await getDb();
+      database.prepare("DELETE FROM experiments WHERE id = ?").run(id);
+      console.log(`✅ Deleted experiment ${id}`);
+    },
+
+    async saveJob(job: ExperimentJob): Promise<void> {
+      const database = await getDb();
+
+      database.transaction(() => {
+        database
+          .prepare(
+            `INSERT INTO jobs (id, experiment_id, status, model, error, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`
+          )
+          .run(
+            job.id,
+            job.experimentId,
+            job.status,
+            job.model,
+            job.error || null,
+            new Date(job.createdAt).toISOString(),
+            new Date(job.updatedAt).toISOString()
+          );
+
+        const insertTask = database.prepare(
+          `INSERT INTO job_tasks (job_id, task_index, temperature, top_p, sample_index, status, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`
+        );
+        for (const task of job.tasks) {
+          insertTask.run(
+            job.id,
+            task.index,
+            task.parameters.temperature,
+            task.parameters.topP,
+            task.sampleIndex,
+            task.status,
+            now()
+          );
+        }
+      })();
+
+      console.log(`✅ Saved job ${job.id} with ${job.tasks.length} tasks`);
+    },
+
+    async getJob(id: string): Promise<ExperimentJob | null> {
+      const database = await getDb();
+
+      const row = database.prepare("SELECT * FROM jobs WHERE id = ?").get(id) as JobRecord | undefined;
+      if (!row) return null;
+
+      const tasks = database
+        .prepare(
+          `SELECT t.*, r.overall_score
+           FROM job_tasks t
+           LEFT JOIN responses r ON r.id = t.response_id
+           WHERE t.job_id = ?
+           ORDER BY t.task_index ASC`
+        )
+        .all(id) as JobTaskRecord[];
+
+      return toJob(row, tasks);
+    },
+
+    async getUnfinishedJobIds(): Promise<string[]> {
+      const database = await getDb();
+      const rows = database
+        .prepare("SELECT id FROM jobs WHERE status IN ('queued', 'running') ORDER BY created_at ASC")
+        .all() as { id: string }[];
+      return rows.map((row) => row.id);
+    },
+
+    async updateJobStatus(id: string, status: JobStatus, error?: string): Promise<void> {
+      const database = await getDb();
+      database
+        .prepare("UPDATE jobs SET status = ?, error = ?, updated_at = ? WHERE id = ?")
+        .run(status, error || null, now(), id);
+    },
+
+    async claimJobTask(jobId: string, index: number): Promise<boolean> {
+      const database = await getDb();
+      const result = database
+        .prepare(
+          `UPDATE job_tasks SET status = 'running', updated_at = ?
+           WHERE job_id = ? AND task_index = ? AND status = 'pending'`
+        )
+        .run(now(), jobId, index);
+      return result.changes === 1;
+    },
+
+    async completeJobTask(
+      jobId: string,
+      index: number,
+      experimentId: string,
+      response: LLMResponse
+    ): Promise<void> {
+      const database = await getDb();
+
+      database.transaction(() => {
+        insertResponse(database, experimentId, response);
+        database
+          .prepare(
+            `UPDATE job_tasks SET status = 'completed', response_id = ?, updated_at = ?
+             WHERE job_id = ? AND task_index = ?`
+          )
+          .run(response.id, now(), jobId, index);
+        database.prepare("UPDATE experiments SET updated_at = ? WHERE id = ?").run(now(), experimentId);
+      })();
+    },
+
+    async failJobTask(jobId: string, index: number, error: string): Promise<void> {
+      const database = await getDb();
+      database
+        .prepare(
+          `UPDATE job_tasks SET status = 'failed', error = ?, updated_at = ?
+           WHERE job_id = ? AND task_index = ?`
+        )
+        .run(error, now(), jobId, index);
+    },
+
+    async touchJobTask(jobId: string, index: number): Promise<void> {
+      const database = await getDb();
+      database
+        .prepare(
+          `UPDATE job_tasks SET updated_at = ?
+           WHERE job_id = ? AND task_index = ? AND status = 'running'`
+        )
+        .run(now(), jobId, index);
+    },
+
+    async resetStaleJobTasks(staleAfterMs: number): Promise<number> {
+      const database = await getDb();
+      const result = database
+        .prepare(
+          `UPDATE job_tasks SET status = 'pending', updated_at = ?
+           WHERE status = 'running' AND updated_at < ?`
+        )
+        .run(now(), new Date(Date.now() - staleAfterMs).toISOString());
+      return result.changes;
+    },
+
+    async getSchemaStatus(): Promise<SchemaStatus> {
+      return getSqliteMigrationStatus(await getDb());
+    },
+
+    async migrateSchema(target?: number): Promise<MigrationRun> {
+      return migrateSqlite(await getDb(), target);
+    },
+
+    async close(): Promise<void> {
+      if (db) {
+        db.close();
+        db = null;
+        console.log("👋 SQLite database closed");
+      }
+    },
+  };
+}
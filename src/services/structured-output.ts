@@ -0,0 +1,70 @@
+import { z } from "zod";
+import { JsonSchema, SchemaViolation } from "@/types";
+
+export type ParsedJson =
+  | { ok: true; value: unknown; fenced: boolean }
+  | { ok: false; error: string };
+
+/**
+ * Parse a response as JSON
+ *
+ * A response that is exactly one fenced code block is unwrapped first, since
+ * providers without a JSON mode tend to answer that way.
+ */
+export function parseJsonResponse(response: string): ParsedJson {
+  const trimmed = response.trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*\n([\s\S]*?)\n```$/);
+
+  try {
+    return { ok: true, value: JSON.parse(fenced ? fenced[1] : trimmed), fenced: Boolean(fenced) };
+  } catch (error) {
+    return { ok: false, error: (error as SyntaxError).message };
+  }
+}
+
+/**
+ * Turn a JSON Schema into a validator; throws on schemas it cannot handle
+ */
+export function compileJsonSchema(schema: JsonSchema): z.ZodType {
+  return z.fromJSONSchema(schema as Parameters<typeof z.fromJSONSchema>[0]);
+}
+
+/**
+ * Every place a value breaks the schema, with JSONPath-style locations
+ */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema): SchemaViolation[] {
+  const result = compileJsonSchema(schema).safeParse(value);
+  if (result.success) return [];
+
+  return result.error.issues.map((issue) => ({
+    path: formatPath(issue.path),
+    message: issue.message,
+  }));
+}
+
+/**
+ * 0-100 conformance: 100 for a valid document, halved by the first
+ * violation and shrinking with each further one; 0 when it does not parse
+ */
+export function schemaConformance(parsed: ParsedJson, violations: SchemaViolation[]): number {
+  if (!parsed.ok) return 0;
+  return 100 / (1 + violations.length);
+}
+
+/**
+ * One-line summary of a schema check
+ */
+export function describeSchemaCheck(parsed: ParsedJson, violations: SchemaViolation[]): string {
+  if (!parsed.ok) return "Not checked: the response is not valid JSON.";
+  if (violations.length === 0) return "Matches the JSON Schema.";
+
+  const paths = violations.map((violation) => violation.path).join(", ");
+  return `${violations.length} schema violation${violations.length === 1 ? "" : "s"}: ${paths}`;
+}
+
+function formatPath(path: PropertyKey[]): string {
+  return path.reduce<string>(
+    (result, key) => (typeof key === "number" ? `${result}[${key}]` : `${result}.${String(key)}`),
+    "$"
+  );
+}
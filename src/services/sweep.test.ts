@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { EXPERIMENT_BUDGET, experimentConfigSchema } from "@/lib/schemas";
+import { ExperimentConfig } from "@/types";
+import { countParameterSets, expandExperimentConfig, expandRange, rangeLength } from "./sweep";
+
+describe("expandRange", () => {
+  it("includes both ends without floating point drift", () => {
+    expect(expandRange({ min: 0, max: 1, step: 0.1 })).toEqual([0, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1]);
+    expect(expandRange({ min: 0.5, max: 1.2, step: 0.25 })).toEqual([0.5, 0.75, 1]);
+  });
+
+  it("has just its min when the step is too small or the range is reversed", () => {
+    expect(expandRange({ min: 0.3, max: 2, step: 1e-9 })).toEqual([0.3]);
+    expect(expandRange({ min: 0.3, max: 2, step: 0 })).toEqual([0.3]);
+    expect(expandRange({ min: 1, max: 0.5, step: 0.1 })).toEqual([1]);
+  });
+});
+
+describe("rangeLength", () => {
+  it("counts a range's values without expanding it", () => {
+    expect(rangeLength({ min: 0, max: 1, step: 0.1 })).toBe(11);
+    expect(rangeLength({ min: 0, max: 2, step: 0.001 })).toBe(2001);
+    expect(rangeLength({ min: 0, max: 1e12, step: 0.001 })).toBe(1e15 + 1);
+  });
+});
+
+describe("countParameterSets", () => {
+  it.each<[string, ExperimentConfig]>([
+    ["defaults", { prompt: "p" }],
+    ["ranges", { prompt: "p", temperatureRange: { min: 0, max: 1.5, step: 0.25 }, topPRange: { min: 0.5, max: 1, step: 0.1 } }],
+    ["values on the range", { prompt: "p", temperatures: [0.5, 0.25, 2], temperatureRange: { min: 0, max: 1, step: 0.25 } }],
+    ["repeated values", { prompt: "p", topPValues: [0.9, 0.9, 0.9004], topPRange: { min: 0.9, max: 0.9, step: 1 } }],
+  ])("matches the expanded grid for %s", (_, config) => {
+    expect(countParameterSets(config)).toBe(expandExperimentConfig(config).length);
+  });
+});
+
+describe("experimentConfigSchema", () => {
+  it("rejects steps finer than the rounding", () => {
+    const result = experimentConfigSchema.safeParse({ prompt: "p", temperatureRange: { min: 0, max: 2, step: 1e-9 } });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toBe("Step must be at least 0.001");
+  });
+
+  it("rejects a grid over the budget before expanding it", () => {
+    const result = experimentConfigSchema.safeParse({
+      prompt: "p",
+      temperatureRange: { min: 0, max: 2, step: 0.001 },
+      topPRange: { min: 0, max: 1, step: 0.001 },
+      samples: 20,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toBe(
+      `Grid needs 40060020 generations (2003001 parameter sets × 20 samples), which exceeds the budget of ${EXPERIMENT_BUDGET}`
+    );
+  });
+
+  it("accepts a grid within the budget", () => {
+    expect(
+      experimentConfigSchema.safeParse({ prompt: "p", temperatureRange: { min: 0, max: 1.5, step: 0.25 }, topPValues: [0.5, 0.9, 1] })
+        .success
+    ).toBe(true);
+  });
+});
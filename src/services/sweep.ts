@@ -0,0 +1,109 @@
+import { ExperimentConfig, LLMParameters, ParameterRange, SampledParameters } from "@/types";
+
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_TOP_P = 1;
+
+/**
+ * Smallest step a range may use. Values are rounded to three decimals, so
+ * a finer step would only repeat them.
+ */
+export const MIN_STEP = 0.001;
+
+/**
+ * Count a range's values without expanding it. A range with a step below
+ * MIN_STEP or with max below min has just its min.
+ */
+export function rangeLength({ min, max, step }: ParameterRange): number {
+  if (!(step >= MIN_STEP) || max < min) {
+    return 1;
+  }
+  return Math.floor((max - min) / step + 1e-9) + 1;
+}
+
+/**
+ * Expand a range into its values, including both ends
+ */
+export function expandRange(range: ParameterRange): number[] {
+  // Count steps instead of accumulating to avoid floating point drift
+  return Array.from({ length: rangeLength(range) }, (_, i) => roundParameter(range.min + i * range.step));
+}
+
+/**
+ * Count the parameter sets a sweep config expands to, without expanding it.
+ * Check this against the budget before calling expandExperimentConfig.
+ */
+export function countParameterSets(config: ExperimentConfig): number {
+  return (
+    countValues(config.temperatures, config.temperatureRange) *
+    countValues(config.topPValues, config.topPRange)
+  );
+}
+
+/**
+ * Expand a sweep config into the Cartesian product of its parameter values
+ */
+export function expandExperimentConfig(config: ExperimentConfig): LLMParameters[] {
+  const temperatures = collectValues(config.temperatures, config.temperatureRange, DEFAULT_TEMPERATURE);
+  const topPValues = collectValues(config.topPValues, config.topPRange, DEFAULT_TOP_P);
+
+  return temperatures.flatMap((temperature) =>
+    topPValues.map((topP) => ({ temperature, topP }))
+  );
+}
+
+/**
+ * A single generation: one sample of one parameter set
+ */
+export interface GenerationSlot {
+  parameters: LLMParameters;
+  sampleIndex: number;
+}
+
+/**
+ * Expand parameter sets into one slot per sample
+ */
+export function expandSamples(parameters: SampledParameters[], defaultSamples: number = 1): GenerationSlot[] {
+  return parameters.flatMap(({ temperature, topP, samples }) =>
+    Array.from({ length: samples ?? defaultSamples }, (_, sampleIndex) => ({
+      parameters: { temperature, topP },
+      sampleIndex,
+    }))
+  );
+}
+
+function collectValues(
+  values: number[] | undefined,
+  range: ParameterRange | undefined,
+  fallback: number
+): number[] {
+  const all = [...(values || []), ...(range ? expandRange(range) : [])].map(roundParameter);
+
+  if (all.length === 0) {
+    return [fallback];
+  }
+
+  return [...new Set(all)].sort((a, b) => a - b);
+}
+
+// Matches collectValues(...).length: explicit values that land on the
+// range's grid are not counted twice
+function countValues(values: number[] | undefined, range: ParameterRange | undefined): number {
+  const explicit = new Set((values || []).map(roundParameter));
+  if (!range) {
+    return explicit.size || 1;
+  }
+
+  const length = rangeLength(range);
+  let extra = 0;
+  for (const value of explicit) {
+    const i = length === 1 ? 0 : Math.round((value - range.min) / range.step);
+    if (i < 0 || i >= length || roundParameter(range.min + i * range.step) !== value) {
+      extra++;
+    }
+  }
+  return length + extra;
+}
+
+function roundParameter(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,248 @@
+import { MarkdownBlock, TextSpan } from "@/types";
+
+// Abbreviations whose period never ends a sentence
+const ABBREVIATIONS = new Set([
+  "e.g", "i.e", "cf", "vs", "viz", "approx", "ca", "al", "fig", "figs", "eq", "no", "nos", "vol", "pp",
+  "mr", "mrs", "ms", "dr", "prof", "sr", "jr", "st", "mt", "ft", "gen", "rev", "inc", "ltd", "co", "corp",
+  "jan", "feb", "mar", "apr", "jun", "jul", "aug", "sep", "sept", "oct", "nov", "dec",
+  "a.m", "p.m", "u.s", "u.k", "e.u", "ph.d", "b.sc", "m.sc",
+]);
+
+// Abbreviations that end a sentence when a capitalized word follows
+const TERMINAL_ABBREVIATIONS = new Set(["etc", "inc", "ltd", "co", "corp", "a.m", "p.m", "u.s", "u.k", "e.u"]);
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})[ \t]*([^\s`]*)/;
+const HEADING = /^ {0,3}(#{1,6})[ \t]+(.*?)[ \t#]*$/;
+const LIST_ITEM = /^([ \t]*)(?:[-*+•]|(\d+)[.)])[ \t]+(?:\[[ xX]\][ \t]+)?/;
+const QUOTE = /^ {0,3}>[ \t]?/;
+const RULE = /^ {0,3}(?:(?:-[ \t]*){3,}|(?:\*[ \t]*){3,}|(?:_[ \t]*){3,})$/;
+const TABLE_SEPARATOR = /^[ \t]*\|?[ \t]*:?-{3,}:?[ \t]*(?:\|[ \t]*:?-{3,}:?[ \t]*)*\|?[ \t]*$/;
+
+interface Line {
+  text: string;
+  start: number;
+}
+
+/**
+ * Split markdown into blocks: headings, paragraphs, list items, quotes,
+ * fenced code and tables
+ *
+ * Each block's `text` is an exact slice of the input starting at `start`,
+ * without its markdown marker ("## ", "- ", "> "), so prose can be
+ * highlighted in place. Lines that continue a list item or quote belong to
+ * it. Horizontal rules and blank lines produce no block.
+ */
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  const lines = toLines(text);
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  const span = (start: number, end: number) => ({ start, end, text: text.slice(start, end) });
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.text.trim() === "" || RULE.test(line.text)) {
+      i++;
+      continue;
+    }
+
+    const fence = line.text.match(FENCE);
+    if (fence) {
+      const closing = new RegExp(`^ {0,3}${fence[1][0]}{${fence[1].length},}[ \\t]*$`);
+      let j = i + 1;
+      while (j < lines.length && !closing.test(lines[j].text)) j++;
+
+      const codeStart = i + 1 < lines.length ? lines[i + 1].start : text.length;
+      const codeEnd = j < lines.length ? lines[j].start : text.length;
+      blocks.push({
+        type: "code",
+        language: fence[2] ? fence[2].toLowerCase() : null,
+        ...span(line.start, Math.min(text.length, j < lines.length ? lineEnd(lines[j]) : text.length)),
+        code: text.slice(codeStart, codeEnd),
+      });
+      i = j + 1;
+      continue;
+    }
+
+    const heading = line.text.match(HEADING);
+    if (heading) {
+      const contentStart = line.start + line.text.indexOf(heading[2], heading[1].length);
+      blocks.push({ type: "heading", level: heading[1].length, ...span(contentStart, contentStart + heading[2].length) });
+      i++;
+      continue;
+    }
+
+    if (line.text.includes("|") && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1].text)) {
+      let j = i + 2;
+      while (j < lines.length && lines[j].text.includes("|") && lines[j].text.trim() !== "") j++;
+
+      const rows = [lines[i], ...lines.slice(i + 2, j)].map((row) =>
+        row.text.trim().replace(/^\||\|$/g, "").split("|").map((cell) => cell.trim())
+      );
+      blocks.push({ type: "table", ...span(line.start, lineEnd(lines[j - 1])), rows });
+      i = j;
+      continue;
+    }
+
+    const listItem = line.text.match(LIST_ITEM);
+    if (listItem) {
+      const indent = listItem[1].length;
+      let j = i + 1;
+      // Indented, non-blank lines that start no new item or block continue the item
+      while (
+        j < lines.length &&
+        lines[j].text.trim() !== "" &&
+        !LIST_ITEM.test(lines[j].text) &&
+        !FENCE.test(lines[j].text) &&
+        !HEADING.test(lines[j].text) &&
+        (lines[j].text.match(/^[ \t]*/)?.[0].length ?? 0) > indent
+      ) {
+        j++;
+      }
+
+      const contentStart = line.start + listItem[0].length;
+      blocks.push({
+        type: "listItem",
+        ordered: listItem[2] !== undefined,
+        depth: Math.floor(indent / 2),
+        ...span(contentStart, trimEnd(text, lineEnd(lines[j - 1]))),
+      });
+      i = j;
+      continue;
+    }
+
+    if (QUOTE.test(line.text)) {
+      let j = i + 1;
+      while (j < lines.length && QUOTE.test(lines[j].text)) j++;
+
+      const contentStart = line.start + (line.text.match(QUOTE)?.[0].length ?? 0);
+      blocks.push({ type: "quote", ...span(contentStart, trimEnd(text, lineEnd(lines[j - 1]))) });
+      i = j;
+      continue;
+    }
+
+    // A paragraph runs until a blank line or the start of another block
+    let j = i + 1;
+    while (
+      j < lines.length &&
+      lines[j].text.trim() !== "" &&
+      !FENCE.test(lines[j].text) &&
+      !HEADING.test(lines[j].text) &&
+      !LIST_ITEM.test(lines[j].text) &&
+      !QUOTE.test(lines[j].text) &&
+      !RULE.test(lines[j].text)
+    ) {
+      j++;
+    }
+
+    const contentStart = line.start + (line.text.match(/^[ \t]*/)?.[0].length ?? 0);
+    blocks.push({ type: "paragraph", ...span(contentStart, trimEnd(text, lineEnd(lines[j - 1]))) });
+    i = j;
+  }
+
+  return blocks;
+}
+
+/**
+ * Split text into sentences, as exact slices of the input
+ *
+ * A sentence ends at ".", "!" or "?" (with any closing quotes or brackets)
+ * followed by whitespace or the end of the text. Abbreviations ("e.g.",
+ * "Dr."), initials ("J. R. R."), decimals, URLs and file names do not end
+ * sentences; line breaks do not either, so wrapped lines stay together.
+ */
+export function splitSentences(text: string, offset = 0): TextSpan[] {
+  const sentences: TextSpan[] = [];
+  const boundary = /[.!?]+["'”’)\]]*(?=\s|$)/g;
+  let start = 0;
+
+  for (const match of text.matchAll(boundary)) {
+    const end = (match.index ?? 0) + match[0].length;
+    if (match[0].startsWith(".") && !endsSentence(text, match.index ?? 0, end)) continue;
+
+    pushSentence(sentences, text, start, end, offset);
+    start = end;
+  }
+  pushSentence(sentences, text, start, text.length, offset);
+
+  return sentences;
+}
+
+/**
+ * Sentences of the prose in markdown: paragraphs, list items and quotes.
+ * Headings, code and tables are left out; each list item ends a sentence
+ * even without a period.
+ */
+export function proseSentences(text: string): TextSpan[] {
+  return proseBlocks(text).flatMap((block) => splitSentences(block.text, block.start));
+}
+
+/**
+ * Blocks that hold prose: paragraphs, list items and quotes
+ */
+export function proseBlocks(text: string): MarkdownBlock[] {
+  return parseMarkdown(text).filter(
+    (block) => block.type === "paragraph" || block.type === "listItem" || block.type === "quote"
+  );
+}
+
+/**
+ * Prose with inline markdown (emphasis, inline code marks, links, images)
+ * reduced to its words
+ */
+export function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/(\*\*|__|\*|_|~~|`)(?=\S)([^\n]*?\S)\1/g, "$2");
+}
+
+/**
+ * Words of a text: runs of non-space characters with a letter or digit
+ */
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter((word) => /[\p{L}\p{N}]/u.test(word)).length;
+}
+
+function endsSentence(text: string, periodIndex: number, end: number): boolean {
+  const before = text.slice(0, periodIndex).match(/(\S+)$/)?.[1] ?? "";
+  const word = before.replace(/^[("'“‘[]+/, "").toLowerCase();
+  const next = text.slice(end).match(/^\s*(\S)/)?.[1];
+
+  // Initials such as "J. K." or a single-letter list label
+  if (/^\p{Lu}$/u.test(before.replace(/^[("'“‘[]+/, "")) && next && /\p{Lu}/u.test(next)) return false;
+
+  if (TERMINAL_ABBREVIATIONS.has(word)) return next === undefined || /[\p{Lu}\d"“]/u.test(next);
+  if (ABBREVIATIONS.has(word)) return false;
+
+  return true;
+}
+
+function pushSentence(sentences: TextSpan[], text: string, from: number, to: number, offset: number) {
+  const slice = text.slice(from, to);
+  const leading = slice.length - slice.trimStart().length;
+  const trimmed = slice.trim();
+  if (!/[\p{L}\p{N}]/u.test(trimmed)) return;
+
+  const start = from + leading;
+  sentences.push({ text: trimmed, start: offset + start, end: offset + start + trimmed.length });
+}
+
+function toLines(text: string): Line[] {
+  const lines: Line[] = [];
+  let start = 0;
+  for (const line of text.split("\n")) {
+    lines.push({ text: line.replace(/\r$/, ""), start });
+    start += line.length + 1;
+  }
+  return lines;
+}
+
+function lineEnd(line: Line): number {
+  return line.start + line.text.length;
+}
+
+function trimEnd(text: string, end: number): number {
+  while (end > 0 && /\s/.test(text[end - 1])) end--;
+  return end;
+}
@@ -7,16 +7,375 @@ export interface LLMParameters {
   topP: number; // 0-1
 }
 
+export interface LLMGenerateResult {
+  content: string;
+  tokenCount: number;
+  model: string; // Model the provider actually used
+  provider: string; // Provider id, e.g. "openai"
+}
+
+/**
+ * A single generation call handed to a provider adapter
+ */
+export interface ProviderRequest {
+  prompt: string;
+  parameters: LLMParameters;
+  model: string; // Provider-specific model name (without the provider prefix)
+  maxTokens: number;
+  onToken?: (delta: string) => void; // Set to request a streamed completion
+  responseFormat?: ResponseFormat;
+}
+
+/**
+ * Request JSON output, optionally matching a JSON Schema
+ */
+export interface ResponseFormat {
+  type: "json";
+  schema?: JsonSchema;
+}
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Adapter interface implemented by every LLM provider
+ */
+export interface LLMProvider {
+  id: string; // Prefix used in "provider:model" strings
+  name: string;
+  defaultModel: string;
+  baseURL?: string; // Set for OpenAI-compatible endpoints
+  isConfigured(): boolean;
+  generate(request: ProviderRequest): Promise<LLMGenerateResult>;
+}
+
+export interface ProviderInfo {
+  id: string;
+  name: string;
+  defaultModel: string;
+  configured: boolean;
+  baseURL?: string;
+}
+
+/**
+ * Scores keyed by metric ID, e.g. coherence, completeness, readability,
+ * lengthAppropriateness, structuralQuality
+ */
 export interface QualityMetrics {
-  coherence: number; // 0-100
-  completeness: number; // 0-100
-  readability: number; // 0-100
-  lengthAppropriatenss: number; // 0-100
-  structuralQuality: number; // 0-100
-  overall: number; // Average of all metrics
+  overall: number; // 0-100 weighted average of the active metrics under the scoring profile
+  [metricId: string]: number;
+}
+
+export interface MetricRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * Extra per-metric output, e.g. a judge's justification
+ */
+export interface MetricDetails {
+  summary?: string; // Shown in place of the generic score explanation
+  [key: string]: unknown;
+}
+
+/**
+ * A score with details; scorers may also return a bare number
+ */
+export interface MetricResult {
+  score: number;
+  details?: MetricDetails;
+}
+
+/**
+ * What a metric scorer gets to look at
+ */
+export interface MetricInput {
+  prompt: string;
+  response: string;
+  settings: ExperimentSettings;
+}
+
+/**
+ * Experiment inputs some metrics compare the response against
+ */
+export type MetricInputField = "reference" | "contextDocuments" | "jsonSchema" | "codeTests";
+
+/**
+ * A registered quality metric
+ */
+export interface MetricDefinition {
+  id: string;
+  name: string;
+  version: string; // Bump when the scorer changes so stored scores stay comparable
+  description: string;
+  range: MetricRange;
+  levels?: [string, string, string, string]; // Details for normalized scores ≥80, ≥60, ≥40 and below
+  requires?: MetricInputField; // Settings field it compares against; scored only when set, which also activates it by default
+  replaces?: string[]; // Default metrics it stands in for when its input activates it
+  // null when the metric does not apply
+  score: (input: MetricInput) => number | MetricResult | null | Promise<number | MetricResult | null>;
+}
+
+/**
+ * Serializable catalog entry for a registered metric
+ */
+export type MetricInfo = Omit<MetricDefinition, "score"> & {
+  default: boolean; // Active when an experiment does not choose its metrics
+};
+
+/**
+ * Forces the overall score to 0 when a metric falls below a threshold
+ */
+export interface ScoringGate {
+  metric: string;
+  below: number; // On the metric's 0-100 normalized scale
+}
+
+/**
+ * Named weighting of metrics into the overall score
+ */
+export interface ScoringProfile {
+  id: string;
+  name: string;
+  description: string;
+  weights: Record<string, number>; // Unlisted metrics weigh 1; 0 excludes a metric
+  gates?: ScoringGate[];
+}
+
+/**
+ * Judge model and rubric for the LLM-as-judge metric
+ */
+export interface JudgeSettings {
+  model?: string; // "provider:model"; defaults to JUDGE_MODEL
+  rubric?: string; // Defaults to a general helpfulness and correctness rubric
+}
+
+/**
+ * A source document a retrieval-augmented answer should be grounded in
+ */
+export interface ContextDocument {
+  title?: string;
+  content: string;
+}
+
+/**
+ * Options for the groundedness metric
+ */
+export interface GroundednessSettings {
+  judge?: boolean; // Also ask the judge model whether each claim is supported
+}
+
+/**
+ * Support for one claim of a response in the context documents
+ */
+export interface ClaimSupport {
+  text: string; // Exact substring of the response
+  support: number; // 0-1 heuristic support
+  supported: boolean; // The judge's verdict when one was asked, else support ≥ threshold
+  source?: string; // Title of the best-matching context document
+}
+
+/**
+ * A hard instruction a response must follow, declared on the experiment
+ * or extracted from the prompt
+ */
+export type Constraint =
+  | { type: "wordCount"; min?: number; max?: number }
+  | { type: "sentenceCount"; min?: number; max?: number }
+  | { type: "bulletCount"; min?: number; max?: number }
+  | { type: "paragraphCount"; min?: number; max?: number }
+  | { type: "json" }
+  | { type: "includes"; text: string }
+  | { type: "excludes"; text: string }
+  | { type: "case"; case: "lower" | "upper" };
+
+export type ConstraintType = Constraint["type"];
+
+/**
+ * Whether one response satisfied one constraint
+ */
+export interface ConstraintResult {
+  constraint: Constraint;
+  description: string; // e.g. "At most 100 words"
+  passed: boolean;
+  actual?: string; // What the response did, e.g. "112 words"
+}
+
+/**
+ * Where a structured response breaks its JSON Schema
+ */
+export interface SchemaViolation {
+  path: string; // e.g. "$.items[0].price"
+  message: string;
+}
+
+/**
+ * A slice of a text with its character offsets
+ */
+export interface TextSpan {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * A block of markdown; `text` is the content without its marker
+ */
+export type MarkdownBlock =
+  | (TextSpan & { type: "heading"; level: number })
+  | (TextSpan & { type: "paragraph" })
+  | (TextSpan & { type: "listItem"; ordered: boolean; depth: number })
+  | (TextSpan & { type: "quote" })
+  | (TextSpan & { type: "code"; language: string | null; code: string }) // text includes the fences
+  | (TextSpan & { type: "table"; rows: string[][] }); // Header row first, separator left out
+
+/**
+ * A fenced code block of a response
+ */
+export interface CodeBlock {
+  language: string | null; // Normalized tag, e.g. "typescript" for ts; null when untagged
+  code: string;
+}
+
+/**
+ * Syntax check of one code block
+ */
+export interface CodeBlockCheck {
+  language: string | null;
+  checked: boolean; // false for languages without an in-process parser
+  valid: boolean;
+  errors: string[]; // e.g. 'Line 3: Unexpected token, expected ","'
+}
+
+/**
+ * A user-supplied snippet run against a response's code; it passes when it
+ * completes without throwing
+ */
+export interface CodeTest {
+  name?: string;
+  code: string; // e.g. "assert.strictEqual(add(2, 3), 5)"
+}
+
+export interface CodeTestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+}
+
+/**
+ * A stretch of a response that loops or does not read as words
+ */
+export interface DegenerateSpan {
+  kind: "repetition" | "gibberish";
+  start: number; // Character offset in the response
+  text: string;
+}
+
+/**
+ * Repetition and gibberish signals of one response
+ */
+export interface DegenerationReport {
+  score: number; // 0-100; 100 for no degeneration
+  distinct1: number; // Unique share of unigrams, bigrams and trigrams
+  distinct2: number;
+  distinct3: number;
+  repeatedShare: number; // Share of words inside repeated spans
+  compressionRatio: number; // Original over compressed size
+  nonWordRate: number; // Share of tokens that do not look like words
+  spans: DegenerateSpan[];
+}
+
+/**
+ * Readability indices of a response's prose
+ */
+export interface ReadabilityIndices {
+  fleschReadingEase: number; // Higher is easier, roughly 0-100
+  fleschKincaidGrade: number; // US school grade
+  gunningFog: number; // US school grade
+  smog: number; // US school grade
+  colemanLiau: number; // US school grade
+  daleChall: number; // Raw score; 4.9 or lower is grade 4 and below, 10 or higher is college graduate
+  consensusGrade: number; // Median of the grade-level indices
+  words: number;
+  sentences: number;
+}
+
+/**
+ * What a safety detector looks for
+ */
+export type SafetyCategory = "pii" | "secret" | "toxicity";
+
+/**
+ * A span of a response flagged by a safety detector
+ */
+export interface SafetyFinding {
+  detector: string; // Detector ID, e.g. "email" or "apiKey"
+  category: SafetyCategory;
+  start: number; // Character offset in the response
+  text: string;
+}
+
+/**
+ * Safety screening of one response
+ */
+export interface SafetyReport {
+  score: number; // 0-100; 100 means nothing was flagged
+  flags: string[]; // IDs of the detectors that fired
+  findings: SafetyFinding[];
+}
+
+/**
+ * Per-experiment safety screening options
+ */
+export interface SafetySettings {
+  disabled?: string[]; // Built-in detector IDs to skip
+  lexicons?: { id: string; category: SafetyCategory; terms: string[] }[]; // Matched as whole words, case-insensitively
+  patterns?: { id: string; category: SafetyCategory; pattern: string }[]; // Regular expressions, case-insensitive
+  allow?: string[]; // Exact strings never flagged, e.g. a public support address
+}
+
+/**
+ * Per-experiment options that control scoring
+ */
+export interface ExperimentSettings {
+  metrics?: string[]; // Active metric IDs; defaults to the built-in set
+  scoringProfile?: string; // Scoring profile ID; defaults to "balanced"
+  judge?: JudgeSettings;
+  reference?: string; // Gold answer; enables the reference-based metrics
+  contextDocuments?: ContextDocument[]; // Enables the groundedness metric
+  groundedness?: GroundednessSettings;
+  constraints?: Constraint[]; // Omit to extract constraints from the prompt; [] disables them
+  jsonSchema?: JsonSchema; // Structured-output mode: JSON is requested and validated against it
+  codeTests?: CodeTest[]; // Run against the response's JavaScript/TypeScript blocks; enables the code tests metric
+  audience?: string; // Target reader, e.g. "grade 6" or "expert"; readability then scores closeness to it
+  safety?: SafetySettings;
+}
+
+/**
+ * A judge's absolute verdict on one response
+ */
+export interface JudgeVerdict {
+  score: number; // 1-10
+  justification: string;
+  model: string; // Judge that produced the verdict; "local" for the stand-in
+}
+
+/**
+ * Pairwise verdict between two responses, judged in both orders
+ */
+export interface PairwiseJudgment {
+  winner: "a" | "b" | "tie";
+  consistent: boolean; // Both orders agreed; false means position bias was detected
+  verdicts: {
+    order: "ab" | "ba";
+    winner: "a" | "b" | "tie"; // Mapped back to the original a/b labels
+    justification: string;
+  }[];
+  model: string;
 }
 
 export interface MetricExplanation {
+  id: string;
   name: string;
   score: number;
   description: string;
@@ -27,33 +386,172 @@ export interface LLMResponse {
   id: string;
   content: string;
   parameters: LLMParameters;
+  sampleIndex?: number; // 0-based sample number within its parameter set
   metrics: QualityMetrics;
+  metricVersions?: Record<string, string>; // Scorer version per metric ID
+  metricDetails?: Record<string, MetricDetails>;
+  safety?: SafetyReport; // Kept apart from the metrics; never part of the overall score
   generatedAt: Date;
   tokenCount: number;
   model: string;
 }
 
+/**
+ * A generation that failed; reported, but not saved as a response
+ */
+export interface GenerationFailure {
+  parameters: LLMParameters;
+  sampleIndex: number;
+  error: string;
+}
+
+/**
+ * A parameter set as submitted, with how many samples to draw from it
+ */
+export interface SampledParameters extends LLMParameters {
+  samples?: number;
+}
+
+/**
+ * Descriptive statistics for one metric across samples
+ */
+export interface MetricStatistics {
+  mean: number;
+  std: number; // Sample standard deviation
+  ciLower: number; // 95% confidence interval of the mean
+  ciUpper: number;
+  n: number;
+}
+
+/**
+ * Aggregated metrics for all samples of one parameter set
+ */
+export interface ParameterSetStatistics {
+  parameters: LLMParameters;
+  sampleCount: number;
+  metrics: Record<string, MetricStatistics>;
+}
+
+export type SignificanceTest = "bootstrap" | "mann-whitney" | "permutation";
+
+export type MultipleComparisonCorrection = "holm" | "bonferroni" | "benjamini-hochberg" | "none";
+
+/**
+ * Standardized size of the difference between two parameter sets
+ */
+export interface EffectSize {
+  cohensD: number;
+  cliffsDelta: number; // -1..1, probability of a > b minus probability of a < b
+}
+
+/**
+ * Test result for one metric between two parameter sets (a minus b)
+ */
+export interface PairwiseComparison {
+  a: LLMParameters;
+  b: LLMParameters;
+  metric: string;
+  meanDifference: number;
+  effectSize: EffectSize;
+  pValue: number;
+  adjustedPValue: number; // After multiple-comparison correction within the metric
+  significant: boolean;
+}
+
+/**
+ * Pairwise significance tests across all parameter sets of an experiment
+ */
+export interface SignificanceReport {
+  test: SignificanceTest;
+  correction: MultipleComparisonCorrection;
+  alpha: number;
+  metric: string; // Metric the winner is chosen by
+  comparisons: PairwiseComparison[];
+  winner: {
+    parameters: LLMParameters;
+    mean: number;
+    significant: boolean; // Significantly better than every other parameter set
+  } | null;
+}
+
+/**
+ * Similarity of two responses of an experiment, by index; all 0-1
+ */
+export interface ResponseSimilarity {
+  a: number;
+  b: number;
+  jaccard: number; // Shared share of distinct words
+  cosine: number; // TF-IDF cosine
+  selfBleu: number; // BLEU of each against the other, averaged
+}
+
+/**
+ * Diversity of a set of responses; pairwise means are null with fewer than
+ * two responses
+ */
+export interface TemperatureDiversity {
+  temperature: number;
+  responseCount: number;
+  jaccard: number | null;
+  cosine: number | null;
+  selfBleu: number | null;
+  distinct1: number; // Over the pooled responses
+  distinct2: number;
+}
+
+/**
+ * Cross-response diversity of an experiment
+ */
+export interface DiversityReport {
+  threshold: number; // Cosine at or above which responses are near-duplicates
+  overall: Omit<TemperatureDiversity, "temperature">;
+  byTemperature: TemperatureDiversity[];
+  pairs: ResponseSimilarity[];
+  clusters: number[][]; // Response indexes of each near-duplicate group
+}
+
 export interface Experiment {
   id: string;
   prompt: string;
   responses: LLMResponse[];
+  settings?: ExperimentSettings;
+  statistics?: ParameterSetStatistics[];
   createdAt: Date;
   updatedAt: Date;
   name?: string;
   description?: string;
 }
 
+/**
+ * Inclusive numeric range swept in fixed steps
+ */
+export interface ParameterRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+/**
+ * Grid sweep definition: every temperature is paired with every topP value.
+ * Explicit values and ranges may be combined; duplicates are removed.
+ */
 export interface ExperimentConfig {
   prompt: string;
-  temperatures: number[];
-  topPValues: number[];
+  temperatures?: number[];
+  temperatureRange?: ParameterRange;
+  topPValues?: number[];
+  topPRange?: ParameterRange;
+  samples?: number; // Samples drawn for every grid cell
   model?: string;
+  settings?: ExperimentSettings;
 }
 
 export interface GenerateRequest {
   prompt: string;
-  parameters: LLMParameters[];
-  model?: string;
+  parameters: SampledParameters[];
+  samples?: number; // Default for parameter sets without their own count
+  model?: string; // "provider:model", e.g. "anthropic:claude-3-5-haiku-latest"
+  settings?: ExperimentSettings;
 }
 
 export interface GenerateResponse {
@@ -73,6 +571,149 @@ export interface ExperimentSummary {
   };
 }
 
+export type ExperimentSort = "createdAt" | "bestScore" | "responseCount";
+
+/**
+ * Where a page of the experiment list ended: the sort value and ID of its
+ * last row (createdAt as epoch milliseconds, bestScore -1 without responses)
+ */
+export interface ExperimentCursor {
+  sort: ExperimentSort;
+  order: "asc" | "desc";
+  value: number;
+  id: string;
+}
+
+export interface ExperimentListQuery {
+  sort: ExperimentSort;
+  order: "asc" | "desc";
+  limit: number;
+  cursor?: ExperimentCursor; // Continue after this row
+  name?: string; // Case-insensitive substring of the name
+  model?: string; // Case-insensitive substring of any response's model ID
+  from?: Date; // Created at or after
+  to?: Date; // Created at or before
+  minScore?: number; // Best overall score at least; excludes experiments without responses
+  maxScore?: number;
+}
+
+export interface ExperimentPage {
+  experiments: ExperimentSummary[];
+  nextCursor: string | null; // Null on the last page
+}
+
+export interface SearchQuery {
+  q: string;
+  limit: number; // Experiments to return
+}
+
+export type SearchField = "name" | "description" | "prompt" | "response";
+
+export interface SearchMatch {
+  field: SearchField;
+  responseId?: string; // Set for response matches
+  snippet: string; // An excerpt of the field around the match
+  highlights: [number, number][]; // Start and end offsets of matched terms in the snippet
+}
+
+export interface SearchResult {
+  id: string;
+  name?: string;
+  prompt: string;
+  createdAt: Date;
+  matches: SearchMatch[]; // Experiment fields first, then the best few responses
+  matchingResponses: number;
+}
+
+export type JobStatus = "queued" | "running" | "completed" | "failed";
+
+export type JobTaskStatus = "pending" | "running" | "completed" | "failed";
+
+/**
+ * One parameter set of a background experiment job
+ */
+export interface JobTask {
+  index: number;
+  parameters: LLMParameters;
+  sampleIndex: number;
+  status: JobTaskStatus;
+  responseId?: string;
+  overallScore?: number; // Set once the response is scored
+  error?: string;
+}
+
+/**
+ * A background experiment run, processed by the in-process job queue
+ */
+export interface ExperimentJob {
+  id: string;
+  experimentId: string;
+  status: JobStatus;
+  model: string;
+  tasks: JobTask[];
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Storage backend for experiments, their responses and background jobs
+ */
+export interface ExperimentStore {
+  id: string; // "postgres", "sqlite" or "memory"
+  saveExperiment(experiment: Experiment): Promise<void>;
+  getExperiment(id: string): Promise<Experiment | null>;
+  listExperiments(query: ExperimentListQuery): Promise<ExperimentPage>;
+  searchExperiments(query: SearchQuery): Promise<SearchResult[]>; // Best matches first
+  updateExperiment(id: string, updates: Partial<Pick<Experiment, "name" | "description">>): Promise<void>;
+  updateExperimentStatistics(id: string, statistics: ParameterSetStatistics[]): Promise<void>;
+  deleteExperiment(id: string): Promise<void>;
+
+  saveJob(job: ExperimentJob): Promise<void>;
+  getJob(id: string): Promise<ExperimentJob | null>;
+  getUnfinishedJobIds(): Promise<string[]>;
+  updateJobStatus(id: string, status: JobStatus, error?: string): Promise<void>;
+  claimJobTask(jobId: string, index: number): Promise<boolean>; // Atomic; false when the task is not pending
+  completeJobTask(jobId: string, index: number, experimentId: string, response: LLMResponse): Promise<void>;
+  failJobTask(jobId: string, index: number, error: string): Promise<void>;
+  touchJobTask(jobId: string, index: number): Promise<void>; // Heartbeat from the worker running the task
+  resetStaleJobTasks(staleAfterMs: number): Promise<number>; // Running tasks not updated within the window go back to pending
+  close(): Promise<void>;
+
+  // Versioned schema, for stores that keep one
+  getSchemaStatus?(): Promise<SchemaStatus>;
+  migrateSchema?(target?: number): Promise<MigrationRun>; // Up or down to target; latest by default
+}
+
+/**
+ * One numbered schema change with the SQL to apply and to revert it
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string;
+}
+
+export interface MigrationState {
+  version: number;
+  name: string;
+  appliedAt?: Date; // Unset while pending
+}
+
+export interface SchemaStatus {
+  currentVersion: number; // Highest applied version; 0 when none
+  latestVersion: number;
+  pending: number[];
+  migrations: MigrationState[];
+}
+
+export interface MigrationRun {
+  direction: "up" | "down";
+  versions: number[]; // In the order they ran; empty when already at the target
+  status: SchemaStatus;
+}
+
 export interface ExportFormat {
   experiment: Experiment;
   exportedAt: Date;
@@ -86,30 +727,4 @@ export interface APIError {
   details?: Record<string, unknown>;
 }
 
-// Database types
-export interface ExperimentRow {
-  id: string;
-  prompt: string;
-  name: string | null;
-  description: string | null;
-  created_at: string;
-  updated_at: string;
-}
-
-export interface ResponseRow {
-  id: string;
-  experiment_id: string;
-  content: string;
-  temperature: number;
-  top_p: number;
-  coherence_score: number;
-  completeness_score: number;
-  readability_score: number;
-  length_score: number;
-  structural_score: number;
-  overall_score: number;
-  token_count: number;
-  model: string;
-  generated_at: string;
-}
 